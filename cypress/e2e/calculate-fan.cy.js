@@ -0,0 +1,76 @@
+import calculateFan from '../../src/layout/calculate-fan'
+import calculateTree from '../../src/layout/calculate-tree'
+
+function person(id, gender, parents = [], children = [], spouses = []) {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+// gf + gm -> f; f + m -> main
+function createData() {
+  return [
+    person('main', 'M', ['f', 'm']),
+    person('f', 'M', ['gf', 'gm'], ['main'], ['m']),
+    person('m', 'F', [], ['main'], ['f']),
+    person('gf', 'M', [], ['f'], ['gm']),
+    person('gm', 'F', [], ['f'], ['gf']),
+  ]
+}
+
+function getSegment(fan, id) {
+  return fan.segments.find(s => s.datum.data.id === id)
+}
+
+function degrees(radians) {
+  return Math.round(radians * 180 / Math.PI)
+}
+
+describe('Fan layout', () => {
+  it('Splits the fan angle between parents in every generation', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false})
+    const fan = calculateFan(tree, {angle: 240, center_radius: 80, ring_width: 90})
+    const angles = id => [degrees(getSegment(fan, id).start_angle), degrees(getSegment(fan, id).end_angle)]
+    expect(fan.segments.map(s => [s.datum.data.id, s.depth])).to.deep.equal([['main', 0], ['f', 1], ['gf', 2], ['gm', 2], ['m', 1]])
+    expect(angles('main')).to.deep.equal([0, 360])
+    expect(angles('f')).to.deep.equal([-120, 0])
+    expect(angles('m')).to.deep.equal([0, 120])
+    expect(angles('gf')).to.deep.equal([-120, -60])
+    expect(angles('gm')).to.deep.equal([-60, 0])
+  })
+
+  it('Sets ring radii by generation', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false})
+    const fan = calculateFan(tree, {center_radius: 50, ring_width: 100})
+    const radii = id => [getSegment(fan, id).inner_radius, getSegment(fan, id).outer_radius]
+    expect(radii('main')).to.deep.equal([0, 50])
+    expect(radii('m')).to.deep.equal([50, 150])
+    expect(radii('gf')).to.deep.equal([150, 250])
+  })
+
+  it('Leaves the side of a missing parent empty', () => {
+    const data = createData()
+    data[0].rels.parents = ['m']
+    data[1].rels.children = []
+    const tree = calculateTree(data, {main_id: 'main', single_parent_empty_card: false})
+    const fan = calculateFan(tree, {angle: 180})
+    expect(fan.segments.map(s => s.datum.data.id)).to.deep.equal(['main', 'm'])
+    expect([degrees(getSegment(fan, 'm').start_angle), degrees(getSegment(fan, 'm').end_angle)]).to.deep.equal([0, 90])
+  })
+
+  it('Follows ancestry depth of the tree', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false, ancestry_depth: 1})
+    const fan = calculateFan(tree)
+    expect(fan.segments.map(s => s.datum.data.id)).to.deep.equal(['main', 'f', 'm'])
+    expect(Math.max(...fan.segments.map(s => s.outer_radius))).to.equal(80 + 90)
+  })
+
+  it('Covers the fan and center circle with dim', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false})
+    const fan = calculateFan(tree, {angle: 360, center_radius: 80, ring_width: 90})
+    const radius = 80 + 2*90
+    const padding = 45
+    expect(fan.dim.width).to.be.closeTo(radius*2 + padding*2, 0.001)
+    expect(fan.dim.height).to.be.closeTo(radius*2 + padding*2, 0.001)
+    expect(fan.dim.x_off).to.be.closeTo(radius + padding - fan.x, 0.001)
+    expect(fan.dim.y_off).to.be.closeTo(radius + padding - fan.y, 0.001)
+  })
+})
@@ -0,0 +1,73 @@
+import calculateGraph from '../../src/layout/calculate-graph'
+
+const options = {max_steps: 10, node_separation: 250, level_separation: 150}
+
+function person(id, gender, rels) {
+  return {id, data: {gender}, rels: {parents: [], spouses: [], children: [], ...rels}}
+}
+
+function getById(tree) {
+  const by_id = {}
+  tree.forEach(d => by_id[d.data.id] = d)
+  return by_id
+}
+
+describe('Calculate graph', () => {
+  it('Places generations on layers and spouses next to each other', () => {
+    const data = [
+      person('m', 'M', {parents: ['mf', 'mm'], spouses: ['s'], children: ['ch']}),
+      person('s', 'F', {parents: ['sf', 'sm'], spouses: ['m'], children: ['ch']}),
+      person('mf', 'M', {spouses: ['mm'], children: ['m']}),
+      person('mm', 'F', {spouses: ['mf'], children: ['m']}),
+      person('sf', 'M', {spouses: ['sm'], children: ['s']}),
+      person('sm', 'F', {spouses: ['sf'], children: ['s']}),
+      person('ch', 'F', {parents: ['m', 's']}),
+    ]
+    const by_id = getById(calculateGraph(data[0], data, options))
+    expect(Object.keys(by_id).sort()).to.deep.equal(['ch', 'm', 'mf', 'mm', 's', 'sf', 'sm'])
+    expect([by_id.mf.y, by_id.m.y, by_id.ch.y]).to.deep.equal([-150, 0, 150])
+    expect(Math.abs(by_id.m.x - by_id.s.x)).to.equal(250)
+    // parents are on the side of their child, so parent links don't cross
+    const m_side = Math.sign(by_id.m.x - by_id.s.x)
+    expect(Math.sign(by_id.mf.x - by_id.sf.x)).to.equal(m_side)
+    expect(Math.sign(by_id.mm.x - by_id.sm.x)).to.equal(m_side)
+  })
+
+  it('Orders children to avoid crossings', () => {
+    const data = [
+      person('m', 'M', {spouses: ['a', 'b'], children: ['b1', 'a1', 'b2', 'a2']}),
+      person('a', 'F', {spouses: ['m'], children: ['a1', 'a2']}),
+      person('b', 'F', {spouses: ['m'], children: ['b1', 'b2']}),
+      person('a1', 'M', {parents: ['m', 'a']}),
+      person('a2', 'M', {parents: ['m', 'a']}),
+      person('b1', 'M', {parents: ['m', 'b']}),
+      person('b2', 'M', {parents: ['m', 'b']}),
+    ]
+    const by_id = getById(calculateGraph(data[0], data, options))
+    const a_side = Math.sign(by_id.a.x - by_id.b.x)
+    expect(Math.sign(by_id.a1.x - by_id.b1.x)).to.equal(a_side)
+    expect(Math.sign(by_id.a2.x - by_id.b2.x)).to.equal(a_side)
+  })
+
+  it('Stops at max_steps', () => {
+    const data = [
+      person('a', 'M', {children: ['b']}),
+      person('b', 'M', {parents: ['a'], children: ['c']}),
+      person('c', 'M', {parents: ['b']}),
+    ]
+    const tree = calculateGraph(data[0], data, {...options, max_steps: 1})
+    expect(tree.map(d => d.data.id)).to.deep.equal(['a', 'b'])
+  })
+
+  it('Handles large data', () => {
+    const data = [person('root', 'M', {})]
+    for (let i = 0; i < 2000; i++) {
+      data[0].rels.children.push(`ch${i}`)
+      data.push(person(`ch${i}`, 'M', {parents: ['root']}))
+    }
+    const start = Date.now()
+    const tree = calculateGraph(data[0], data, options)
+    expect(tree).to.have.length(2001)
+    expect(Date.now() - start).to.be.below(5000)
+  })
+})
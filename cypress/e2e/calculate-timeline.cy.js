@@ -0,0 +1,42 @@
+import calculateTimeline from '../../src/layout/calculate-timeline'
+
+function createData() {
+  return [
+    {id: 'm', data: {gender: 'M', birthday: '1850-1855', death: '12 May 1920'}, rels: {parents: ['f'], spouses: ['s'], children: ['c']}},
+    {id: 'f', data: {gender: 'M', birthday: 'abt 1820', death: 'bef 1890'}, rels: {parents: [], spouses: [], children: ['m', 'b']}},
+    {id: 's', data: {gender: 'F', birthday: '1858-03'}, rels: {parents: [], spouses: ['m'], children: ['c']}},
+    {id: 'b', data: {gender: 'F', birthday: 'unknown'}, rels: {parents: ['f'], spouses: [], children: []}},
+    {id: 'c', data: {gender: 'F', birthday: '1880'}, rels: {parents: ['m', 's'], spouses: [], children: []}},
+  ]
+}
+
+describe('Calculate timeline', () => {
+  it('Reads years from parsed dates', () => {
+    const data = createData()
+    data[0].data['marriage date'] = 'aft 1877'
+    const timeline = calculateTimeline('m', data)
+    const rows = {}
+    timeline.rows.forEach(row => rows[row.datum.id] = row)
+    expect(rows.m.start).to.equal(1850)
+    expect(rows.m.end).to.be.closeTo(1920 + 4/12, 0.1)
+    expect(rows.f.start).to.equal(1820)
+    expect(rows.f.end).to.equal(1890)
+    expect(rows.s.start).to.be.closeTo(1858 + 2/12, 0.001)
+    expect(rows.m.events.find(e => e.type === 'marriage').year).to.equal(1878)
+  })
+
+  it('Leaves out relatives without dates and sorts rows by birth', () => {
+    const timeline = calculateTimeline('m', createData())
+    expect(timeline.rows.map(row => row.datum.id)).to.deep.equal(['f', 'm', 's', 'c'])
+    expect(timeline.min_year).to.equal(1820)
+    expect(timeline.max_year).to.equal(1930)
+  })
+
+  it('Keeps open life span for people who could be alive', () => {
+    const data = createData()
+    data[4].data.birthday = `${new Date().getFullYear() - 30}`
+    const row = calculateTimeline('m', data).rows.find(row => row.datum.id === 'c')
+    expect(row.is_open).to.equal(true)
+    expect(row.end).to.equal(new Date().getFullYear())
+  })
+})
@@ -0,0 +1,94 @@
+import calculateTree, { LAYOUT_MODE_DEFAULTS } from '../../src/layout/calculate-tree'
+
+function person(id, gender, parents = [], children = [], spouses = []) {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+// four grandparents -> f, m -> main + sp -> ch
+function createData() {
+  return [
+    person('main', 'M', ['f', 'm'], ['ch'], ['sp']),
+    person('f', 'M', ['ff', 'fm'], ['main'], ['m']),
+    person('m', 'F', ['mf', 'mm'], ['main'], ['f']),
+    person('ff', 'M', [], ['f'], ['fm']),
+    person('fm', 'F', [], ['f'], ['ff']),
+    person('mf', 'M', [], ['m'], ['mm']),
+    person('mm', 'F', [], ['m'], ['mf']),
+    person('sp', 'F', [], ['ch'], ['main']),
+    person('ch', 'M', ['main', 'sp']),
+  ]
+}
+
+function getIds(tree) {
+  return tree.data.map(d => d.data.id).sort()
+}
+
+function minGapPerLevel(tree) {
+  const levels = {}
+  tree.data.forEach(d => {
+    const key = `${d.is_ancestry ? 'a' : 'p'}${d.depth}`
+    if (!levels[key]) levels[key] = []
+    levels[key].push(d.x)
+  })
+  return Math.min(...Object.values(levels).filter(xs => xs.length > 1).map(xs => {
+    xs.sort((a, b) => a - b)
+    return Math.min(...xs.slice(1).map((x, i) => x - xs[i]))
+  }))
+}
+
+describe('Tree layout modes', () => {
+  it('Shows ancestry and progeny in hourglass mode', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false})
+    expect(tree.layout_mode).to.equal('hourglass')
+    expect(getIds(tree)).to.deep.equal(['ch', 'f', 'ff', 'fm', 'm', 'main', 'mf', 'mm', 'sp'])
+  })
+
+  it('Shows only ancestors in pedigree mode', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', layout_mode: 'pedigree', single_parent_empty_card: false})
+    expect(getIds(tree)).to.deep.equal(['f', 'ff', 'fm', 'm', 'main', 'mf', 'mm'])
+    expect(tree.data.filter(d => d.data.id !== 'main').every(d => d.is_ancestry)).to.equal(true)
+  })
+
+  it('Shows only progeny with spouses in descendants mode', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', layout_mode: 'descendants', single_parent_empty_card: false})
+    expect(getIds(tree)).to.deep.equal(['ch', 'main', 'sp'])
+    const main = tree.data.find(d => d.data.id === 'main')
+    expect(main.parents).to.equal(undefined)
+    expect(tree.data.find(d => d.data.id === 'ch').y).to.be.above(main.y)
+  })
+
+  it('Uses spacing defaults of the layout mode', () => {
+    Object.keys(LAYOUT_MODE_DEFAULTS).forEach(layout_mode => {
+      const tree = calculateTree(createData(), {main_id: 'main', layout_mode})
+      expect({node_separation: tree.node_separation, level_separation: tree.level_separation}).to.deep.equal(LAYOUT_MODE_DEFAULTS[layout_mode])
+    })
+    const main_y = tree => tree.data.find(d => d.data.id === 'main').y
+    const f_y = tree => tree.data.find(d => d.data.id === 'f').y
+    const pedigree = calculateTree(createData(), {main_id: 'main', layout_mode: 'pedigree'})
+    expect(main_y(pedigree) - f_y(pedigree)).to.equal(LAYOUT_MODE_DEFAULTS.pedigree.level_separation)
+  })
+
+  it('Prefers spacing options over layout mode defaults', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', layout_mode: 'pedigree', node_separation: 300, level_separation: 200})
+    expect([tree.node_separation, tree.level_separation]).to.deep.equal([300, 200])
+    expect(minGapPerLevel(tree)).to.be.at.least(300)
+  })
+
+  it('Keeps cards on the same level at least node_separation apart', () => {
+    const data = createData()
+    // second spouse with children widens the progeny side, single parent of ff adds a placeholder card
+    data.push(person('sp2', 'F', [], ['ch2', 'ch3'], ['main']), person('ch2', 'F', ['main', 'sp2']), person('ch3', 'M', ['main', 'sp2']), person('fff', 'M', [], ['ff']))
+    data[0].rels.spouses.push('sp2')
+    data[0].rels.children.push('ch2', 'ch3')
+    data[3].rels.parents.push('fff')
+    const layout_modes = ['pedigree', 'descendants']
+    layout_modes.forEach(layout_mode => {
+      const tree = calculateTree(data, {main_id: 'main', layout_mode})
+      expect(minGapPerLevel(tree)).to.be.at.least(LAYOUT_MODE_DEFAULTS[layout_mode].node_separation - 0.001)
+    })
+  })
+
+  it('Throws on unknown layout mode', () => {
+    expect(() => calculateTree(createData(), {main_id: 'main', layout_mode: 'circle'})).to.throw('Unknown layout mode circle')
+  })
+})
@@ -0,0 +1,83 @@
+import { checkConsistency } from '../../src/store/consistency'
+import { escapeHtml } from '../../src/features/field-types'
+
+function createData(dates = {}) {
+  return [
+    {id: 'f', data: {gender: 'M', 'first name': 'John', ...dates.f}, rels: {parents: [], spouses: ['m'], children: ['c']}},
+    {id: 'm', data: {gender: 'F', 'first name': 'Mary', ...dates.m}, rels: {parents: [], spouses: ['f'], children: ['c']}},
+    {id: 'c', data: {gender: 'F', 'first name': 'Ann', ...dates.c}, rels: {parents: ['f', 'm'], spouses: [], children: []}},
+  ]
+}
+
+function getRules(issues) {
+  return issues.map(issue => [issue.rule, issue.datum_id, issue.rel_id])
+}
+
+describe('Consistency', () => {
+  it('Finds no issues in consistent data', () => {
+    const data = createData({f: {birthday: '1820', death: '1890'}, m: {birthday: '1825'}, c: {birthday: '1850', death: '1850'}})
+    expect(checkConsistency(data)).to.deep.equal([])
+  })
+
+  it('Finds death before birth and child born before parent', () => {
+    const data = createData({f: {birthday: '1850'}, c: {birthday: '1849', death: '1848'}})
+    expect(getRules(checkConsistency(data))).to.deep.equal([
+      ['death_before_birth', 'c', undefined],
+      ['child_before_parent', 'c', 'f'],
+    ])
+  })
+
+  it('Compares neighbouring years as ranges', () => {
+    expect(getRules(checkConsistency(createData({m: {death: '1850'}, c: {birthday: '1851'}})))).to.deep.equal([
+      ['birth_after_parent_death', 'c', 'm'],
+    ])
+    // a father can die before the birth of his child
+    expect(checkConsistency(createData({f: {death: '1850'}, c: {birthday: '1851'}}))).to.deep.equal([])
+    expect(getRules(checkConsistency(createData({c: {birthday: '1851', death: '1850'}})))).to.deep.equal([
+      ['death_before_birth', 'c', undefined],
+    ])
+  })
+
+  it('Reads dates from text, not from stored parsed values', () => {
+    const data = createData({c: {birthday: '1850', death: '1849', death__date: {qualifier: 'exact', date: {year: 1860}}}})
+    expect(getRules(checkConsistency(data))).to.deep.equal([
+      ['death_before_birth', 'c', undefined],
+    ])
+  })
+
+  it('Gives approximate dates the benefit of the doubt', () => {
+    expect(getRules(checkConsistency(createData({f: {birthday: '1825'}, c: {birthday: '1835'}})))).to.deep.equal([
+      ['parent_too_young', 'c', 'f'],
+    ])
+    expect(checkConsistency(createData({f: {birthday: '1825'}, c: {birthday: 'abt 1835'}}))).to.deep.equal([])
+    expect(checkConsistency(createData({f: {birthday: 'bet 1820 and 1840'}, c: {birthday: '1850'}}))).to.deep.equal([])
+  })
+
+  it('Checks marriage dates of unions and marriage fields', () => {
+    const data = createData({f: {birthday: '1850', death: '1900'}})
+    data[0].rels.spouse_meta = {m: {date: '1845'}}
+    data[1].data['marriage date__ref__f'] = '1901'
+    expect(getRules(checkConsistency(data))).to.deep.equal([
+      ['marriage_before_birth', 'f', 'm'],
+    ])
+    delete data[0].rels.spouse_meta
+    data[0].data['marriage date__ref__m'] = '1905'
+    expect(getRules(checkConsistency(data))).to.deep.equal([
+      ['marriage_after_death', 'f', 'm'],
+    ])
+  })
+
+  it('Skips unknown and placeholder people', () => {
+    const data = createData({c: {birthday: '1850', death: '1840'}})
+    data[2].unknown = true
+    expect(checkConsistency(data)).to.deep.equal([])
+  })
+
+  it('Keeps names in messages as text, escaped when rendered', () => {
+    const data = createData({f: {birthday: '1850'}, c: {birthday: '1840'}})
+    data[0].data['first name'] = '<img src=x onerror="alert(1)">'
+    const [issue] = checkConsistency(data)
+    expect(issue.message).to.equal('Born before parent <img src=x onerror="alert(1)">')
+    expect(escapeHtml(issue.message)).to.equal('Born before parent &lt;img src=x onerror=&quot;alert(1)&quot;&gt;')
+  })
+})
@@ -0,0 +1,92 @@
+import { parseDate, formatDate, compareDates, sortByDate, getDateRange, getDatumDate } from '../../src/store/date'
+import { submitFormData } from '../../src/store/edit'
+import { formatDataForExport } from '../../src/store/format-data'
+
+function formData(values) {
+  const form_data = new FormData()
+  Object.keys(values).forEach(k => form_data.append(k, values[k]))
+  return form_data
+}
+
+describe('Dates', () => {
+  it('Parses years, months and full dates', () => {
+    expect(parseDate('1850')).to.deep.equal({qualifier: 'exact', date: {year: 1850}})
+    expect(parseDate('May 1850').date).to.deep.equal({year: 1850, month: 5})
+    expect(parseDate('1850-05').date).to.deep.equal({year: 1850, month: 5})
+    expect(parseDate('1850-05-12').date).to.deep.equal({year: 1850, month: 5, day: 12})
+    expect(parseDate('12 May 1850').date).to.deep.equal({year: 1850, month: 5, day: 12})
+    expect(parseDate('May 12, 1850').date).to.deep.equal({year: 1850, month: 5, day: 12})
+    expect(parseDate('12.05.1850').date).to.deep.equal({year: 1850, month: 5, day: 12})
+  })
+
+  it('Parses qualifiers and ranges', () => {
+    expect(formatDate(parseDate('about 1850'))).to.equal('abt 1850')
+    expect(formatDate(parseDate('est. 1850'))).to.equal('abt 1850')
+    expect(formatDate(parseDate('before May 1900'))).to.equal('bef 1900-05')
+    expect(formatDate(parseDate('after 1900'))).to.equal('aft 1900')
+    expect(formatDate(parseDate('approximately 1850'))).to.equal('abt 1850')
+    expect(formatDate(parseDate('calculated 1850'))).to.equal('abt 1850')
+    expect(formatDate(parseDate('1850-1855'))).to.equal('bet 1850 and 1855')
+    expect(formatDate(parseDate('from 1850 to 1855'))).to.equal('bet 1850 and 1855')
+    expect(formatDate(parseDate('1850s'))).to.equal('bet 1850 and 1859')
+  })
+
+  it('Rejects invalid dates', () => {
+    ['', 'unknown', '1850-13', '31 Feb 1850', 'Ma 1850', '1855-1850'].forEach(text => {
+      expect(parseDate(text), text).to.equal(null)
+    })
+  })
+
+  it('Returns half-open ranges', () => {
+    expect(getDateRange(parseDate('1850'))).to.deep.equal([1850, 1851])
+    expect(getDateRange(parseDate('abt 1850'))).to.deep.equal([1848, 1853])
+    expect(getDateRange(parseDate('bef 1850'))).to.deep.equal([-Infinity, 1850])
+    expect(getDateRange(parseDate('aft 1850'))).to.deep.equal([1851, Infinity])
+    expect(getDateRange(parseDate('1850-1855'))).to.deep.equal([1850, 1856])
+  })
+
+  it('Compares dates and puts missing dates last', () => {
+    const sorted = ['1852', 'aft 1850', '', '1850', 'bef 1850', '12 May 1850'].sort(compareDates)
+    expect(sorted).to.deep.equal(['bef 1850', '1850', 'aft 1850', '12 May 1850', '1852', ''])
+  })
+
+  it('Parses date text of a datum and caches it', () => {
+    const datum = {id: 'a', data: {gender: 'M', birthday: 'abt 1850'}, rels: {parents: [], spouses: [], children: []}}
+    const date = getDatumDate(datum, 'birthday')
+    expect(date).to.deep.equal({qualifier: 'about', date: {year: 1850}})
+    expect(getDatumDate(datum, 'birthday')).to.equal(date)
+    datum.data.birthday = '1860'
+    expect(getDatumDate(datum, 'birthday').date.year).to.equal(1860)
+    expect(getDatumDate(datum, 'death')).to.equal(null)
+  })
+
+  it('Reads the text when the stored value is out of date', () => {
+    const datum = {id: 'a', data: {gender: 'M', birthday: '1860', birthday__date: {qualifier: 'exact', date: {year: 1850}}}, rels: {parents: [], spouses: [], children: []}}
+    expect(getDatumDate(datum, 'birthday').date.year).to.equal(1860)
+  })
+
+  it('Stores date text and parsed value on form submit', () => {
+    const datum = {id: 'a', data: {gender: 'M'}, rels: {parents: [], spouses: [], children: []}}
+    const fields = [{type: 'date', id: 'birthday', label: 'Birthday'}]
+    expect(submitFormData(datum, [datum], formData({birthday: 'abt 1850'}), fields).success).to.equal(true)
+    expect(datum.data).to.deep.equal({gender: 'M', birthday: 'abt 1850', birthday__date: {qualifier: 'about', date: {year: 1850}}})
+    const {success, errors} = submitFormData(datum, [datum], formData({birthday: 'sometime'}), fields)
+    expect(success).to.equal(false)
+    expect(errors).to.have.property('birthday')
+    expect(datum.data.birthday).to.equal('abt 1850')
+    expect(submitFormData(datum, [datum], formData({birthday: ''}), fields).success).to.equal(true)
+    expect(datum.data).to.deep.equal({gender: 'M', birthday: ''})
+  })
+
+  it('Keeps parsed value in exported data', () => {
+    const datum = {id: 'a', data: {gender: 'M'}, rels: {parents: [], spouses: [], children: []}}
+    submitFormData(datum, [datum], formData({birthday: 'bet 1850 and 1855'}), [{type: 'date', id: 'birthday', label: 'Birthday'}])
+    const [exported] = formatDataForExport(JSON.parse(JSON.stringify([datum])))
+    expect(exported.data.birthday__date).to.deep.equal({qualifier: 'between', date: {year: 1850}, end_date: {year: 1855}})
+  })
+
+  it('Sorts people by date field', () => {
+    const data = ['1860', 'bef 1850', '1855'].map((birthday, i) => ({id: `${i}`, data: {gender: 'M', birthday}, rels: {parents: [], spouses: [], children: []}}))
+    expect(data.sort(sortByDate('birthday')).map(d => d.data.birthday)).to.deep.equal(['bef 1850', '1855', '1860'])
+  })
+})
@@ -0,0 +1,99 @@
+import { createEvents, trackChanges, emitDataChanges } from '../../src/features/events'
+import { deletePerson } from '../../src/store/edit'
+import { mergePersons } from '../../src/store/merge'
+
+function createData() {
+  return [
+    {id: 'a', data: {gender: 'M', 'first name': 'John'}, rels: {parents: [], spouses: ['b'], children: ['c']}},
+    {id: 'b', data: {gender: 'F', 'first name': 'Mary'}, rels: {parents: [], spouses: ['a'], children: ['c']}},
+    {id: 'c', data: {gender: 'F', 'first name': 'Ann'}, rels: {parents: ['a', 'b'], spouses: [], children: []}},
+    {id: 'd', data: {gender: 'M', 'first name': 'Other'}, rels: {parents: [], spouses: [], children: []}},
+  ]
+}
+
+function listen(events) {
+  const emitted = []
+  ;['person:added', 'person:updated', 'person:deleted', 'relation:linked', 'relation:unlinked'].forEach(name => {
+    events.on(name, e => emitted.push({name, ...e}))
+  })
+  return emitted
+}
+
+describe('Change events', () => {
+  it('Removes handlers with off', () => {
+    const events = createEvents()
+    const calls = []
+    const handler = e => calls.push(e.datum_id)
+    events.on('main:changed', handler)
+    events.on('main:changed', () => events.off('main:changed'))
+    events.emit('main:changed', {datum_id: 'a', before: null})
+    events.emit('main:changed', {datum_id: 'b', before: 'a'})
+    expect(calls).to.deep.equal(['a'])
+  })
+
+  it('Emits person:updated for edited person only', () => {
+    const data = createData()
+    const events = createEvents()
+    const emitted = listen(events)
+    const emitChanges = trackChanges(events, data, ['a'])
+    data[0].data['first name'] = 'Johnny'
+    emitChanges()
+    expect(emitted.map(e => [e.name, e.datum_id])).to.deep.equal([['person:updated', 'a']])
+    expect(emitted[0].before.data['first name']).to.equal('John')
+    expect(emitted[0].after.data['first name']).to.equal('Johnny')
+  })
+
+  it('Emits person:added and relation:linked when placeholder becomes a person', () => {
+    const data = createData()
+    data[0].rels.children.push('n')
+    data.push({id: 'n', data: {gender: 'M'}, rels: {parents: ['a'], spouses: [], children: []}, _new_rel_data: {rel_type: 'son'}})
+    const events = createEvents()
+    const emitted = listen(events)
+    const emitChanges = trackChanges(events, data, ['n', 'a'])
+    data[4].data['first name'] = 'Tom'
+    delete data[4]._new_rel_data
+    emitChanges()
+    expect(emitted.map(e => [e.name, e.datum_id])).to.deep.equal([['person:added', 'n'], ['relation:linked', 'n']])
+    expect(emitted[1].rel_id).to.equal('a')
+    expect(emitted[1].rel_type).to.equal('parent')
+  })
+
+  it('Emits person:deleted and relation:unlinked on delete', () => {
+    const data = createData()
+    const events = createEvents()
+    const emitted = listen(events)
+    const emitChanges = trackChanges(events, data, ['c'])
+    deletePerson(data[2], data)
+    emitChanges()
+    expect(emitted.map(e => [e.name, e.datum_id, e.rel_id])).to.deep.equal([
+      ['relation:unlinked', 'c', 'a'],
+      ['relation:unlinked', 'c', 'b'],
+      ['person:deleted', 'c', undefined],
+    ])
+    expect(emitted[2].before.data['first name']).to.equal('Ann')
+  })
+
+  it('Emits relation changes of both people on merge', () => {
+    const data = createData()
+    data[3].rels.parents = ['a']
+    data[0].rels.children.push('d')
+    const events = createEvents()
+    const emitted = listen(events)
+    const emitChanges = trackChanges(events, data, ['c', 'd'])
+    mergePersons(data, 'c', 'd', {})
+    emitChanges()
+    expect(emitted.filter(e => e.name === 'person:deleted').map(e => e.datum_id)).to.deep.equal(['d'])
+    expect(emitted.filter(e => e.name === 'relation:unlinked').map(e => [e.datum_id, e.rel_id])).to.deep.equal([['d', 'a']])
+    expect(emitted.filter(e => e.name === 'relation:linked')).to.deep.equal([])
+  })
+
+  it('Compares whole data for history changes', () => {
+    const before = createData()
+    const after = createData().filter(d => d.id !== 'd')
+    after[0].data['first name'] = 'Johnny'
+    const events = createEvents()
+    const emitted = listen(events)
+    emitDataChanges(events, before, after)
+    expect(emitted.map(e => [e.name, e.datum_id])).to.deep.equal([['person:updated', 'a'], ['person:deleted', 'd']])
+  })
+})
@@ -0,0 +1,57 @@
+import { createExportSvg, inlineHtmlStyles, createDefaultStyles } from '../../src/features/export-image'
+
+function createCont() {
+  const cont = document.createElement('div')
+  cont.innerHTML = `
+    <svg class="main_svg"><g class="view"><g class="cards_view"><rect width="10" height="10"></rect></g></g></svg>
+    <div id="htmlSvg"><div class="cards_view"><div class="card">John</div></div></div>
+  `
+  document.body.appendChild(cont)
+  return cont
+}
+
+describe('Export image', () => {
+  it('Sizes the svg from the given view bounds', () => {
+    const cont = createCont()
+    const svg = createExportSvg(cont, {width: 100, height: 50, x_off: 10, y_off: 5}, {padding: 0, background: 'white'})
+    expect(svg.getAttribute('width')).to.equal('100')
+    expect(svg.getAttribute('height')).to.equal('50')
+    expect(svg.querySelector('.view').getAttribute('transform')).to.equal('translate(10, 5)')
+    expect(svg.querySelector('foreignObject')).not.to.equal(null)
+    cont.remove()
+  })
+
+  it('Leaves out hidden html cards', () => {
+    const cont = createCont()
+    cont.querySelector('#htmlSvg .cards_view').style.visibility = 'hidden'
+    const svg = createExportSvg(cont, {width: 100, height: 50, x_off: 0, y_off: 0}, {})
+    expect(svg.querySelector('foreignObject')).to.equal(null)
+    cont.remove()
+  })
+
+  it('Inlines html styles that differ from defaults', () => {
+    const style = document.createElement('style')
+    style.textContent = '.f3-test-cont {color: rgb(255, 0, 0)} .f3-test-name {font-weight: 700; transition: opacity 1s}'
+    document.head.appendChild(style)
+    const original = document.createElement('div')
+    original.className = 'f3-test-cont'
+    original.innerHTML = '<span class="f3-test-name">John</span>'
+    document.body.appendChild(original)
+    const clone = original.cloneNode(true)
+    const computed_count = getComputedStyle(original.children[0]).length
+
+    const default_styles = createDefaultStyles()
+    inlineHtmlStyles(original, clone, default_styles.get)
+    default_styles.remove()
+    original.remove()
+    style.remove()
+
+    const name_style = clone.children[0].style
+    expect(clone.style.getPropertyValue('color')).to.equal('rgb(255, 0, 0)')
+    expect(name_style.getPropertyValue('color')).to.equal('rgb(255, 0, 0)')
+    expect(name_style.getPropertyValue('font-weight')).to.equal('700')
+    expect(name_style.getPropertyValue('font-style')).to.equal('')
+    expect(name_style.getPropertyValue('transition-duration')).to.equal('')
+    expect(name_style.length).to.be.below(computed_count)
+  })
+})
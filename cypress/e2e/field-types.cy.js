@@ -0,0 +1,111 @@
+import { registerFieldType, getFieldType, serialiseFieldValue, parseFieldValue } from '../../src/features/field-types'
+import { submitFormData } from '../../src/store/edit'
+import { getHtmlNew } from '../../src/renderers/create-form-html'
+
+function formData(entries) {
+  const form_data = new FormData()
+  entries.forEach(([k, v]) => form_data.append(k, v))
+  return form_data
+}
+
+function field(type, id, initial_value, options = {}) {
+  return {type, id, label: id, initial_value, ...options}
+}
+
+function validate(type, value, options = {}) {
+  return getFieldType(type).validate(value, field(type, 'f', undefined, options))
+}
+
+function renderInfo(f) {
+  const form_creator = {title: '', fields: [f], editable: false, warnings: [], gender_field: {id: 'gender', options: []}}
+  return getHtmlNew(form_creator)
+}
+
+describe('Field types', () => {
+  it('Registers field types and uses text defaults', () => {
+    registerFieldType('color', {render: f => `<input type="color" name="${f.id}">`})
+    const color = field('color', 'eyes', '#00ff00')
+    expect(getFieldType('color')).not.to.equal(undefined)
+    expect(getFieldType('unknown')).to.equal(undefined)
+    expect(serialiseFieldValue(color)).to.equal('#00ff00')
+    expect(serialiseFieldValue(field('color', 'eyes', undefined))).to.equal('')
+    expect(parseFieldValue(color, ['#ff0000', '#0000ff'])).to.equal('#ff0000')
+    expect(parseFieldValue(color, [])).to.equal(undefined)
+  })
+
+  it('Parses and validates numbers', () => {
+    const f = field('number', 'children', undefined)
+    expect(parseFieldValue(f, [' 12 '])).to.equal(12)
+    expect(parseFieldValue(f, [''])).to.equal(undefined)
+    expect(validate('number', undefined)).to.equal(null)
+    expect(validate('number', NaN)).to.equal('Must be a number')
+    expect(validate('number', 0, {min: 1})).to.equal('Must be at least 1')
+    expect(validate('number', 11, {max: 10})).to.equal('Must be at most 10')
+    expect(validate('number', 5, {min: 1, max: 10})).to.equal(null)
+  })
+
+  it('Stores checkbox as boolean', () => {
+    const f = field('checkbox', 'living', undefined)
+    expect(parseFieldValue(f, ['true'])).to.equal(true)
+    expect(parseFieldValue(f, [])).to.equal(false)
+    expect(getFieldType('checkbox').renderInfo(field('checkbox', 'living', true))).to.equal('Yes')
+    expect(getFieldType('checkbox').renderInfo(field('checkbox', 'living', false))).to.equal('No')
+  })
+
+  it('Validates links and email addresses', () => {
+    expect(validate('url', 'https://example.com/a?b=1')).to.equal(null)
+    expect(validate('url', 'javascript:alert(1)')).to.equal('Must be a link starting with http:// or https://')
+    expect(validate('url', undefined)).to.equal(null)
+    expect(validate('email', 'john@example.com')).to.equal(null)
+    expect(validate('email', 'john@example')).to.equal('Must be an email address')
+    expect(parseFieldValue(field('email', 'email'), ['  '])).to.equal(undefined)
+  })
+
+  it('Stores multi select values and shows their labels', () => {
+    const options = [{value: 'en', label: 'English'}, {value: 'fr', label: 'French'}]
+    const f = field('multi_select', 'languages', ['fr', 'de'], {options})
+    expect(parseFieldValue(f, ['en', 'fr'])).to.deep.equal(['en', 'fr'])
+    expect(parseFieldValue(f, [])).to.equal(undefined)
+    expect(serialiseFieldValue(f)).to.equal('French, de')
+    const html = getFieldType('multi_select').render(f)
+    expect(html).to.contain('value="fr" checked')
+    expect(html).not.to.contain('value="en" checked')
+  })
+
+  it('Escapes values in inputs and info', () => {
+    const options = [{value: '"x"', label: '<b>X</b>'}]
+    expect(getFieldType('multi_select').render(field('multi_select', 'm', [], {options}))).to.contain('&lt;b&gt;X&lt;/b&gt;')
+    expect(getFieldType('number').render(field('number', 'n', '"1"'))).to.contain('value="&quot;1&quot;"')
+    const url = renderInfo(field('url', 'site', 'https://example.com/?a="><script>'))
+    expect(url).to.contain('href="https://example.com/?a=&quot;&gt;&lt;script&gt;"')
+    expect(url).not.to.contain('<script>')
+    expect(renderInfo(field('email', 'email', '<i>a@b.c</i>'))).to.contain('mailto:&lt;i&gt;a@b.c&lt;/i&gt;')
+    expect(renderInfo(field('image', 'photo', 'data:image/png;base64,"onerror="x'))).to.contain('src="data:image/png;base64,&quot;onerror=&quot;x"')
+    expect(renderInfo(field('multi_select', 'm', ['<b>'], {options: []}))).to.contain('&lt;b&gt;')
+  })
+
+  it('Shows image only when it is set', () => {
+    const empty = getFieldType('image').render(field('image', 'photo', undefined))
+    expect(empty).to.contain('style="display: none;"')
+    expect(getFieldType('image').renderInfo(field('image', 'photo', ''))).to.equal('')
+    expect(parseFieldValue(field('image', 'photo'), [''])).to.equal(undefined)
+  })
+
+  it('Submits field type values and removes empty ones', () => {
+    const datum = {id: 'a', data: {gender: 'M', living: true, languages: ['en']}, rels: {parents: [], spouses: [], children: []}}
+    const fields = [
+      field('number', 'children', undefined, {min: 0}),
+      field('checkbox', 'living', true),
+      field('multi_select', 'languages', ['en'], {options: [{value: 'en', label: 'English'}, {value: 'fr', label: 'French'}]}),
+      field('url', 'site', undefined),
+    ]
+    const invalid = submitFormData(datum, [datum], formData([['children', '-1'], ['site', 'example.com']]), fields)
+    expect(invalid.success).to.equal(false)
+    expect(Object.keys(invalid.errors)).to.deep.equal(['children', 'site'])
+    expect(datum.data).to.deep.equal({gender: 'M', living: true, languages: ['en']})
+
+    const {success} = submitFormData(datum, [datum], formData([['children', '3'], ['languages', 'en'], ['languages', 'fr'], ['site', '']]), fields)
+    expect(success).to.equal(true)
+    expect(datum.data).to.deep.equal({gender: 'M', living: false, children: 3, languages: ['en', 'fr']})
+  })
+})
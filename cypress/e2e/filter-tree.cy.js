@@ -0,0 +1,93 @@
+import calculateTree from '../../src/layout/calculate-tree'
+import { createLinks } from '../../src/layout/create-links'
+import { cardOpacity, linkOpacity } from '../../src/renderers/view-common'
+
+function person(id, gender, name, parents = [], spouses = [], children = []) {
+  return {id, data: {gender, 'last name': name}, rels: {parents, spouses, children}}
+}
+
+// gf + gm -> f; mf -> m; f + m -> main; main + w -> ch1, ch2; ch1 + ch1w -> gc
+function createData() {
+  return [
+    person('main', 'M', 'Smith', ['f', 'm'], ['w'], ['ch1', 'ch2']),
+    person('f', 'M', 'Smith', ['gf', 'gm'], ['m'], ['main']),
+    person('m', 'F', 'Brown', ['mf'], ['f'], ['main']),
+    person('gf', 'M', 'Smith', [], ['gm'], ['f']),
+    person('gm', 'F', 'Jones', [], ['gf'], ['f']),
+    person('mf', 'M', 'Brown', [], [], ['m']),
+    person('w', 'F', 'Green', [], ['main'], ['ch1', 'ch2']),
+    person('ch1', 'M', 'Smith', ['main', 'w'], ['ch1w'], ['gc']),
+    person('ch2', 'F', 'Smith', ['main', 'w']),
+    person('ch1w', 'F', 'Jones', [], ['ch1'], ['gc']),
+    person('gc', 'F', 'Smith', ['ch1', 'ch1w']),
+  ]
+}
+
+function getIds(tree) {
+  return [...new Set(tree.data.map(d => d.data.id))].sort()
+}
+
+function getTree(filter) {
+  return calculateTree(createData(), {main_id: 'main', single_parent_empty_card: false, filter})
+}
+
+describe('Filter tree', () => {
+  it('Shows everyone without a filter', () => {
+    expect(getIds(getTree(null))).to.deep.equal(createData().map(d => d.id).sort())
+  })
+
+  it('Keeps branches that lead to matching people', () => {
+    const tree = getTree(d => d.id === 'gm')
+    // f is kept as the way to gm, the spouse of the main person is shown with the main person
+    expect(getIds(tree)).to.deep.equal(['f', 'gm', 'main', 'w'])
+  })
+
+  it('Always keeps the main person', () => {
+    expect(getIds(getTree(() => false))).to.deep.equal(['main', 'w'])
+  })
+
+  it('Keeps a descendant whose spouse matches', () => {
+    const tree = getTree(d => d.data['last name'] === 'Jones')
+    expect(getIds(tree)).to.deep.equal(['ch1', 'ch1w', 'f', 'gm', 'main', 'w'])
+    expect(tree.data.find(d => d.data.id === 'gc')).to.equal(undefined)
+  })
+
+  it('Does not keep branches for placeholder people', () => {
+    const data = createData()
+    data.find(d => d.id === 'mf').to_add = true
+    const tree = calculateTree(data, {main_id: 'main', single_parent_empty_card: false, filter: d => d.id === 'mf'})
+    expect(getIds(tree)).to.deep.equal(['main', 'w'])
+  })
+})
+
+describe('Highlight', () => {
+  const tree = getTree(null)
+  const getDatum = id => tree.data.find(d => d.data.id === id && !d.spouse)
+  const highlight = d => d.data['last name'] === 'Smith'
+
+  it('Dims cards that do not match', () => {
+    expect(cardOpacity(getDatum('f'), null)).to.equal(1)
+    expect(cardOpacity(getDatum('f'), highlight)).to.equal(1)
+    expect(cardOpacity(getDatum('m'), highlight)).to.be.below(1)
+  })
+
+  it('Dims placeholder cards and never dims new relatives', () => {
+    const to_add = {data: {...createData()[0], to_add: true}}
+    const new_rel = {data: {...createData()[2], _new_rel_data: {rel_type: 'daughter'}}}
+    expect(cardOpacity(to_add, () => true)).to.be.below(1)
+    expect(cardOpacity(new_rel, () => false)).to.equal(1)
+  })
+
+  it('Dims links unless people on both ends match', () => {
+    const main = getDatum('main')
+    const links = createLinks(main)
+    const ancestry_link = links.find(link => link.is_ancestry)
+    const child_link = links.find(link => !link.is_ancestry && !link.spouse && link.target.data.id === 'ch1')
+    expect(linkOpacity(ancestry_link, null)).to.equal(1)
+    // f matches, so the link to the parents is shown
+    expect(linkOpacity(ancestry_link, highlight)).to.equal(1)
+    expect(linkOpacity(ancestry_link, d => d.id === 'main')).to.be.below(1)
+    expect(linkOpacity(child_link, highlight)).to.equal(1)
+    expect(linkOpacity(child_link, d => d.id !== 'ch1')).to.be.below(1)
+  })
+})
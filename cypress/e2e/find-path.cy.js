@@ -0,0 +1,66 @@
+import { findPath } from '../../src/features/kinships/find-path'
+import { setParentRelationType } from '../../src/store/parent-relation'
+
+function person(id, gender, parents = [], spouses = [], children = []) {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+// f + m -> main, sib; main + w -> ch; w's brother wb; stranger s
+function createData() {
+  return [
+    person('f', 'M', ['gf'], ['m'], ['main', 'sib']),
+    person('m', 'F', [], ['f'], ['main', 'sib']),
+    person('gf', 'M', [], [], ['f']),
+    person('main', 'M', ['f', 'm'], ['w'], ['ch']),
+    person('sib', 'F', ['f', 'm']),
+    person('w', 'F', ['wf'], ['main'], ['ch']),
+    person('wf', 'M', [], [], ['w', 'wb']),
+    person('wb', 'M', ['wf']),
+    person('ch', 'M', ['main', 'w']),
+    person('s', 'F'),
+  ]
+}
+
+function getPath(data, a_id, b_id) {
+  const path = findPath(data, a_id, b_id)
+  return path && path.map(step => `${step.id}:${step.label}`)
+}
+
+describe('Find path', () => {
+  it('Returns null when people are not connected', () => {
+    expect(findPath(createData(), 'main', 's')).to.equal(null)
+    expect(findPath(createData(), 'main', 'missing')).to.equal(null)
+  })
+
+  it('Returns only the person for a path to itself', () => {
+    expect(findPath(createData(), 'main', 'main')).to.deep.equal([{id: 'main', rel_type: 'self', label: 'self'}])
+  })
+
+  it('Follows parents and children', () => {
+    expect(getPath(createData(), 'ch', 'gf')).to.deep.equal(['ch:self', 'main:father', 'f:father', 'gf:father'])
+    expect(getPath(createData(), 'gf', 'sib')).to.deep.equal(['gf:self', 'f:son', 'sib:daughter'])
+  })
+
+  it('Follows spouses', () => {
+    const path = findPath(createData(), 'sib', 'wb')
+    expect(path.map(step => step.rel_type)).to.deep.equal(['self', 'parent', 'child', 'spouse', 'parent', 'child'])
+    expect(path.map(step => step.label)).to.deep.equal(['self', 'father', 'son', 'wife', 'father', 'son'])
+  })
+
+  it('Finds the shortest path', () => {
+    const data = createData()
+    // gf is also a parent of sib, so sib is one step from gf instead of two
+    data[2].rels.children.push('sib')
+    data[4].rels.parents.push('gf')
+    expect(getPath(data, 'ch', 'sib')).to.deep.equal(['ch:self', 'main:father', 'f:father', 'sib:daughter'])
+    expect(getPath(data, 'gf', 'sib')).to.deep.equal(['gf:self', 'sib:daughter'])
+  })
+
+  it('Labels non-biological parents and skips placeholder people', () => {
+    const data = createData()
+    setParentRelationType(data[8], 'w', 'adoptive')
+    expect(getPath(data, 'wf', 'ch')).to.deep.equal(['wf:self', 'w:daughter', 'ch:adoptive son'])
+    data[5].to_add = true
+    expect(findPath(data, 'wf', 'ch')).to.equal(null)
+  })
+})
@@ -0,0 +1,81 @@
+import { serializeGedcom } from '../../src/features/gedcom/gedcom-export'
+import { parseGedcom } from '../../src/features/gedcom/gedcom-import'
+
+function createData() {
+  return [
+    {id: 'I1', data: {gender: 'M', 'first name': 'John', 'last name': 'Smith', birthday: '1850', 'marriage date__ref__p-2': '1875'}, rels: {parents: [], spouses: ['p-2'], children: ['child']}},
+    {id: 'p-2', data: {gender: 'F', 'first name': 'Mary', 'last name': 'Jones'}, rels: {parents: [], spouses: ['I1'], children: ['child']}},
+    {id: 'child', data: {gender: 'F', 'first name': 'Ann'}, rels: {parents: ['I1', 'p-2'], spouses: [], children: []}},
+  ]
+}
+
+function getXrefs(text) {
+  return text.split('\n').filter(line => line.startsWith('0 @')).map(line => line.split(' ')[1])
+}
+
+describe('GEDCOM export', () => {
+  it('Writes individuals and families', () => {
+    const text = serializeGedcom(createData())
+    expect(text).to.contain('0 @I1@ INDI\n1 NAME John /Smith/\n2 GIVN John\n2 SURN Smith\n1 SEX M\n1 BIRT\n2 DATE 1850\n1 FAMS @F1@')
+    expect(text).to.contain('0 @F1@ FAM\n1 HUSB @I1@\n1 WIFE @I2@\n1 CHIL @child@\n1 MARR\n2 DATE 1875')
+    expect(text.endsWith('0 TRLR\n')).to.equal(true)
+  })
+
+  it('Keeps valid ids as xrefs in 5.5.1', () => {
+    const data = createData()
+    data[2].id = 'child1'
+    data[0].rels.children = data[1].rels.children = ['child1']
+    expect(getXrefs(serializeGedcom(data))).to.deep.equal(['@I1@', '@I2@', '@child1@', '@F1@'])
+  })
+
+  it('Generates uppercase xrefs in 7.0', () => {
+    const text = serializeGedcom(createData(), {version: '7.0'})
+    expect(getXrefs(text)).to.deep.equal(['@I1@', '@I2@', '@I3@', '@F1@'])
+    getXrefs(text).forEach(xref => expect(xref).to.match(/^@[A-Z0-9_]+@$/))
+    expect(text).not.to.contain('1 CHAR')
+  })
+
+  it('Splits long values with CONC in 5.5.1', () => {
+    const data = createData()
+    data[0].data.birthday = 'x'.repeat(300)
+    const lines = serializeGedcom(data).split('\n')
+    lines.forEach(line => expect(line.length).to.be.at.most(255))
+    expect(lines.some(line => line.startsWith('3 CONC '))).to.equal(true)
+  })
+
+  it('Links people to every family they belong to', () => {
+    const data = createData()
+    data[0].rels.spouses.push('p-3')
+    data.push({id: 'p-3', data: {gender: 'F', 'first name': 'Eve'}, rels: {parents: [], spouses: ['I1'], children: []}})
+    data.push({id: 'half', data: {gender: 'M'}, rels: {parents: ['p-2'], spouses: [], children: []}})
+    const text = serializeGedcom(data)
+    expect(text).to.contain('0 @I1@ INDI\n1 NAME John /Smith/\n2 GIVN John\n2 SURN Smith\n1 SEX M\n1 BIRT\n2 DATE 1850\n1 FAMS @F1@\n1 FAMS @F2@')
+    expect(text).to.contain('0 @F2@ FAM\n1 HUSB @I1@\n1 WIFE @I3@\n0')
+    expect(text).to.contain('1 CHIL @half@\n0 TRLR')
+    expect(text).to.contain('0 @I2@ INDI\n1 NAME Mary /Jones/\n2 GIVN Mary\n2 SURN Jones\n1 SEX F\n1 FAMS @F1@\n1 FAMS @F3@')
+  })
+
+  it('Round-trips through import', () => {
+    const {data, issues} = parseGedcom(serializeGedcom(createData(), {version: '7.0'}))
+    expect(issues).to.deep.equal([])
+    expect(data.map(d => d.data['first name'])).to.deep.equal(['John', 'Mary', 'Ann'])
+    expect(data[2].rels.parents).to.deep.equal(['I1', 'I2'])
+    expect(data[0].data['marriage date__ref__I2']).to.equal('1875')
+  })
+
+  it('Round-trips union type and dates', () => {
+    const data = createData()
+    data[0].rels.spouse_meta = {'p-2': {type: 'divorced', date: '1875', end_date: '1890'}}
+    data[1].rels.spouse_meta = {I1: {type: 'divorced', date: '1875', end_date: '1890'}}
+    const text = serializeGedcom(data)
+    expect(text).to.contain('1 CHIL @child@\n1 MARR\n2 DATE 1875\n1 DIV\n2 DATE 1890\n')
+    expect(parseGedcom(text).data[0].rels.spouse_meta).to.deep.equal({I2: {type: 'divorced', date: '1875', end_date: '1890'}})
+
+    data[0].rels.spouse_meta = {'p-2': {type: 'partner', date: '1880'}}
+    delete data[1].rels.spouse_meta
+    delete data[0].data['marriage date__ref__p-2']
+    const partner_text = serializeGedcom(data)
+    expect(partner_text).to.contain('1 CHIL @child@\n1 EVEN\n2 TYPE Partner\n2 DATE 1880\n')
+    expect(parseGedcom(partner_text).data[1].rels.spouse_meta).to.deep.equal({I1: {type: 'partner', date: '1880'}})
+  })
+})
@@ -0,0 +1,103 @@
+import { parseGedcom, parseGedcomLines } from '../../src/features/gedcom/gedcom-import'
+
+const gedcom = [
+  '0 HEAD',
+  '1 GEDC',
+  '2 VERS 5.5.1',
+  '0 @I1@ INDI',
+  '1 NAME John /Smith/',
+  '1 SEX M',
+  '1 BIRT',
+  '2 DATE 1850',
+  '2 PLAC London',
+  '1 FAMS @F1@',
+  '0 @I2@ INDI',
+  '1 NAME Mary /Jones/',
+  '1 SEX F',
+  '1 FAMS @F1@',
+  '0 @I3@ INDI',
+  '1 NAME Ann /Smith/',
+  '1 SEX F',
+  '1 FAMC @F1@',
+  '0 @F1@ FAM',
+  '1 HUSB @I1@',
+  '1 WIFE @I2@',
+  '1 CHIL @I3@',
+  '1 MARR',
+  '2 DATE 1875',
+  '0 TRLR',
+].join('\n')
+
+describe('GEDCOM import', () => {
+  it('Creates datums with mapped fields', () => {
+    const {data, issues, version} = parseGedcom(gedcom)
+    expect(version).to.equal('5.5.1')
+    expect(issues).to.deep.equal([])
+    expect(data.map(d => d.id)).to.deep.equal(['I1', 'I2', 'I3'])
+    const john = data[0]
+    expect(john.data).to.deep.include({gender: 'M', 'first name': 'John', 'last name': 'Smith', birthday: '1850', birthplace: 'London'})
+  })
+
+  it('Sets up rels from families', () => {
+    const {data} = parseGedcom(gedcom)
+    const [john, mary, ann] = data
+    expect(john.rels.spouses).to.deep.equal(['I2'])
+    expect(mary.rels.spouses).to.deep.equal(['I1'])
+    expect(john.rels.children).to.deep.equal(['I3'])
+    expect(ann.rels.parents).to.deep.equal(['I1', 'I2'])
+    expect(john.data['marriage date__ref__I2']).to.equal('1875')
+    expect(mary.data['marriage date__ref__I1']).to.equal('1875')
+  })
+
+  it('Sets up unions from family events', () => {
+    const text = gedcom.replace('2 DATE 1875', '2 DATE 1875\n1 DIV\n2 DATE 1890')
+    const {data, issues} = parseGedcom(text)
+    expect(issues).to.deep.equal([])
+    expect(data[0].rels.spouse_meta).to.deep.equal({I2: {type: 'divorced', date: '1875', end_date: '1890'}})
+    expect(data[1].rels.spouse_meta).to.deep.equal({I1: {type: 'divorced', date: '1875', end_date: '1890'}})
+
+    const partners = parseGedcom(gedcom.replace('1 MARR\n2 DATE 1875', '1 EVEN\n2 TYPE Partner\n2 DATE 1880\n2 PLAC Paris'))
+    expect(partners.data[0].rels.spouse_meta).to.deep.equal({I2: {type: 'partner', date: '1880'}})
+    expect(partners.issues.map(issue => issue.path)).to.deep.equal(['FAM.EVEN.PLAC'])
+  })
+
+  it('Merges CONT and CONC lines', () => {
+    const records = parseGedcomLines('0 @N1@ NOTE first\n1 CONC  part\n1 CONT second')
+    expect(records[0].value).to.equal('first part\nsecond')
+  })
+
+  it('Reports records without xref as invalid lines', () => {
+    const text = gedcom.replace('0 TRLR', '0 FAM\n1 HUSB @I1@\n0 INDI\n1 NAME No /Xref/\n0 TRLR')
+    const {data, issues} = parseGedcom(text)
+    expect(data).to.have.length(3)
+    expect(issues.filter(issue => issue.type === 'invalid_line').map(issue => issue.tag)).to.deep.equal(['INDI', 'FAM'])
+  })
+
+  it('Reports broken references', () => {
+    const text = gedcom.replace('1 CHIL @I3@', '1 CHIL @I9@').replace('1 FAMC @F1@', '1 FAMC @F9@')
+    const {data, issues} = parseGedcom(text)
+    expect(data[2].rels.parents).to.deep.equal([])
+    expect(issues.filter(issue => issue.type === 'broken_reference').map(issue => issue.value)).to.deep.equal(['@F9@', '@I9@'])
+  })
+
+  it('Reports lines that can not be parsed', () => {
+    const {data, issues} = parseGedcom('0 @I1@ INDI\nnot a gedcom line\n2 NAME Skipped /Level/\n1 SEX F')
+    expect(data).to.have.length(1)
+    expect(data[0].data.gender).to.equal('F')
+    expect(issues.filter(issue => issue.type === 'invalid_line').map(issue => issue.line)).to.deep.equal([2, 3])
+  })
+
+  it('Reports unmapped tags', () => {
+    const {issues} = parseGedcom('0 @I1@ INDI\n1 SEX M\n1 OCCU Farmer')
+    expect(issues).to.deep.equal([{type: 'unmapped_tag', line: 3, record_id: 'I1', tag: 'OCCU', path: 'INDI.OCCU'}])
+  })
+
+  it('Reports missing and invalid SEX values', () => {
+    const {data, issues} = parseGedcom('0 @I1@ INDI\n1 NAME No /Sex/\n0 @I2@ INDI\n1 SEX Z')
+    expect(data.map(d => d.data.gender)).to.deep.equal(['U', 'U'])
+    expect(issues).to.deep.equal([
+      {type: 'missing_value', line: 1, record_id: 'I1', tag: 'SEX', path: 'INDI.SEX'},
+      {type: 'invalid_value', line: 4, record_id: 'I2', tag: 'SEX', path: 'INDI.SEX', value: 'Z'}
+    ])
+  })
+})
@@ -0,0 +1,136 @@
+import createStore from '../../src/store/store'
+import { createHistory, createDiff, applyDiff, describeChange } from '../../src/features/history'
+
+function person(id, name, rels = {}) {
+  return {id, data: {gender: 'M', 'first name': name}, rels: {parents: [], spouses: [], children: [], ...rels}}
+}
+
+function setup(options = {}) {
+  const store = createStore({data: [person('a', 'Adam')], main_id: 'a'})
+  const getCopy = () => JSON.parse(JSON.stringify(store.getData()))
+  const history = createHistory(store, getCopy, () => {}, options)
+  const rename = name => {
+    const data = getCopy()
+    data[0].data['first name'] = name
+    store.updateData(data)
+    history.changed()
+  }
+  const getName = () => store.getData()[0].data['first name']
+  return {store, history, rename, getName}
+}
+
+describe('History', () => {
+  it('Moves back and forward', () => {
+    const {history, rename, getName} = setup()
+    history.changed()
+    rename('B')
+    rename('C')
+    history.back()
+    expect(getName()).to.equal('B')
+    history.back()
+    expect(getName()).to.equal('Adam')
+    expect(history.canBack()).to.equal(false)
+    history.forward()
+    history.forward()
+    expect(getName()).to.equal('C')
+    expect(history.getEntries().map(entry => entry.label)).to.deep.equal(['Initial state', 'Edited B', 'Edited C'])
+  })
+
+  it('Drops undone entries on a new change', () => {
+    const {history, rename} = setup()
+    history.changed()
+    rename('B')
+    rename('C')
+    history.back()
+    rename('D')
+    expect(history.getEntries().map(entry => entry.label)).to.deep.equal(['Initial state', 'Edited B', 'Edited D'])
+    expect(history.canForward()).to.equal(false)
+  })
+
+  it('Restores states across keyframes', () => {
+    const {history, rename, getName} = setup({keyframe_interval: 3})
+    history.changed()
+    for (let i = 1; i <= 8; i++) rename(`N${i}`)
+    history.goTo(4)
+    expect(getName()).to.equal('N4')
+    history.goTo(8)
+    expect(getName()).to.equal('N8')
+  })
+
+  it('Trims oldest entries to max depth', () => {
+    const {history, rename, getName} = setup({max_depth: 3, keyframe_interval: 2})
+    history.changed()
+    for (let i = 1; i <= 5; i++) rename(`N${i}`)
+    expect(history.getEntries().map(entry => entry.label)).to.deep.equal(['Edited N3', 'Edited N4', 'Edited N5'])
+    history.goTo(0)
+    expect(getName()).to.equal('N3')
+  })
+
+  it('Keeps the current entry when max depth is set after undo', () => {
+    const {history, rename, getName} = setup()
+    history.changed()
+    for (let i = 1; i <= 4; i++) rename(`N${i}`)
+    history.goTo(1)
+    history.setMaxDepth(2)
+    expect(history.getIndex()).to.equal(0)
+    expect(history.getEntries().map(entry => entry.label)).to.deep.equal(['Edited N1', 'Edited N2'])
+    rename('X')
+    history.back()
+    expect(getName()).to.equal('N1')
+    history.forward()
+    expect(getName()).to.equal('X')
+  })
+
+  it('Loads history from storage', () => {
+    const first = setup()
+    let saved = null
+    const storage = {load: () => saved, save: state => {saved = JSON.parse(JSON.stringify(state))}}
+    return first.history.setStorage(storage).then(() => {
+      first.history.changed()
+      first.rename('B')
+      const second = setup()
+      return second.history.setStorage(storage).then(() => {
+        expect(second.getName()).to.equal('B')
+        expect(second.history.getEntries()).to.have.length(2)
+        second.history.back()
+        expect(second.getName()).to.equal('Adam')
+      })
+    })
+  })
+
+  it('Ignores invalid history in storage', () => {
+    const invalid_states = [
+      {entries: [{label: 'x', time: 1, main_id: 'a'}], index: 0},
+      {entries: [{label: 'x', time: 1, main_id: 'a', snapshot: []}, {label: 'y', time: 2, main_id: 'a'}], index: 1},
+      {entries: [{label: 'x', time: 1, main_id: 'a', snapshot: []}], index: 3},
+      {entries: 'x', index: 0},
+    ]
+    const {history, getName} = setup()
+    history.changed()
+    return invalid_states.reduce((promise, state) => promise.then(() => {
+      let saved = null
+      return history.setStorage({load: () => state, save: s => {saved = s}}).then(() => {
+        expect(getName()).to.equal('Adam')
+        expect(saved.entries).to.have.length(1)
+      })
+    }), Promise.resolve())
+  })
+})
+
+describe('History diff', () => {
+  it('Applies diff to previous data', () => {
+    const prev = [person('a', 'A'), person('b', 'B'), person('c', 'C')]
+    const next = [person('c', 'C'), person('a', 'A2'), person('d', 'D')]
+    const diff = createDiff(prev, next)
+    expect(diff.changed.map(d => d.id)).to.deep.equal(['a', 'd'])
+    expect(diff.removed).to.deep.equal(['b'])
+    expect(applyDiff(prev, diff)).to.deep.equal(next)
+  })
+
+  it('Describes changes', () => {
+    const prev = [person('a', 'Mary')]
+    const next = [person('a', 'Mary', {children: ['b']}), person('b', 'John', {parents: ['a']})]
+    expect(describeChange(prev, next)).to.equal('Added child John to Mary')
+    expect(describeChange(next, prev)).to.equal('Deleted John')
+  })
+})
@@ -0,0 +1,41 @@
+import { calculateKinships } from '../../src/features/kinships/calculate-kinships'
+import { getKinshipsDataStash } from '../../src/features/kinships/kinships-data'
+
+function person(id, gender, parents = [], spouses = [], children = []) {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+// p1 + p2 -> main, sib; main + sp -> ch; sib -> nib
+function createData(gender) {
+  return [
+    person('p1', gender, [], ['p2'], ['main', 'sib']),
+    person('p2', 'F', [], ['p1'], ['main', 'sib']),
+    person('main', 'M', ['p1', 'p2'], ['sp'], ['ch']),
+    person('sib', gender, ['p1', 'p2'], [], ['nib']),
+    person('sp', gender, [], ['main'], ['ch']),
+    person('ch', gender, ['main', 'sp']),
+    person('nib', gender, ['sib']),
+  ]
+}
+
+describe('Kinships', () => {
+  it('Uses gendered labels', () => {
+    const kinships = calculateKinships('main', createData('M'), {})
+    expect(kinships).to.deep.include({p1: 'father', p2: 'mother', sib: 'brother', sp: 'spouse', ch: 'son', nib: 'nephew'})
+  })
+
+  it('Uses neutral labels for unknown gender', () => {
+    const kinships = calculateKinships('main', createData('U'), {})
+    expect(kinships).to.deep.include({p1: 'parent', p2: 'mother', sib: 'sibling', sp: 'spouse', ch: 'child', nib: 'niece/nephew'})
+  })
+
+  it('Uses neutral in-law labels for unknown gender', () => {
+    const data = createData('U')
+    data.push(person('sp_p', 'U', [], [], ['sp', 'sp_sib']), person('sp_sib', 'U', ['sp_p']))
+    data[4].rels.parents.push('sp_p')
+    const kinships = calculateKinships('main', data, {show_in_law: true})
+    expect(kinships).to.deep.include({sp_sib: 'sibling-in-law'})
+    const kinship_data = getKinshipsDataStash('main', 'sp_sib', data, kinships)
+    expect(kinship_data.map(d => d.id)).to.include.members(['main', 'sp', 'sp_sib'])
+  })
+})
@@ -0,0 +1,115 @@
+import { mergePersons, getMergeConflicts } from '../../src/store/merge'
+import { findLikelyDuplicates } from '../../src/store/find-duplicates'
+
+function person(id, data, rels = {}) {
+  return {id, data: {gender: 'M', ...data}, rels: {parents: [], spouses: [], children: [], ...rels}}
+}
+
+function createData() {
+  return [
+    person('f', {'first name': 'John'}, {children: ['a']}),
+    person('a', {'first name': 'Tom', 'last name': 'Smith', birthday: '1850'}, {parents: ['f'], spouses: ['w']}),
+    person('w', {'first name': 'Mary', gender: 'F', 'marriage date__ref__b': '1875'}, {spouses: ['a', 'b'], children: ['c']}),
+    person('b', {'first name': 'Thomas', 'last name': 'Smith', death: '1900'}, {spouses: ['w'], children: ['c']}),
+    person('c', {'first name': 'Ann', gender: 'F'}, {parents: ['w', 'b']}),
+  ]
+}
+
+describe('Merge', () => {
+  it('Lists conflicting fields', () => {
+    const [, a, , b] = createData()
+    expect(getMergeConflicts(a, b)).to.deep.equal([{key: 'first name', values: ['Tom', 'Thomas']}])
+  })
+
+  it('Fills empty fields and keeps conflicts for review', () => {
+    const data = createData()
+    const {datum, conflicts} = mergePersons(data, 'a', 'b')
+    expect(datum.data).to.deep.include({'first name': 'Tom', birthday: '1850', death: '1900'})
+    expect(conflicts).to.deep.equal([{key: 'first name', values: ['Tom', 'Thomas']}])
+    expect(datum.merge_conflicts).to.deep.equal({'first name': ['Thomas']})
+    expect(data.map(d => d.id)).to.deep.equal(['f', 'a', 'w', 'c'])
+  })
+
+  it('Uses chosen values', () => {
+    const {datum, conflicts} = mergePersons(createData(), 'a', 'b', {'first name': 'Thomas', birthday: undefined})
+    expect(conflicts).to.deep.equal([])
+    expect(datum.data['first name']).to.equal('Thomas')
+    expect(datum.data).not.to.have.property('birthday')
+  })
+
+  it('Moves relatives and references to the kept person', () => {
+    const data = createData()
+    mergePersons(data, 'a', 'b')
+    const [f, a, w, c] = data
+    expect(a.rels).to.deep.include({parents: ['f'], spouses: ['w'], children: ['c']})
+    expect(f.rels.children).to.deep.equal(['a'])
+    expect(w.rels.spouses).to.deep.equal(['a'])
+    expect(c.rels.parents).to.deep.equal(['w', 'a'])
+    expect(w.data).to.deep.include({'marriage date__ref__a': '1875'})
+    expect(w.data).not.to.have.property('marriage date__ref__b')
+  })
+
+  it('Unlinks a third parent', () => {
+    const data = [
+      person('p1', {}, {children: ['a']}),
+      person('p2', {gender: 'F'}, {children: ['a']}),
+      person('p3', {}, {children: ['b']}),
+      person('a', {}, {parents: ['p1', 'p2']}),
+      person('b', {}, {parents: ['p3']}),
+    ]
+    mergePersons(data, 'a', 'b')
+    expect(data.find(d => d.id === 'a').rels.parents).to.deep.equal(['p1', 'p2'])
+    expect(data.find(d => d.id === 'p3').rels.children).to.deep.equal([])
+  })
+
+  it('Refuses to merge a person with itself', () => {
+    expect(() => mergePersons(createData(), 'a', 'a')).to.throw('Can not merge person with itself')
+  })
+})
+
+describe('Find duplicates', () => {
+  it('Finds people with similar names and dates', () => {
+    const data = [
+      person('a', {'first name': 'John', 'last name': 'Smith', birthday: '1850'}),
+      person('b', {'first name': 'Jon', 'last name': 'Smyth', birthday: 'abt 1851'}),
+      person('c', {'first name': 'Peter', 'last name': 'Brown', birthday: '1850'}),
+      person('d', {'first name': 'John', 'last name': 'Smith', birthday: '1850', gender: 'F'}),
+    ]
+    const candidates = findLikelyDuplicates(data)
+    expect(candidates.map(c => [c.a_id, c.b_id])).to.deep.equal([['a', 'b']])
+    expect(candidates[0].fields).to.have.all.keys('first name', 'last name', 'birthday')
+  })
+
+  it('Skips people who are related', () => {
+    const data = [
+      person('a', {'first name': 'John', 'last name': 'Smith'}, {children: ['b']}),
+      person('b', {'first name': 'John', 'last name': 'Smith'}, {parents: ['a']}),
+    ]
+    expect(findLikelyDuplicates(data)).to.deep.equal([])
+  })
+
+  it('Compares people only within blocks of last name and birth decade', () => {
+    const data = [
+      person('a', {'first name': 'John', 'last name': 'Smith', birthday: '1849'}),
+      person('b', {'first name': 'John', 'last name': 'Smyth', birthday: '1851'}),
+      person('c', {'first name': 'John', 'last name': 'Smith', birthday: '1890'}),
+      person('d', {'first name': 'John', 'last name': 'Smith'}),
+      person('e', {'first name': 'John', 'last name': 'Xmith', birthday: '1850'}),
+      person('f', {'first name': 'John'}),
+    ]
+    const pairs = findLikelyDuplicates(data, {threshold: 0}).map(c => `${c.a_id}-${c.b_id}`)
+    expect(pairs.sort()).to.deep.equal(['a-b', 'a-d', 'b-d', 'c-d'])
+    const all_pairs = findLikelyDuplicates(data, {threshold: 0, block_fields: []}).map(c => `${c.a_id}-${c.b_id}`)
+    expect(all_pairs).to.include.members(['a-c', 'a-e', 'a-f'])
+    expect(all_pairs).to.have.length(15)
+  })
+
+  it('Handles large data', () => {
+    const last_names = ['Smith', 'Brown', 'Jones', 'Taylor', 'Wilson', 'Davies', 'Evans', 'Thomas', 'Roberts', 'Walker']
+    const data = []
+    for (let i = 0; i < 5000; i++) data.push(person(`p${i}`, {'first name': `Name${i}`, 'last name': last_names[i % 10], birthday: `${1700 + i % 300}`}))
+    const start = Date.now()
+    findLikelyDuplicates(data)
+    expect(Date.now() - start).to.be.below(1000)
+  })
+})
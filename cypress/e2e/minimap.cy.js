@@ -0,0 +1,66 @@
+import * as d3 from 'd3'
+import createMinimap from '../../src/features/minimap'
+import { setupZoom } from '../../src/handlers/view-handlers'
+
+function createSvg() {
+  const canvas = document.createElement('div')
+  canvas.id = 'f3Canvas'
+  canvas.innerHTML = '<svg class="main_svg"><g class="view"></g></svg>'
+  document.body.appendChild(canvas)
+  const svg = canvas.querySelector('svg')
+  svg.getBoundingClientRect = () => ({x: 0, y: 0, top: 0, left: 0, width: 800, height: 600})
+  setupZoom(svg)
+  return svg
+}
+
+function node(id, x, y, main = false) {
+  return {tid: id, x, y, depth: 0, data: {id, main, data: {gender: 'M'}, rels: {parents: [], spouses: [], children: []}}}
+}
+
+// tree coordinates from -200 to 200 and -150 to 150, main person in the middle
+function createTree() {
+  return {
+    data: [node('main', 0, 0, true), node('parent', 100, -150)],
+    dim: {width: 400, height: 300, x_off: 200, y_off: 150},
+    node_separation: 250,
+  }
+}
+
+function rectAttrs(rect) {
+  return ['x', 'y', 'width', 'height'].map(attr => +rect.getAttribute(attr))
+}
+
+describe('Minimap', () => {
+  it('Fits the tree in the minimap and places the main person', () => {
+    const svg = createSvg()
+    const minimap = createMinimap(svg, {width: 200, height: 150})
+    minimap.update(createTree())
+    // scale is min((200 - 12) / 400, (150 - 12) / 300) = 0.46, the tree is centered, so tree 0, 0 is at 100, 75
+    const main = minimap.cont.querySelector('.f3-minimap-node-main')
+    const [x, y, width, height] = rectAttrs(main)
+    expect(width).to.equal(6)
+    expect(x + width / 2).to.be.closeTo(100, 0.001)
+    expect(y + height / 2).to.be.closeTo(75, 0.001)
+    const [parent_x, parent_y] = rectAttrs(minimap.cont.querySelectorAll('.f3-minimap-node')[1])
+    expect(parent_x + 3).to.be.closeTo(100 + 100 * 0.46, 0.001)
+    expect(parent_y + 3).to.be.closeTo(75 - 150 * 0.46, 0.001)
+    minimap.destroy()
+    svg.parentNode.remove()
+  })
+
+  it('Places the viewport rectangle from the chart transform', () => {
+    const svg = createSvg()
+    const minimap = createMinimap(svg, {width: 200, height: 150})
+    minimap.update(createTree())
+    d3.select(svg).call(svg.__zoomObj.transform, d3.zoomIdentity.translate(100, 50).scale(2))
+    // visible tree part is -50..350 by -25..275
+    const viewport = minimap.cont.querySelector('.f3-minimap-viewport')
+    const [x, y, width, height] = rectAttrs(viewport)
+    expect(x).to.be.closeTo(100 - 50 * 0.46, 0.001)
+    expect(y).to.be.closeTo(75 - 25 * 0.46, 0.001)
+    expect(width).to.be.closeTo(400 * 0.46, 0.001)
+    expect(height).to.be.closeTo(300 * 0.46, 0.001)
+    minimap.destroy()
+    svg.parentNode.remove()
+  })
+})
@@ -0,0 +1,87 @@
+import { getParentRelationType, setParentRelationType, isBiologicalParent, onDeleteRemoveParentRelations } from '../../src/store/parent-relation'
+import { calculateKinships } from '../../src/features/kinships/calculate-kinships'
+import { createLinks } from '../../src/layout/create-links'
+import calculateTree from '../../src/layout/calculate-tree'
+import { deletePerson } from '../../src/store/edit'
+
+function person(id, gender, parents = [], spouses = [], children = []) {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+// sf + m -> main, sib; sf -> ssib; main + ap -> ad; main -> fo
+function createData() {
+  const data = [
+    person('m', 'F', [], ['sf'], ['main', 'sib']),
+    person('sf', 'M', [], ['m'], ['main', 'sib', 'ssib']),
+    person('main', 'M', ['sf', 'm'], ['ap'], ['ad', 'fo']),
+    person('sib', 'M', ['sf', 'm']),
+    person('ssib', 'F', ['sf']),
+    person('ad', 'F', ['main', 'ap']),
+    person('fo', 'M', ['main']),
+    person('ap', 'F', [], ['main'], ['ad']),
+  ]
+  setParentRelationType(data[2], 'sf', 'step')
+  setParentRelationType(data[5], 'main', 'adoptive')
+  setParentRelationType(data[5], 'ap', 'adoptive')
+  setParentRelationType(data[6], 'main', 'foster')
+  return data
+}
+
+describe('Parent relation', () => {
+  it('Defaults to biological and stores other types', () => {
+    const main = createData()[2]
+    expect(getParentRelationType(main, 'm')).to.equal('biological')
+    expect(isBiologicalParent(main, 'm')).to.equal(true)
+    expect(getParentRelationType(main, 'sf')).to.equal('step')
+    expect(isBiologicalParent(main, 'sf')).to.equal(false)
+    expect(main.rels.parent_meta).to.deep.equal({sf: {type: 'step'}})
+  })
+
+  it('Removes parent_meta when set back to biological', () => {
+    const main = createData()[2]
+    setParentRelationType(main, 'sf', 'biological')
+    expect(main.rels.parent_meta).to.equal(undefined)
+  })
+
+  it('Ignores people that are not parents', () => {
+    const main = createData()[2]
+    const console_error = console.error
+    console.error = () => {}
+    setParentRelationType(main, 'ad', 'adoptive')
+    console.error = console_error
+    expect(main.rels.parent_meta).to.deep.equal({sf: {type: 'step'}})
+  })
+
+  it('Labels kinships by parent relation type', () => {
+    const kinships = calculateKinships('main', createData(), {})
+    expect(kinships).to.deep.include({m: 'mother', sf: 'step-father', sib: 'brother', ssib: 'step-sister', ad: 'adoptive daughter', fo: 'foster son'})
+  })
+
+  it('Sets parent_type on links to non-biological parents', () => {
+    const tree = calculateTree(createData(), {main_id: 'main', show_siblings_of_main: true})
+    const main = tree.data.find(d => d.data.id === 'main' && !d.spouse)
+    const links = createLinks(main)
+    const ancestry_link = links.find(link => link.is_ancestry)
+    expect(ancestry_link.parent_type).to.equal('step')
+    const child_links = links.filter(link => !link.is_ancestry && !link.spouse)
+    expect(child_links.map(link => [link.target.data.id, link.parent_type])).to.deep.equal([['ad', 'adoptive'], ['fo', 'foster']])
+    const sib = tree.data.find(d => d.data.id === 'ssib')
+    expect(createLinks(sib).find(link => link.is_ancestry).parent_type).to.equal(undefined)
+  })
+
+  it('Removes parent relations of children when parent is deleted', () => {
+    const data = createData()
+    onDeleteRemoveParentRelations(data[2], data)
+    expect(data[5].rels.parent_meta).to.deep.equal({ap: {type: 'adoptive'}})
+    expect(data[6].rels.parent_meta).to.equal(undefined)
+    expect(data[2].rels.parent_meta).to.deep.equal({sf: {type: 'step'}})
+  })
+
+  it('Cleans up parent_meta when deleting a person', () => {
+    const data = createData()
+    deletePerson(data.find(d => d.id === 'ap'), data)
+    const ad = data.find(d => d.id === 'ad')
+    expect(ad.rels.parents).to.deep.equal(['main'])
+    expect(ad.rels.parent_meta).to.deep.equal({main: {type: 'adoptive'}})
+  })
+})
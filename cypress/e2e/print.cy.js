@@ -0,0 +1,57 @@
+import { calculatePrintLayout } from '../../src/features/print'
+
+const MM_TO_PX = 96 / 25.4
+
+function createTree(width, height) {
+  return {dim: {width, height, x_off: 0, y_off: 0}}
+}
+
+describe('Print layout', () => {
+  it('Fits small tree on one page', () => {
+    const layout = calculatePrintLayout(createTree(300, 200))
+    expect(layout.tiles).to.have.length(1)
+    expect(layout.tiles[0].neighbours).to.deep.equal({top: undefined, right: undefined, bottom: undefined, left: undefined})
+    expect([layout.paper_width, layout.paper_height]).to.deep.equal([210, 297])
+  })
+
+  it('Splits tree into overlapping tiles', () => {
+    const tile_width = 190 * MM_TO_PX
+    const tile_height = 277 * MM_TO_PX
+    const layout = calculatePrintLayout(createTree(tile_width*2, tile_height*1.5))
+    expect([layout.rows, layout.cols]).to.deep.equal([2, 3])
+    expect(layout.tiles.map(tile => tile.page)).to.deep.equal([1, 2, 3, 4, 5, 6])
+    const [first, second, , fourth] = layout.tiles
+    expect(first.width).to.be.closeTo(tile_width, 0.001)
+    expect(first.height).to.be.closeTo(tile_height, 0.001)
+    expect(second.x).to.be.closeTo(tile_width - 40, 0.001)
+    expect(fourth.y).to.be.closeTo(tile_height - 40, 0.001)
+    expect(first.x + first.width - second.x).to.be.closeTo(layout.overlap, 0.001)
+  })
+
+  it('Covers the whole tree', () => {
+    const layout = calculatePrintLayout(createTree(3000, 2500), {paper: 'A5', orientation: 'landscape', scale: 0.5, overlap: 60, margin: 5})
+    expect([layout.paper_width, layout.paper_height]).to.deep.equal([210, 148])
+    const last = layout.tiles[layout.tiles.length - 1]
+    expect(last.x + last.width).to.be.at.least(3000)
+    expect(last.y + last.height).to.be.at.least(2500)
+    expect(layout.tiles[0].width).to.be.closeTo(200 * MM_TO_PX / 0.5, 0.001)
+    expect(layout.overlap).to.equal(60)
+  })
+
+  it('Sets page numbers of neighbouring pages', () => {
+    const layout = calculatePrintLayout(createTree(2000, 2500))
+    expect([layout.rows, layout.cols]).to.deep.equal([3, 3])
+    expect(layout.tiles[4].neighbours).to.deep.equal({top: 2, right: 6, bottom: 8, left: 4})
+    expect(layout.tiles[0].neighbours).to.deep.equal({top: undefined, right: 2, bottom: 4, left: undefined})
+    expect(layout.tiles[8].neighbours).to.deep.equal({top: 6, right: undefined, bottom: undefined, left: 8})
+  })
+
+  it('Limits overlap to half of the tile', () => {
+    const layout = calculatePrintLayout(createTree(2000, 2000), {overlap: 5000})
+    expect(layout.overlap).to.be.closeTo(190 * MM_TO_PX / 2, 0.001)
+  })
+
+  it('Throws on unknown paper size', () => {
+    expect(() => calculatePrintLayout(createTree(100, 100), {paper: 'B5'})).to.throw('unknown paper size B5')
+  })
+})
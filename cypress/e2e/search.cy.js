@@ -0,0 +1,86 @@
+import createSearchIndex from '../../src/store/search-index'
+import createStore from '../../src/store/store'
+
+function person(id, data) {
+  return {id, data: {gender: 'M', ...data}, rels: {parents: [], spouses: [], children: []}}
+}
+
+function createData() {
+  return [
+    person('a', {'first name': 'John', 'last name': 'Smith', birthday: '1850', death: 'Dec 1900', place: 'New York'}),
+    person('b', {'first name': 'Jonathan', 'last name': 'Smyth', birthday: 'bef 1850', death: '1901'}),
+    person('c', {'first name': 'Mary', 'last name': 'Jones', birthday: 'abt 1870', age: 40}),
+    {...person('d', {'first name': 'John'}), to_add: true},
+  ]
+}
+
+function search(query, options) {
+  return createSearchIndex(createData(), options).search(query).map(result => result.id)
+}
+
+describe('Search', () => {
+  it('Matches names by prefix and small typos, ignoring case and accents', () => {
+    expect(search('john')).to.deep.equal(['a'])
+    expect(search('jonat')).to.deep.equal(['b'])
+    expect(search('JÖHN smith')).to.deep.equal(['a'])
+    expect(search('smiht')).to.deep.equal(['a'])
+    expect(search('nobody')).to.deep.equal([])
+    expect(search('')).to.deep.equal([])
+  })
+
+  it('Filters by field with aliases and quotes', () => {
+    expect(search('surname:jones')).to.deep.equal(['c'])
+    expect(search('first:jon')).to.deep.equal(['b', 'a'])
+    expect(search('place:"new york"')).to.deep.equal(['a'])
+    expect(search('place:"new jersey"')).to.deep.equal([])
+  })
+
+  it('Treats date ranges as including start and not end', () => {
+    expect(search('born:1850')).to.deep.equal(['a'])
+    expect(search('born:1849')).to.deep.equal(['b'])
+    expect(search('born:..1850')).to.deep.equal(['a', 'b'])
+    expect(search('born:1851..')).to.deep.equal(['c'])
+    expect(search('born:1868..1872')).to.deep.equal(['c'])
+  })
+
+  it('Includes the whole year of the upper bound', () => {
+    expect(search('died:..1900')).to.deep.equal(['a'])
+    expect(search('died:1901..')).to.deep.equal(['b'])
+    expect(search('died:1900..1901')).to.deep.equal(['a', 'b'])
+  })
+
+  it('Compares numbers as exact values', () => {
+    expect(search('age:40..50')).to.deep.equal(['c'])
+    expect(search('age:30..40')).to.deep.equal(['c'])
+    expect(search('age:41..')).to.deep.equal([])
+  })
+
+  it('Ranks the best match first and uses field weights', () => {
+    const results = createSearchIndex(createData()).search('smith')
+    expect(results.map(r => r.id)).to.deep.equal(['a', 'b'])
+    expect(results[0].score).to.be.above(results[1].score)
+    expect(results[0].fields).to.deep.equal(['last name'])
+    expect(search('john', {fields: ['last name']})).to.deep.equal([])
+  })
+
+  it('Indexes and checks store data again only when it changed', () => {
+    const data = createData().slice(0, 3)
+    data[0].rels.children = ['c']
+    data[2].rels.parents = ['a']
+    const store = createStore({data, main_id: 'a', consistency_check: true, single_parent_empty_card: false})
+    store.updateTree({})
+    const issues = store.state.consistency_issues
+    expect(store.search('mary').map(result => result.id)).to.deep.equal(['c'])
+    store.updateMainId('b')
+    store.updateTree({})
+    expect(store.state.consistency_issues).to.equal(issues)
+
+    data[2].data['first name'] = 'Anna'
+    data[2].data.birthday = '1840'
+    store.updateTree({})
+    expect(store.state.consistency_issues).not.to.equal(issues)
+    expect(store.state.consistency_issues.map(issue => issue.rule)).to.deep.equal(['child_before_parent'])
+    expect(store.search('mary')).to.deep.equal([])
+    expect(store.search('anna').map(result => result.id)).to.deep.equal(['c'])
+  })
+})
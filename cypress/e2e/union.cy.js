@@ -0,0 +1,85 @@
+import { getUnion, setUnion, removeUnion, getUnionFormKey, sortSpousesByUnionDate, UNION_TYPES } from '../../src/store/union'
+import { submitFormData } from '../../src/store/edit'
+import { getHtmlNew } from '../../src/renderers/create-form-html'
+
+function createData() {
+  return [
+    {id: 'a', data: {gender: 'M'}, rels: {parents: [], spouses: ['b', 'c'], children: []}},
+    {id: 'b', data: {gender: 'F'}, rels: {parents: [], spouses: ['a'], children: []}},
+    {id: 'c', data: {gender: 'F'}, rels: {parents: [], spouses: ['a'], children: []}},
+  ]
+}
+
+function unionField(id, rel_id) {
+  return {id: `${id}__${rel_id}`, type: 'union', label: 'Union', rel_id, rel_label: rel_id, initial_value: {}, type_options: []}
+}
+
+describe('Union', () => {
+  it('Sets union on both spouses without empty values', () => {
+    const [a, b] = createData()
+    setUnion(a, b, {type: 'married', date: '1990', end_date: ''})
+    expect(getUnion(a, 'b')).to.deep.equal({type: 'married', date: '1990'})
+    expect(getUnion(b, 'a')).to.deep.equal({type: 'married', date: '1990'})
+    expect(getUnion(a, 'b')).not.to.equal(getUnion(b, 'a'))
+  })
+
+  it('Removes union when all values are empty', () => {
+    const [a, b] = createData()
+    setUnion(a, b, {type: 'married'})
+    setUnion(a, b, {type: undefined, date: ''})
+    expect(a.rels.spouse_meta).to.equal(undefined)
+    expect(b.rels.spouse_meta).to.equal(undefined)
+  })
+
+  it('Removes union of one spouse pair only', () => {
+    const [a, b, c] = createData()
+    setUnion(a, b, {type: 'divorced'})
+    setUnion(a, c, {type: 'married'})
+    removeUnion(a, b)
+    expect(a.rels.spouse_meta).to.deep.equal({c: {type: 'married'}})
+    expect(b.rels.spouse_meta).to.equal(undefined)
+  })
+
+  it('Sorts spouses by union date', () => {
+    const data = createData()
+    const [a, b, c] = data
+    a.rels.spouses.push('d')
+    setUnion(a, b, {date: '2001'})
+    setUnion(a, c, {date: 'abt 1990'})
+    sortSpousesByUnionDate(a, data)
+    expect(a.rels.spouses).to.deep.equal(['c', 'b', 'd'])
+  })
+
+  it('Submits union fields from the form', () => {
+    const data = createData()
+    const fields = [unionField('union', 'b'), unionField('union', 'c')]
+    const form_data = new FormData()
+    form_data.append(getUnionFormKey(fields[0].id, 'type'), 'divorced')
+    form_data.append(getUnionFormKey(fields[0].id, 'date'), '1980')
+    form_data.append(getUnionFormKey(fields[0].id, 'end_date'), '1985')
+    form_data.append(getUnionFormKey(fields[1].id, 'type'), 'married')
+    form_data.append(getUnionFormKey(fields[1].id, 'date'), '')
+    form_data.append(getUnionFormKey(fields[1].id, 'end_date'), '')
+    expect(submitFormData(data[0], data, form_data, fields).success).to.equal(true)
+    expect(getUnion(data[0], 'b')).to.deep.equal({type: 'divorced', date: '1980', end_date: '1985'})
+    expect(getUnion(data[2], 'a')).to.deep.equal({type: 'married'})
+    expect(Object.keys(data[0].data)).to.deep.equal(['gender'])
+  })
+
+  it('Uses separate inputs for union fields with different ids', () => {
+    const first = unionField('union', 'b')
+    const second = unionField('marriage', 'b')
+    expect(getUnionFormKey(first.id, 'date')).not.to.equal(getUnionFormKey(second.id, 'date'))
+  })
+
+  it('Escapes union values in the form', () => {
+    const field = {...unionField('union', 'b'), rel_label: '<b>Jane</b>', initial_value: {type: 'married', date: '"1980"', end_date: '<1990'}, type_options: UNION_TYPES}
+    const form_creator = {title: '', fields: [field], editable: true, warnings: [], gender_field: {id: 'gender', options: []}}
+    const html = getHtmlNew(form_creator)
+    expect(html).to.contain('<i>&lt;b&gt;Jane&lt;/b&gt;</i>')
+    expect(html).to.contain('value="&quot;1980&quot;"')
+    expect(html).to.contain('value="&lt;1990"')
+    const info = getHtmlNew({...form_creator, editable: false})
+    expect(info).to.contain('Married, &quot;1980&quot; - &lt;1990')
+  })
+})
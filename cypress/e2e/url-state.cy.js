@@ -0,0 +1,44 @@
+import { serializeUrlState, parseUrlState } from '../../src/features/url-state'
+
+describe('URL state', () => {
+  it('Serializes chart state to parameters', () => {
+    const params = serializeUrlState({
+      main_id: 'abc',
+      is_horizontal: true,
+      view_type: 'fan',
+      ancestry_depth: 3,
+      progeny_depth: 0,
+      transform: {x: 120.54, y: -40.06, k: 0.81234},
+    })
+    expect(params.toString()).to.equal('main=abc&orientation=horizontal&view=fan&ancestry_depth=3&progeny_depth=0&zoom=120.5%2C-40.1%2C0.812')
+  })
+
+  it('Keeps other parameters and removes unset state', () => {
+    const params = serializeUrlState({main_id: 'b', view_type: 'tree'}, new URLSearchParams('lang=en&main=a&view=fan&zoom=1,2,3'))
+    expect(params.toString()).to.equal('lang=en&main=b')
+  })
+
+  it('Parses parameters to chart state', () => {
+    const state = parseUrlState(new URLSearchParams('main=abc&orientation=vertical&view=timeline&ancestry_depth=2&progeny_depth=0&zoom=10,-20,1.5'))
+    expect(state).to.deep.equal({
+      main_id: 'abc',
+      is_horizontal: false,
+      view_type: 'timeline',
+      ancestry_depth: 2,
+      progeny_depth: 0,
+      transform: {x: 10, y: -20, k: 1.5},
+    })
+  })
+
+  it('Leaves out invalid values', () => {
+    const state = parseUrlState(new URLSearchParams('main=&orientation=diagonal&view=map&ancestry_depth=-1&progeny_depth=1.5&zoom=1,2,0'))
+    expect(state).to.deep.equal({})
+    expect(parseUrlState(new URLSearchParams('zoom=1,2'))).to.deep.equal({})
+    expect(parseUrlState(new URLSearchParams('zoom=a,2,1'))).to.deep.equal({})
+  })
+
+  it('Round-trips state', () => {
+    const state = {main_id: 'p 1&2', is_horizontal: false, view_type: 'fan', ancestry_depth: 1, transform: {x: 1, y: 2, k: 3}}
+    expect(parseUrlState(new URLSearchParams(serializeUrlState(state).toString()))).to.deep.equal(state)
+  })
+})
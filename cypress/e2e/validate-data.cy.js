@@ -0,0 +1,91 @@
+import { validateData, repairData } from '../../src/store/validate-data'
+
+function person(id, parents = [], spouses = [], children = [], gender = 'M') {
+  return {id, data: {gender}, rels: {parents, spouses, children}}
+}
+
+function issueTypes(issues) {
+  return issues.map(issue => `${issue.type}:${issue.datum_id}${issue.rel_id ? '-' + issue.rel_id : ''}`)
+}
+
+describe('Validate data', () => {
+  it('Returns no issues for valid data', () => {
+    const data = [person('a', [], ['b'], ['c']), person('b', [], ['a'], ['c'], 'F'), person('c', ['a', 'b'])]
+    expect(validateData(data)).to.deep.equal([])
+  })
+
+  it('Reports invalid datums before they are formatted', () => {
+    const data = [person('a'), {id: 'b', data: {gender: 'M'}}, null]
+    expect(issueTypes(validateData(data))).to.deep.equal(['invalid_datum:b', 'invalid_datum:undefined'])
+  })
+
+  it('Reports reference issues', () => {
+    const data = [person('a', ['a', 'x'], ['b', 'b']), person('b', [], [], [], 'X'), person('c', ['d', 'e', 'f']), person('d', [], [], ['c']), person('e', [], [], ['c']), person('f', [], [], ['c'])]
+    expect(issueTypes(validateData(data))).to.deep.equal([
+      'invalid_gender:b',
+      'self_reference:a-a',
+      'dangling_reference:a-x',
+      'one_sided_link:a-b',
+      'duplicate_reference:a-b',
+      'too_many_parents:c',
+    ])
+  })
+
+  it('Reads legacy father and mother', () => {
+    const data = [
+      {id: 'a', data: {gender: 'M'}, rels: {spouses: ['b'], children: ['c']}},
+      {id: 'b', data: {gender: 'F'}, rels: {spouses: ['a'], children: ['c']}},
+      {id: 'c', data: {gender: 'F'}, rels: {father: 'a', mother: 'b'}},
+    ]
+    expect(validateData(data)).to.deep.equal([])
+  })
+
+  it('Finds ancestry cycles', () => {
+    const data = [person('a', ['b'], [], ['c']), person('b', ['c'], [], ['a']), person('c', ['a'], [], ['b']), person('d', ['a'])]
+    data[0].rels.children.push('d')
+    const cycles = validateData(data).filter(issue => issue.type === 'ancestry_cycle')
+    expect(cycles.map(issue => issue.message)).to.deep.equal(['ancestry cycle: a -> b -> c -> a'])
+  })
+
+  it('Handles deep pedigrees', () => {
+    const data = []
+    for (let i = 0; i < 20000; i++) data.push(person(`p${i}`, i < 19999 ? [`p${i+1}`] : [], [], i > 0 ? [`p${i-1}`] : []))
+    expect(validateData(data)).to.deep.equal([])
+  })
+})
+
+describe('Repair data', () => {
+  it('Fixes one-sided links and removes bad references', () => {
+    const data = [person('a', ['a', 'x'], ['b', 'b']), person('b', [], [], [], 'F')]
+    const fixed = repairData(data)
+    expect(issueTypes(fixed)).to.deep.equal(['self_reference:a-a', 'dangling_reference:a-x', 'one_sided_link:a-b', 'duplicate_reference:a-b'])
+    expect(data[0].rels).to.deep.equal({parents: [], spouses: ['b'], children: []})
+    expect(data[1].rels.spouses).to.deep.equal(['a'])
+    expect(validateData(data)).to.deep.equal([])
+  })
+
+  it('Does not add a third parent', () => {
+    const data = [person('a', [], [], ['c']), person('b', [], [], ['c']), person('d', [], [], ['c']), person('c', ['a', 'b'])]
+    repairData(data)
+    expect(data[3].rels.parents).to.deep.equal(['a', 'b'])
+  })
+
+  it('Repairs legacy data', () => {
+    const data = [
+      {id: 'a', data: {gender: 'M'}, rels: {children: ['c']}},
+      {id: 'b', data: {gender: 'F'}, rels: {}},
+      {id: 'c', data: {gender: 'F'}, rels: {father: 'a', mother: 'b', parents: ['a']}},
+    ]
+    repairData(data)
+    expect(data[1].rels.children).to.deep.equal(['c'])
+    expect(data[2].rels).to.deep.equal({parents: ['a'], mother: 'b'})
+    expect(validateData(data)).to.deep.equal([])
+  })
+
+  it('Skips invalid datums when looking up linked people', () => {
+    const data = [null, person('a', [], [], ['b']), person('b')]
+    const fixed = repairData(data)
+    expect(issueTypes(fixed)).to.deep.equal(['one_sided_link:a-b'])
+    expect(data[2].rels.parents).to.deep.equal(['a'])
+  })
+})
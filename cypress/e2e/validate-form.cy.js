@@ -0,0 +1,52 @@
+import { getFieldValidation, validateFieldValue } from '../../src/store/validate-form'
+import { submitFormData } from '../../src/store/edit'
+
+const datum = {id: 'a', data: {gender: 'M'}, rels: {parents: [], spouses: [], children: []}}
+
+function field(props) {
+  return {id: 'f', type: 'text', label: 'Name', initial_value: '', ...props}
+}
+
+describe('Form validation', () => {
+  it('Copies only validation props', () => {
+    const validation = getFieldValidation({required: true, min: 0, error_message: 'Bad', label: 'Name', type: 'text'})
+    expect(validation).to.deep.equal({required: true, min: 0, error_message: 'Bad'})
+  })
+
+  it('Checks required values', () => {
+    expect(validateFieldValue(field({required: true}), ' ', datum, [])).to.equal('Name is required')
+    expect(validateFieldValue(field({required: true}), [], datum, [])).to.equal('Name is required')
+    expect(validateFieldValue(field({required: true}), 'John', datum, [])).to.equal(null)
+    expect(validateFieldValue(field({pattern: '\\d+'}), '', datum, [])).to.equal(null)
+  })
+
+  it('Checks pattern of the whole value', () => {
+    expect(validateFieldValue(field({pattern: '\\d+'}), '12a', datum, [])).to.equal('Name has invalid format')
+    expect(validateFieldValue(field({pattern: /^[a-z]+$/}), 'abc', datum, [])).to.equal(null)
+  })
+
+  it('Checks min and max by field type', () => {
+    expect(validateFieldValue(field({type: 'number', min: 1}), '0', datum, [])).to.equal('Name must be at least 1')
+    expect(validateFieldValue(field({type: 'date', max: 1900}), 'abt 1950', datum, [])).to.equal('Name must not be after 1900')
+    expect(validateFieldValue(field({type: 'date', max: 1900}), '1899', datum, [])).to.equal(null)
+    expect(validateFieldValue(field({max: 3}), 'John', datum, [])).to.equal('Name must have at most 3 characters')
+    expect(validateFieldValue(field({min: 2, error_message: 'Pick two'}), ['x'], datum, [])).to.equal('Pick two')
+  })
+
+  it('Runs custom validate', () => {
+    const validate = (value, d, data) => value === d.id ? `${data.length} taken` : null
+    expect(validateFieldValue(field({validate}), 'a', datum, [datum])).to.equal('1 taken')
+  })
+
+  it('Does not change the datum when a field is invalid', () => {
+    const d = JSON.parse(JSON.stringify(datum))
+    const form_data = new FormData()
+    form_data.append('first name', '')
+    form_data.append('birthday', 'not a date')
+    const fields = [field({id: 'first name', required: true}), field({id: 'birthday', type: 'date', label: 'Birthday'})]
+    const {success, errors} = submitFormData(d, [d], form_data, fields)
+    expect(success).to.equal(false)
+    expect(Object.keys(errors)).to.deep.equal(['birthday', 'first name'])
+    expect(d.data).to.deep.equal({gender: 'M'})
+  })
+})
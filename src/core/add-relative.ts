@@ -16,6 +16,7 @@ export class AddRelative {
   addRelLabels: {
     father: string
     mother: string
+    parent: string
     spouse: string
     son: string
     daughter: string
@@ -108,6 +109,7 @@ export class AddRelative {
     return {
       father: 'Add Father',
       mother: 'Add Mother',
+      parent: 'Add Parent',
       spouse: 'Add Spouse',
       son: 'Add Son',
       daughter: 'Add Daughter'
@@ -3,12 +3,24 @@ import htmlContSetup from "../renderers/html"
 import { removeToAddFromData } from "../store/edit"
 import createStore from "../store/store"
 import view from "../renderers/view"
+import viewFan from "../renderers/view-fan"
+import viewTimeline from "../renderers/view-timeline"
 import editTree, { EditTree } from "./edit"
 import linkSpouseText from "../features/link-spouse-text"
 import autocomplete from "../features/autocomplete"
 import { getMaxDepth } from "../layout/handlers"
 import { calculateKinships } from "../features/kinships/calculate-kinships"
 import { getKinshipsDataStash } from "../features/kinships/kinships-data"
+import { findPath } from "../features/kinships/find-path"
+import { pathBetween } from "../layout/path-to-main"
+import { SearchIndexOptions } from "../store/search-index"
+import keyboardNavigation, { KeyboardNavigation } from "../features/keyboard-navigation"
+import minimap, { Minimap, MinimapOptions } from "../features/minimap"
+import urlState, { UrlState, UrlStateOptions } from "../features/url-state"
+import { validateData, repairData, DataIssue } from "../store/validate-data"
+import { ChartEventName, ChartEventHandler } from "../features/events"
+import { exportSvg, exportPng, ExportSvgOptions, ExportPngOptions } from "../features/export-image"
+import { createPrintPreview, PrintOptions } from "../features/print"
 
 import { Data, Datum } from "../types/data"
 import { Store } from "../types/store"
@@ -17,12 +29,27 @@ import cardHtml, { CardHtml } from "../core/cards/card-html"
 import cardSvg, { CardSvg } from "../core/cards/card-svg"
 import { TreeDatum } from "../types/treeData"
 import { ViewProps } from "../renderers/view"
+import calculateFan, { FanOptions, FanSegment } from "../layout/calculate-fan"
+import { LAYOUT_MODE_DEFAULTS, Tree } from "../layout/calculate-tree"
+import calculateTimeline, { TimelineOptions, TimelineRow } from "../layout/calculate-timeline"
+import { Link } from "../layout/create-links"
 
 import { KinshipInfoConfig } from "../features/kinships/calculate-kinships"
 type LinkSpouseText = ((sp1: TreeDatum, sp2: TreeDatum) => string) | null
 
-export default function createChart(cont: HTMLElement | string, data: Data) {
-  return new Chart(cont, data)
+export interface ChartOptions {
+  /**
+   * validate data before first render and on updateData, off by default. issues are logged with console.warn unless onDataIssues is set.
+   * if any issue has severity 'error', the data is rejected: createChart and updateData throw after the issues are reported.
+   */
+  validate_data?: boolean
+  /** fix one-sided links, dangling, duplicate and self references before validation */
+  repair_data?: boolean
+  onDataIssues?: (issues: DataIssue[]) => void
+}
+
+export default function createChart(cont: HTMLElement | string, data: Data, options: ChartOptions = {}) {
+  return new Chart(cont, data, options)
 }
 
 /**
@@ -53,9 +80,15 @@ export class Chart {
   afterUpdate: Function | null
 
   editTreeInstance: EditTree | null
+  cardInstance: CardHtml | CardSvg | null
+  keyboardNavigationInstance: KeyboardNavigation | null
+  minimapInstance: Minimap | null
+  urlStateInstance: UrlState | null
+  options: ChartOptions
 
 
-  constructor(cont: HTMLElement | string, data: Data) {
+  constructor(cont: HTMLElement | string, data: Data, options: ChartOptions = {}) {
+    this.options = options
     this.getCard = null
     this.transition_time = 2000
     this.linkSpouseText = null
@@ -72,10 +105,15 @@ export class Chart {
     this.svg = svg
     createNavCont(this.cont)
     const main_id = data && data.length > 0 ? data[0].id : ''
+    this.checkData(data)
     this.store = this.createStore(data, main_id)
     this.setOnUpdate()
 
     this.editTreeInstance = null
+    this.cardInstance = null
+    this.keyboardNavigationInstance = null
+    this.minimapInstance = null
+    this.urlStateInstance = null
 
     return this
   }
@@ -84,20 +122,67 @@ export class Chart {
     return createStore({
       data,
       main_id,
-      node_separation: 250,
-      level_separation: 150,
       single_parent_empty_card: true,
       is_horizontal: false,
     })
   }
 
+  private createKeyboardNavigation() {
+    return keyboardNavigation(this.cont, this.store, {
+      onSelect: (d: TreeDatum) => {
+        this.updateMainId(d.data.id)
+        this.updateTree({})
+      },
+      onEdit: (d: TreeDatum) => {
+        if (this.editTreeInstance) this.editTreeInstance.open(d.data)
+      }
+    })
+  }
+
+  // runs before the store formats the data, so datums that would break formatting are reported and rejected
+  private checkData(data: Data) {
+    const {validate_data, repair_data, onDataIssues} = this.options
+    if (!data || (!validate_data && !repair_data)) return
+    if (repair_data) {
+      const fixed = repairData(data)
+      if (fixed.length > 0) console.warn(`family-chart: repaired ${fixed.length} data issue(s)`, fixed)
+    }
+    if (!validate_data) return
+    const issues = validateData(data)
+    if (issues.length === 0) return
+    if (onDataIssues) onDataIssues(issues)
+    else issues.forEach(issue => console.warn(`family-chart: ${issue.message}`))
+    const errors = issues.filter(issue => issue.severity === 'error')
+    if (errors.length > 0) throw new Error(`family-chart: data has ${errors.length} error(s), first: ${errors[0].message}`)
+  }
+
   private setOnUpdate() {
     this.store.setOnUpdate((props?: ViewProps) => {
       if (this.beforeUpdate) this.beforeUpdate(props)
-      props = Object.assign({transition_time: this.store.state.transition_time}, props || {})
+      props = Object.assign({transition_time: this.store.state.transition_time, highlight: this.store.state.highlight}, props || {})
       if (this.is_card_html) props = Object.assign({}, props || {}, {cardHtml: true})
+      if (this.store.state.view_type === 'fan') {
+        const onSegmentClick = (e: MouseEvent, d: FanSegment) => this.onViewClick(e, d.datum)
+        viewFan(this.store.getTree()!, this.svg, Object.assign({}, props, {fan_options: this.store.state.fan_options, onSegmentClick}))
+        if (this.minimapInstance) this.minimapInstance.setVisible(false)
+        if (this.urlStateInstance) this.urlStateInstance.update()
+        if (this.afterUpdate) this.afterUpdate(props)
+        return
+      }
+      if (this.store.state.view_type === 'timeline') {
+        const onRowClick = (e: MouseEvent, d: TimelineRow) => this.onViewClick(e, this.store.getTreeDatum(d.datum.id) || {data: d.datum, x: 0, y: 0, depth: 0})
+        viewTimeline(this.store.getTree()!, this.svg, Object.assign({}, props, {timeline_options: this.store.state.timeline_options, onRowClick}))
+        if (this.minimapInstance) this.minimapInstance.setVisible(false)
+        if (this.urlStateInstance) this.urlStateInstance.update()
+        if (this.afterUpdate) this.afterUpdate(props)
+        return
+      }
       view(this.store.getTree()!, this.svg, this.getCard!(), props || {})
-      if (this.linkSpouseText) linkSpouseText(this.svg, this.store.getTree()!, Object.assign({}, props || {}, {linkSpouseText: this.linkSpouseText, node_separation: this.store.state.node_separation!}))
+      this.updatePathHighlight()
+      if (this.keyboardNavigationInstance) this.keyboardNavigationInstance.update()
+      if (this.minimapInstance) this.minimapInstance.setVisible(true).update(this.store.getTree()!)
+      if (this.urlStateInstance) this.urlStateInstance.update()
+      if (this.linkSpouseText) linkSpouseText(this.svg, this.store.getTree()!, Object.assign({}, props || {}, {linkSpouseText: this.linkSpouseText, node_separation: this.store.getTree()!.node_separation}))
       if (this.afterUpdate) this.afterUpdate(props)
     })
   }
@@ -124,12 +209,96 @@ export class Chart {
    * @returns The CreateChart instance
    */
   updateData(data: Data) {
+    this.checkData(data)
     this.store.updateData(data)
     return this
   }
 
   /**
-   * Set the card y spacing
+   * Export the whole tree as standalone svg, not only the part visible in the viewport.
+   * When the fan or timeline view is shown, that view is exported.
+   * @param options - Export options.
+   * @param options.background - Background color. Default is the background color of the chart container.
+   * @param options.padding - Space around the tree in px. Default is 20.
+   * @returns svg markup
+   */
+  exportSvg(options: ExportSvgOptions = {}) {
+    const tree = this.store.getTree()
+    if (!tree) throw new Error('tree is not calculated, call updateTree first')
+    return exportSvg(this.cont, this.getViewDim(tree), options)
+  }
+
+  /**
+   * Export the whole tree as png image, not only the part visible in the viewport.
+   * When the fan or timeline view is shown, that view is exported.
+   * @param options - Export options.
+   * @param options.scale - Pixel ratio of the image. Default is 2.
+   * @param options.background - Background color. Default is the background color of the chart container.
+   * @param options.padding - Space around the tree in px. Default is 20.
+   * @returns Promise that resolves with png blob
+   */
+  exportPng(options: ExportPngOptions = {}) {
+    const tree = this.store.getTree()
+    if (!tree) return Promise.reject(new Error('tree is not calculated, call updateTree first'))
+    return exportPng(this.cont, this.getViewDim(tree), options)
+  }
+
+  // fan and timeline are laid out by their renderers, so their bounds are calculated again the same way
+  private getViewDim(tree: Tree) {
+    const {view_type, fan_options, timeline_options} = this.store.state
+    if (view_type === 'fan') return calculateFan(tree, fan_options).dim
+    if (view_type === 'timeline') return calculateTimeline(tree.main_id, tree.data_stash, timeline_options).dim
+    return tree.dim
+  }
+
+  /**
+   * Show the whole tree split into printable pages and print it from there.
+   * Pages overlap, dashed lines mark the overlap and arrows on page edges point to the neighbouring page numbers.
+   * Only the tree view can be printed, it throws while the fan or timeline is shown.
+   * Requires family-chart-print.css stylesheet.
+   * @param options - Print options.
+   * @param options.paper - Paper size, 'A3', 'A4', 'A5', 'Letter' or 'Legal'. Default is 'A4'.
+   * @param options.orientation - 'portrait' or 'landscape'. Default is 'portrait'.
+   * @param options.scale - Size of the tree on paper, 1 is the size of the tree on screen. Default is 1.
+   * @param options.overlap - Part of the tree in px repeated on neighbouring pages. Default is 40.
+   * @param options.margin - Page margin in mm. Default is 10.
+   * @param options.background - Page background. Default is the background color of the chart container.
+   * @returns Print preview with print and close functions
+   */
+  print(options: PrintOptions = {}) {
+    const tree = this.store.getTree()
+    if (!tree) throw new Error('tree is not calculated, call updateTree first')
+    if ((this.store.state.view_type || 'tree') !== 'tree') throw new Error('print is only available for the tree view')
+    return createPrintPreview(this.cont, tree, options)
+  }
+
+  /**
+   * Listen to chart events. Person and relation events are emitted for changes made with editTree.
+   * @param event - The event name.
+   * - 'person:added', 'person:updated', 'person:deleted' - {datum_id, before, after}
+   * - 'relation:linked', 'relation:unlinked' - {datum_id, rel_id, rel_type: 'parent' | 'spouse'}
+   * - 'main:changed' - {datum_id, before}
+   * @param handler - The function called with event data.
+   * @returns The CreateChart instance
+   */
+  on<K extends ChartEventName>(event: K, handler: ChartEventHandler<K>) {
+    this.store.events.on(event, handler)
+    return this
+  }
+
+  /**
+   * Remove event handler
+   * @param event - The event name.
+   * @param handler - The handler to remove. If not set, all handlers of the event are removed.
+   * @returns The CreateChart instance
+   */
+  off<K extends ChartEventName>(event: K, handler?: ChartEventHandler<K>) {
+    this.store.events.off(event, handler)
+    return this
+  }
+
+  /**
+   * Set the card y spacing. Until it is set, store.state.level_separation is undefined and the default of the layout mode is used.
    * @param card_y_spacing - The card y spacing between the cards. Level separation.
    * @returns The CreateChart instance
    */
@@ -145,7 +314,7 @@ export class Chart {
   }
 
   /**
-   * Set the card x spacing
+   * Set the card x spacing. Until it is set, store.state.node_separation is undefined and the default of the layout mode is used.
    * @param card_x_spacing - The card x spacing between the cards. Node separation.
    * @returns The CreateChart instance
    */
@@ -159,6 +328,41 @@ export class Chart {
     return this
   }
 
+  /**
+   * Set which relatives of the main person are laid out. Each mode has its own card spacing defaults,
+   * which are used unless spacing is set with setCardXSpacing and setCardYSpacing.
+   * @param layout_mode - The layout mode.
+   * - 'hourglass' - ancestry and progeny around the main person (default),
+   * - 'pedigree' - compact tree of ancestors only,
+   * - 'descendants' - progeny with spouses only,
+   * - 'graph' - everyone connected to the main person within graph depth steps, including in-laws and cousins' spouses. See setGraphDepth.
+   * @returns The CreateChart instance
+   */
+  setLayoutMode(layout_mode: ST.LayoutMode) {
+    if (!LAYOUT_MODE_DEFAULTS.hasOwnProperty(layout_mode)) {
+      console.error(`layout_mode must be one of ${Object.keys(LAYOUT_MODE_DEFAULTS).join(', ')}`)
+      return this
+    }
+    this.store.state.layout_mode = layout_mode
+
+    return this
+  }
+
+  /**
+   * Set how many parent, child or spouse steps from the main person are shown in the graph layout mode
+   * @param graph_depth - The number of steps. Default is 3.
+   * @returns The CreateChart instance
+   */
+  setGraphDepth(graph_depth: ST.GraphDepth) {
+    if (typeof graph_depth !== 'number' || graph_depth < 0) {
+      console.error('graph_depth must be a positive number')
+      return this
+    }
+    this.store.state.graph_depth = graph_depth
+
+    return this
+  }
+
   /**
    * Set the orientation to vertical
    * @returns The CreateChart instance
@@ -177,6 +381,82 @@ export class Chart {
     return this
   }
 
+  /**
+   * Set how the tree is displayed. Switching between views is animated on the next updateTree.
+   * @param view_type - The view type.
+   * - 'tree' - cards and links of ancestry and progeny,
+   * - 'fan' - radial fan chart of ancestors of the main person, each generation is a ring. Depth is set with setAncestryDepth.
+   * - 'timeline' - life spans of the main person and close relatives on a time axis. See setTimelineOptions.
+   * @returns The CreateChart instance
+   */
+  setViewType(view_type: ST.ViewType) {
+    if (!['tree', 'fan', 'timeline'].includes(view_type)) {
+      console.error('view_type must be tree, fan or timeline')
+      return this
+    }
+    this.store.state.view_type = view_type
+
+    return this
+  }
+
+  /**
+   * Set the fan chart options
+   * @param fan_options - The fan chart options.
+   * @param fan_options.angle - Angle of the fan in degrees, 360 is a full circle. Default is 240.
+   * @param fan_options.center_radius - Radius of the main person circle. Default is 80.
+   * @param fan_options.ring_width - Width of each generation ring. Default is 90.
+   * @param fan_options.getLabel - Function that returns text of the segment. Default is first name and last name.
+   * @returns The CreateChart instance
+   */
+  setFanOptions(fan_options: FanOptions) {
+    this.store.state.fan_options = {...this.store.state.fan_options, ...fan_options}
+
+    return this
+  }
+
+  /**
+   * Set the timeline options
+   * @param timeline_options - The timeline options.
+   * @param timeline_options.birth_field - datum.data key of birth date. Default is 'birthday'.
+   * @param timeline_options.death_field - datum.data key of death date. Default is 'death'.
+   * @param timeline_options.marriage_field - datum.data key of marriage date, used when union of the spouses has no date. Default is 'marriage date'.
+   * @param timeline_options.relatives - Relatives of the main person that are shown. Default is ['parents', 'spouses', 'siblings', 'children'].
+   * @param timeline_options.year_width - Width of a year in px. Default is 12.
+   * @param timeline_options.row_height - Height of a person row. Default is 40.
+   * @param timeline_options.getLabel - Function that returns text next to the life span. Default is first name and last name.
+   * @returns The CreateChart instance
+   */
+  setTimelineOptions(timeline_options: TimelineOptions) {
+    this.store.state.timeline_options = {...this.store.state.timeline_options, ...timeline_options}
+
+    return this
+  }
+
+  /**
+   * Check life events for impossible dates and show warning badges on cards and in the edit form.
+   * @param consistency_check - true to use the default rules, false to turn the check off, or options.
+   * @param consistency_check.rules - Rules to run. Default is f3.CONSISTENCY_RULES: death before birth, child born before parent or after death of parent,
+   *   parent younger than min_parent_age, marriage before birth or after death.
+   * @param consistency_check.birth_field - datum.data key of birth date. Default is 'birthday'.
+   * @param consistency_check.death_field - datum.data key of death date. Default is 'death'.
+   * @param consistency_check.marriage_field - rel_reference field id of marriage date, used when union of the spouses has no date. Default is 'marriage date'.
+   * @param consistency_check.min_parent_age - Min age of a parent at birth of a child. Default is 12.
+   * @param consistency_check.about_margin - Years added on both sides of approximate dates. Default is 2.
+   * @returns The CreateChart instance
+   */
+  setConsistencyCheck(consistency_check: ST.ConsistencyCheck) {
+    this.store.state.consistency_check = consistency_check
+
+    return this
+  }
+
+  // fan segments and timeline rows use the same click handler as cards
+  private onViewClick(e: MouseEvent, d: TreeDatum) {
+    if (this.cardInstance) return this.cardInstance.onCardClick(e, d)
+    this.store.updateMainId(d.data.id)
+    this.store.updateTree({})
+  }
+
   /**
    * Set whether to show the siblings of the main person
    * @param show_siblings_of_main - Whether to show the siblings of the main person.
@@ -262,6 +542,7 @@ export class Chart {
   
     const card = cardHtml(this.cont, this.store)
     this.getCard = () => card.getCard()
+    this.cardInstance = card
 
     return card
   }
@@ -280,6 +561,7 @@ export class Chart {
 
     const card = cardSvg(this.cont, this.store)
     this.getCard = () => card.getCard()
+    this.cardInstance = card
 
     return card
   }
@@ -299,6 +581,7 @@ export class Chart {
    * Set the sort children function
    * @param sortChildrenFunction - The sort children function.
    * - Example: (a, b) => a.data.birth_date - b.data.birth_date
+   * - Example with genealogical dates (abt 1850, bef 1900, 1850-1855): sortByDate('birthday')
    * @returns The CreateChart instance
    */
   setSortChildrenFunction(sortChildrenFunction: ST.SortChildrenFunction) {
@@ -381,6 +664,167 @@ export class Chart {
     return getKinshipsDataStash(main_id, rel_id, this.store.getData(), this.calculateKinships(main_id))
   }
 
+  /**
+   * Find the shortest relationship path between two people through parents, spouses and children
+   * @param a_id - The id of the first person.
+   * @param b_id - The id of the second person.
+   * @returns Steps from the first to the second person, each with id, rel_type and kinship label of the hop, e.g. 'mother'. null if they are not connected.
+   */
+  findPath(a_id: Datum['id'], b_id: Datum['id']) {
+    return findPath(this.store.getData(), a_id, b_id)
+  }
+
+  /**
+   * Highlight the relationship path between two people on the tree. Only cards and links that are in the rendered tree are highlighted.
+   * The path is found again on every tree update.
+   * @param a_id - The id of the first person.
+   * @param b_id - The id of the second person.
+   * @returns The CreateChart instance
+   */
+  setPathHighlight(a_id: Datum['id'], b_id: Datum['id']) {
+    this.store.state.path_highlight = [a_id, b_id]
+    this.updatePathHighlight()
+    return this
+  }
+
+  /**
+   * Remove the relationship path highlight
+   * @returns The CreateChart instance
+   */
+  clearPathHighlight() {
+    this.store.state.path_highlight = null
+    this.updatePathHighlight()
+    return this
+  }
+
+  private updatePathHighlight() {
+    const cards = d3.select(this.cont).selectAll<Element, TreeDatum>('.cards_view .card_cont')
+    const links = d3.select(this.svg).select('.links_view').selectAll<SVGPathElement, Link>('.link')
+    cards.selectAll('.card-inner').classed('f3-path-highlight', false).classed('f3-path-highlight-end', false)
+    links.classed('f3-path-highlight', false)
+
+    const path_highlight = this.store.state.path_highlight
+    if (!path_highlight || this.store.state.view_type === 'fan' || this.store.state.view_type === 'timeline') return
+    const path = findPath(this.store.getData(), path_highlight[0], path_highlight[1])
+    if (!path) return
+    const path_ids = path.map(step => step.id)
+    const {cards_node_in_path, links_node_in_path} = pathBetween(cards, links, path_ids)
+    cards_node_in_path.forEach(({card, node}) => {
+      d3.select(node).select('.card-inner')
+        .classed('f3-path-highlight', true)
+        .classed('f3-path-highlight-end', card.data.id === path_highlight[0] || card.data.id === path_highlight[1])
+    })
+    links_node_in_path.forEach(({node}) => d3.select(node).classed('f3-path-highlight', true))
+  }
+
+  /**
+   * Search people in all datum.data fields. Matching ignores case and accents and allows small typos.
+   * @param query - Search terms and field filters, e.g. `john born:1850..1900 surname:Smith`. Field filters use datum.data keys with _ for spaces, e.g. birth_place:london, or aliases born, died, surname, first, given and last.
+   * @param limit - Max number of results.
+   * @returns Matching people sorted by score, best first. Each result has id, score (0-1) and the matched fields.
+   */
+  search(query: string, limit?: number) {
+    return this.store.search(query, limit)
+  }
+
+  /**
+   * Set the search options used by search and the person dropdown
+   * @param search_options - The search options.
+   * @param search_options.fields - datum.data keys that are searched. Default is all keys except gender.
+   * @param search_options.field_aliases - Field names for queries, e.g. {place: 'birth place'} for place:london.
+   * @param search_options.field_weights - Importance of fields in ranking. Default is 2 for first name and last name and 1 for others.
+   * @returns The CreateChart instance
+   */
+  setSearchOptions(search_options: SearchIndexOptions) {
+    this.store.state.search_options = search_options
+    return this
+  }
+
+  /**
+   * Dim cards and links of people that don't match, e.g. to show everyone with the same surname. Call updateTree to apply.
+   * @param highlight - Function that returns true for people that are highlighted, null to remove the highlight.
+   * @returns The CreateChart instance
+   * @example
+   * f3Chart.setHighlight(d => d.data['last name'] === 'Smith').updateTree({tree_position: 'inherit'})
+   */
+  setHighlight(highlight: ST.Highlight) {
+    if (highlight !== null && typeof highlight !== 'function') {
+      console.error('highlight must be a function or null')
+      return this
+    }
+    this.store.state.highlight = highlight
+    return this
+  }
+
+  /**
+   * Collapse tree branches where no person matches. The main person is always shown. Call updateTree to apply.
+   * @param filter - Function that returns true for people that are shown, null to show everyone.
+   * @returns The CreateChart instance
+   */
+  setFilter(filter: ST.Filter) {
+    if (filter !== null && typeof filter !== 'function') {
+      console.error('filter must be a function or null')
+      return this
+    }
+    this.store.state.filter = filter
+    return this
+  }
+
+  /**
+   * Set keyboard navigation and screen reader support of the tree. It is off by default, as it changes the tab order of the page.
+   * Arrow keys move between parents, children, spouses and siblings, Enter makes the focused person the main person and E opens the edit form.
+   * @param keyboard_navigation - Whether to use keyboard navigation.
+   * @returns The CreateChart instance
+   */
+  setKeyboardNavigation(keyboard_navigation: boolean) {
+    if (keyboard_navigation && !this.keyboardNavigationInstance) {
+      this.keyboardNavigationInstance = this.createKeyboardNavigation()
+      this.keyboardNavigationInstance.update()
+    } else if (!keyboard_navigation && this.keyboardNavigationInstance) {
+      this.keyboardNavigationInstance.destroy()
+      this.keyboardNavigationInstance = null
+    }
+    return this
+  }
+
+  /**
+   * Show a minimap with an overview of the whole tree and a rectangle of the visible part.
+   * Dragging the rectangle or clicking the minimap pans the chart. The minimap is hidden in fan and timeline views.
+   * @param options - Minimap options, or false to remove the minimap.
+   * @param options.width - Width in px. Default is 200.
+   * @param options.height - Height in px. Default is 150.
+   * @param options.position - 'top-left', 'top-right', 'bottom-left' or 'bottom-right'. Default is 'bottom-left'.
+   * @returns The CreateChart instance
+   */
+  setMinimap(options: MinimapOptions | boolean = true) {
+    if (this.minimapInstance) this.minimapInstance.destroy()
+    this.minimapInstance = null
+    if (options === false) return this
+    this.minimapInstance = minimap(this.svg, options === true ? {} : options)
+    const tree = this.store.getTree()
+    if (tree && (this.store.state.view_type || 'tree') === 'tree') this.minimapInstance.update(tree)
+    else this.minimapInstance.setVisible(false)
+    return this
+  }
+
+  /**
+   * Keep the main person, orientation, view, ancestry and progeny depth and zoom in the url.
+   * The state in the url is restored, so the url can be shared or bookmarked.
+   * Changing the main person adds a browser history entry, back and forward move between the main people.
+   * @param options - Url state options, or false to stop syncing the url.
+   * @param options.mode - 'hash' (#main=...) or 'query' (?main=...). Default is 'hash'.
+   * @returns The CreateChart instance
+   */
+  setUrlState(options: UrlStateOptions | boolean = true) {
+    if (this.urlStateInstance) this.urlStateInstance.destroy()
+    this.urlStateInstance = null
+    if (options === false) return this
+    this.urlStateInstance = urlState(this.store, this.svg, options === true ? {} : options)
+    const restored = this.urlStateInstance.restore()
+    if (restored && this.store.getTree()) this.updateTree({tree_position: 'inherit'})
+    return this
+  }
+
   /**
    * Set whether to show toggable tree branches are duplicated
    * @param duplicate_branch_toggle - Whether to show toggable tree branches are duplicated.
@@ -479,6 +923,11 @@ export class Chart {
     this.personSearch = autocomplete(cont, onSelect, {placeholder})
 
     this.personSearch.setOptionsGetterPerson(this.store.getData, getLabel)
+    this.personSearch.setOptionsSearch((query: string, options: {value: string}[]) => {
+      return this.store.search(query)
+        .map(result => options.find(option => option.value === result.id))
+        .filter(option => option)
+    })
 
     function onSelectDefault(this: Chart, d_id: Datum['id']) {
       const datum = this.store.getDatum(d_id)
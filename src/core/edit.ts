@@ -1,12 +1,13 @@
 import * as d3 from "d3"
 import { formCreatorSetup } from "./form-creator"
-import { createHistory, createHistoryControls, HistoryWithControls } from "../features/history"
+import { createHistory, createHistoryControls, HistoryWithControls, HistoryStorage } from "../features/history"
 import { createFormEdit, createFormNew } from "../renderers/create-form"
 import addRelative from "./add-relative"
 import { deletePerson, cleanupDataJson } from "../store/edit"
 import { handleLinkRel } from "../store/add-existing-rel"
 import removeRelative, { RemoveRelative } from "./remove-relative"
 import modal, { Modal } from "../features/modal"
+import { emitDataChanges, trackChanges, ChartEventName, ChartEventHandler } from "../features/events"
 
 import { Store } from "../types/store"
 import { Data, Datum } from "../types/data"
@@ -16,6 +17,11 @@ import { EditDatumFormCreator, FormCreator, FormCreatorSetupProps, NewRelFormCre
 import { CardHtml } from "./cards/card-html"
 import { CardSvg } from "./cards/card-svg"
 import { LegacyDatum, formatDataForExport } from "../store/format-data"
+import { serializeGedcom, GedcomExportConfig } from "../features/gedcom/gedcom-export"
+import { findLikelyDuplicates, FindDuplicatesOptions } from "../store/find-duplicates"
+import { mergePersons } from "../store/merge"
+import { createDuplicatesList, createMergeForm } from "../features/merge-form"
+import { defaultLabel } from "../renderers/view-common"
 
 type Card = CardHtml | CardSvg
 
@@ -67,6 +73,7 @@ export class EditTree {
   removeRelativeInstance: RemoveRelative
   history: HistoryWithControls
   modal: Modal
+  emitPendingChanges: (() => void) | null
 
   createFormEdit: ((form_creator: FormCreator, closeCallback: () => void) => HTMLElement) | null
   createFormNew: ((form_creator: FormCreator, closeCallback: () => void) => HTMLElement) | null
@@ -107,6 +114,7 @@ export class EditTree {
     this.addRelativeInstance = this.setupAddRelative()
     this.removeRelativeInstance = this.setupRemoveRelative()
     this.history = this.createHistory()
+    this.emitPendingChanges = null
   
     return this 
   }
@@ -144,6 +152,7 @@ export class EditTree {
         self.removeRelativeInstance.onCancel()
         self.cardEditForm(datum)
       } else {
+        self.trackChanges([self.removeRelativeInstance.datum.id, datum.id])
         self.removeRelativeInstance.onChange(tree_datum, onAccept.bind(self))
   
         function onAccept() {
@@ -201,13 +210,15 @@ export class EditTree {
   
     return {...history, controls}
   
-    function historyUpdateTree(this: EditTree) {
+    function historyUpdateTree(this: EditTree, before: Data, after: Data) {
       console.log('historyUpdateTree')
       if (this.addRelativeInstance.is_active) this.addRelativeInstance.onCancel!()
       if (this.removeRelativeInstance.is_active) this.removeRelativeInstance.onCancel!()
       this.store.updateTree({initial: false})
       this.history.controls.updateButtons()
       this.openFormWithId(this.store.getMainDatum()?.id)
+      this.emitPendingChanges = null
+      emitDataChanges(this.store.events, before, after)
       if (this.onChange) this.onChange()
     }
   }
@@ -258,6 +269,7 @@ export class EditTree {
       props.addRelative = this.addRelativeInstance
       props.removeRelative = this.removeRelativeInstance
       props.deletePerson = () => {
+        this.trackChanges([datum.id])
         deletePerson(datum, this.store.getData())
         this.openFormWithId(this.store.getLastAvailableMainDatum().id)
   
@@ -271,6 +283,8 @@ export class EditTree {
       postSubmitHandler: (props: any) => postSubmitHandler(this, props),
       fields: this.fields, 
       onCancel: () => {},
+      onChangeStart: () => this.trackChanges(this.getEditedIds(datum)),
+      onChangeCancel: () => this.emitPendingChanges = null,
       editFirst: this.editFirst,
       no_edit: this.no_edit,
       link_existing_rel_config: this.link_existing_rel_config,
@@ -291,6 +305,7 @@ export class EditTree {
     this.openForm()
   
     function postSubmitHandler(self: EditTree, props: any) {
+      if (props?.link_rel_id) self.trackChanges([...self.getEditedIds(datum), props.link_rel_id])
       if (self.addRelativeInstance.is_active) {
         self.addRelativeInstance.onChange!(datum, props)
         if (self.postSubmit) self.postSubmit(datum, self.store.getData())
@@ -507,15 +522,139 @@ export class EditTree {
   getDataJson() {
     return JSON.stringify(this.exportData(), null, 2)
   }
+
+  /**
+   * Export the data as GEDCOM so it can be imported into other genealogy software
+   * @param config - The GEDCOM export config.
+   * @param config.field_map - Map of datum.data keys to GEDCOM paths. Default is {'first name': 'NAME.GIVN', 'last name': 'NAME.SURN', 'birthday': 'BIRT.DATE', ...}
+   * @param config.family_field_map - Map of rel_reference field ids to GEDCOM FAM paths. Default is {'marriage date': 'MARR.DATE'}
+   * @param config.version - GEDCOM version. Default is '5.5.1'
+   * @returns GEDCOM text
+   */
+  exportGedcom(config: GedcomExportConfig = {}) {
+    return serializeGedcom(this._getStoreDataCopy(), config)
+  }
   
-  updateHistory() {
+  /**
+   * Open a modal with the list of likely duplicates. Each pair can be reviewed and merged with openMerge
+   * @param options - Compared fields and min score, see findLikelyDuplicates
+   * @returns The EditTree instance
+   */
+  openDuplicates(options: FindDuplicatesOptions = {}) {
+    const data = this.store.getData()
+    const candidates = findLikelyDuplicates(data, options)
+    const list = createDuplicatesList(candidates, data, {
+      getLabel: defaultLabel,
+      onReview: (a_id, b_id) => this.openMerge(a_id, b_id)
+    })
+    this.modal.activate(list)
+    return this
+  }
+
+  /**
+   * Open a modal that shows two people side by side, so the user can pick the kept record and the values of conflicting fields
+   * @param a_id - The id of the first person
+   * @param b_id - The id of the second person
+   * @returns The EditTree instance
+   */
+  openMerge(a_id: Datum['id'], b_id: Datum['id']) {
+    const a = this.store.getDatum(a_id)
+    const b = this.store.getDatum(b_id)
+    if (!a || !b) {
+      console.error('Datum not found')
+      return this
+    }
+    const form = createMergeForm(a, b, this.store.getData(), {
+      getLabel: defaultLabel,
+      onMerge: (keep_id, remove_id, values) => this.merge(keep_id, remove_id, values),
+      onCancel: () => this.modal.close()
+    })
+    this.modal.activate(form)
+    return this
+  }
+
+  private merge(keep_id: Datum['id'], remove_id: Datum['id'], values: Record<string, any>) {
+    const remove = this.store.getDatum(remove_id)!
+    const label = `Merged ${defaultLabel(remove) || remove_id}`
+    this.trackChanges([keep_id, remove_id])
+    mergePersons(this.store.getData(), keep_id, remove_id, values)
+    if (this.store.getMainId() === remove_id) this.store.updateMainId(keep_id)
+    this.modal.close()
+    this.store.updateTree({})
+    this.openFormWithId(this.store.getMainDatum()?.id)
+    this.updateHistory(label)
+  }
+
+  /**
+   * Add current data to history
+   * @param label - Description of the change. If not set, it is created from the changes, e.g. "Added child John to Mary"
+   */
+  updateHistory(label?: string) {
     if (this.history) {
-      this.history.changed()
+      this.history.changed(label)
       this.history.controls.updateButtons()
     }
   
+    if (this.emitPendingChanges) {
+      this.emitPendingChanges()
+      this.emitPendingChanges = null
+    }
     if (this.onChange) this.onChange()
   }
+
+  // people are compared before and after the change, change events are emitted in updateHistory
+  private trackChanges(ids: Datum['id'][]) {
+    this.emitPendingChanges = trackChanges(this.store.events, this.store.getData(), ids)
+  }
+
+  // in add relative mode the new relative is linked to the active datum
+  private getEditedIds(datum: Datum) {
+    const active_datum = this.addRelativeInstance.is_active ? this.addRelativeInstance.datum : null
+    return active_datum ? [datum.id, active_datum.id] : [datum.id]
+  }
+
+  /**
+   * Listen to changes made via editing, adding or removing relatives and history undo/redo
+   * @param event - 'person:added', 'person:updated', 'person:deleted', 'relation:linked', 'relation:unlinked' or 'main:changed'
+   * @param handler - Function called with the affected datum ids and before/after values
+   * @returns The EditTree instance
+   */
+  on<K extends ChartEventName>(event: K, handler: ChartEventHandler<K>) {
+    this.store.events.on(event, handler)
+    return this
+  }
+
+  /**
+   * Remove event handler
+   * @param event - The event name
+   * @param handler - The handler to remove. If not set, all handlers for the event are removed
+   * @returns The EditTree instance
+   */
+  off<K extends ChartEventName>(event: K, handler?: ChartEventHandler<K>) {
+    this.store.events.off(event, handler)
+    return this
+  }
+
+  /**
+   * Set the max number of history entries
+   * @param max_depth - The max number of entries. Oldest entries are dropped. Default is 100
+   * @returns The EditTree instance
+   */
+  setHistoryMaxDepth(max_depth: number) {
+    this.history.setMaxDepth(max_depth)
+    this.history.controls.updateButtons()
+    return this
+  }
+
+  /**
+   * Persist history, so it is not lost on page reload
+   * @param storage - Storage adapter with load and save methods, e.g. f3.createLocalStorageHistoryStorage('my-tree')
+   * @returns The EditTree instance
+   */
+  setHistoryStorage(storage: HistoryStorage | null) {
+    this.history.setStorage(storage).then(() => this.history && this.history.controls.updateButtons())
+    return this
+  }
   
   setPostSubmit(postSubmit: EditTree['postSubmit']) {
     this.postSubmit = postSubmit
@@ -8,8 +8,14 @@ import {
   RelReferenceFieldCreator,
   SelectFieldCreator,
   RelReferenceField,
-  SelectField
+  SelectField,
+  UnionFieldCreator,
+  UnionField
 } from "../types/form"
+import { getUnion, UNION_TYPES } from "../store/union"
+import { getFieldType, CustomField } from "../features/field-types"
+import { getFieldValidation } from "../store/validate-form"
+import { setFormErrors } from "../renderers/create-form-html"
 
 
 export function formCreatorSetup({
@@ -21,6 +27,8 @@ export function formCreatorSetup({
   removeRelative,
   deletePerson,
   onCancel,
+  onChangeStart,
+  onChangeCancel,
   editFirst,
   link_existing_rel_config,
   onFormCreation,
@@ -45,6 +53,7 @@ export function formCreatorSetup({
     onFormCreation: onFormCreation,
     no_edit: no_edit,
     gender_field: getGenderField(),
+    warnings: store.getConsistencyIssues(datum.id).map(issue => issue.message),
   }
 
   // Existing datum form creator
@@ -82,14 +91,17 @@ export function formCreatorSetup({
   else if (editFirst) form_creator.editable = true
 
   fields.forEach(field => {
-    if (field.type === 'rel_reference') addRelReferenceField(field)
+    if (getFieldType(field.type)) addCustomField(field)
+    else if (field.type === 'rel_reference') addRelReferenceField(field)
     else if (field.type === 'select') addSelectField(field)
+    else if (field.type === 'union') addUnionFields(field)
 
     else form_creator.fields.push({
       id: field.id,
       type: field.type,
       label: field.label,
       initial_value: datum.data[field.id],
+      ...getFieldValidation(field),
     })
   })
 
@@ -102,7 +114,7 @@ export function formCreatorSetup({
       label: 'Gender',
       initial_value: datum.data.gender,
       disabled: false,
-      options: [{value: 'M', label: 'Male'}, {value: 'F', label: 'Female'}]
+      options: [{value: 'M', label: 'Male'}, {value: 'F', label: 'Female'}, {value: 'U', label: 'Other'}]
     }
   }
 
@@ -128,6 +140,35 @@ export function formCreatorSetup({
     }
   }
 
+  function addUnionFields(field: UnionFieldCreator) {
+    if (!field.getRelLabel) console.error('getRelLabel is not set');
+
+    (datum.rels.spouses || []).forEach(spouse_id => {
+      const spouse = store.getDatum(spouse_id)
+      if (!spouse) throw new Error('Spouse not found')
+      const union_field: UnionField = {
+        id: `${field.id}__${spouse_id}`,
+        type: 'union',
+        label: field.label,
+        rel_id: spouse_id,
+        rel_label: field.getRelLabel(spouse),
+        initial_value: getUnion(datum, spouse_id) || {},
+        type_options: field.type_options || UNION_TYPES,
+      }
+      form_creator.fields.push(union_field)
+    })
+  }
+
+  function addCustomField(field: CustomField) {
+    const custom_field: CustomField = {
+      ...field,
+      datum_id: datum.id,
+      initial_value: datum.data[field.id],
+    }
+    if (field.optionCreator) custom_field.options = field.optionCreator(datum)
+    form_creator.fields.push(custom_field)
+  }
+
   function addSelectField(field: SelectFieldCreator) {
     if (!field.options && !field.optionCreator) return console.error('optionCreator or options is not set for field', field)
     const select_field: SelectField = {
@@ -137,6 +178,7 @@ export function formCreatorSetup({
       initial_value: datum.data[field.id],
       placeholder: field.placeholder,
       options: field.options || field.optionCreator!(datum),
+      ...getFieldValidation(field),
     }
     form_creator.fields.push(select_field)
   }
@@ -162,13 +204,17 @@ export function formCreatorSetup({
       onSubmit(e, datum, applyChanges, () => postSubmitHandler({}))
     } else {
       e.preventDefault()
-      applyChanges()
-      postSubmitHandler({})
+      if (applyChanges()) postSubmitHandler({})
     }
 
     function applyChanges() {
-      const form_data = new FormData(e.target as HTMLFormElement)
-      submitFormData(datum, store.getData(), form_data)
+      const form = e.target as HTMLFormElement
+      const form_data = new FormData(form)
+      if (onChangeStart) onChangeStart()
+      const {success, errors} = submitFormData(datum, store.getData(), form_data, form_creator.fields)
+      setFormErrors(form, errors)
+      if (!success && onChangeCancel) onChangeCancel()
+      return success
     }
   }
 
@@ -3,6 +3,8 @@ import { TreeDatum } from "../types/treeData"
 import { Store } from "../types/store"
 import { Datum } from "../types/data"
 import { Modal } from "../features/modal"
+import { removeUnion } from "../store/union"
+import { removeParentRelation } from "../store/parent-relation"
 
 export default (
   store: RemoveRelative['store'],
@@ -73,6 +75,7 @@ export class RemoveRelative {
         if (!parent.rels.children) throw new Error('Parent has no children')
         parent.rels.children = parent.rels.children.filter(id => id !== datum.id)
         rels.parents = rels.parents.filter(id => id !== rel_id)
+        removeParentRelation(datum, rel_id)
         onAccept()
       }
   
@@ -92,8 +95,8 @@ export class RemoveRelative {
         }
   
         function openModal(this: RemoveRelative) {
-          const current_gender_class = datum.data.gender === 'M' ? 'f3-male-bg' : datum.data.gender === 'F' ? 'f3-female-bg' : null
-          const spouse_gender_class = spouse.data.gender === 'M' ? 'f3-male-bg' : spouse.data.gender === 'F' ? 'f3-female-bg' : null
+          const current_gender_class = datum.data.gender === 'M' ? 'f3-male-bg' : datum.data.gender === 'F' ? 'f3-female-bg' : 'f3-genderless-bg'
+          const spouse_gender_class = spouse.data.gender === 'M' ? 'f3-male-bg' : spouse.data.gender === 'F' ? 'f3-female-bg' : 'f3-genderless-bg'
     
           const div = d3.create('div').html(`
             <p>You are removing a spouse relationship. Since there are shared children, please choose which parent should keep them in the family tree.</p>
@@ -118,13 +121,15 @@ export class RemoveRelative {
         
         function remove(to_current: boolean) {
           rel_tree_datum.data.rels.spouses = rel_tree_datum.data.rels.spouses!.filter(id => id !== datum.id)
-          rels.spouses = rels.spouses!.filter(id => id !== rel_tree_datum.data.id);
+          rels.spouses = rels.spouses!.filter(id => id !== rel_tree_datum.data.id)
+          removeUnion(datum, rel_tree_datum.data);
           const childrens_parent = to_current ? datum : rel_tree_datum.data
           const other_parent = to_current ? rel_tree_datum.data : datum;
           (rels.children || []).forEach(id => {
             const child = store.getDatum(id)
             if (!child) throw new Error('Child not found')
             if (child.rels.parents.includes(other_parent.id)) child.rels.parents = child.rels.parents.filter(id => id !== other_parent.id)
+            removeParentRelation(child, other_parent.id)
           })
           if (other_parent.rels.children) {
             other_parent.rels.children = other_parent.rels.children.filter(ch_id => !(childrens_parent.rels.children || []).includes(ch_id))
@@ -137,6 +142,7 @@ export class RemoveRelative {
         if (!rels.children) throw new Error('Children not found')
         rels.children = rels.children.filter(id => id !== rel_tree_datum.data.id)
         rel_tree_datum.data.rels.parents = rel_tree_datum.data.rels.parents.filter(id => id !== datum.id)
+        removeParentRelation(rel_tree_datum.data, datum.id)
         onAccept()
       }
   
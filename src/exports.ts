@@ -4,6 +4,8 @@ export type * from './types/index'
 export { default as createStore } from "./store/store"
 export { default as view } from "./renderers/view"
 export { default as createSvg } from "./renderers/svg"
+export { default as calculateFan } from "./layout/calculate-fan"
+export { default as calculateTimeline } from "./layout/calculate-timeline"
 export * as handlers from './handlers'
 export * as elements from './elements'
 // export * as htmlHandlers from './renderers/html'  // handled in deprecated section
@@ -13,6 +15,22 @@ export { default as cardSvg } from './core/cards/card-svg'
 export { default as cardHtml } from './core/cards/card-html'
 
 export { formatData, formatDataForExport } from "./store/format-data"
+export { validateData, repairData } from "./store/validate-data"
+export { getUnion, setUnion, sortSpousesByUnionDate } from "./store/union"
+export { parseDate, formatDate, compareDates, sortByDate, getDateRange, getDatumDate } from "./store/date"
+export { checkConsistency, CONSISTENCY_RULES } from "./store/consistency"
+export { registerFieldType } from "./features/field-types"
+export { findLikelyDuplicates } from "./store/find-duplicates"
+export { mergePersons, getMergeConflicts } from "./store/merge"
+export { findPath } from "./features/kinships/find-path"
+export { default as createSearchIndex } from "./store/search-index"
+export { serializeUrlState, parseUrlState } from "./features/url-state"
+export { getParentRelationType, setParentRelationType } from "./store/parent-relation"
+export { unionLinkSpouseText } from "./features/link-spouse-text"
+export { createLocalStorageHistoryStorage } from "./features/history"
+export { calculatePrintLayout } from "./features/print"
+export { parseGedcom } from "./features/gedcom/gedcom-import"
+export { serializeGedcom } from "./features/gedcom/gedcom-export"
 
 
 
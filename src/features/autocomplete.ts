@@ -22,6 +22,7 @@ class Autocomplete {
     placeholder?: string
   }
   getOptions?: () => Autocomplete['options']
+  searchOptions?: (query: string, options: Autocomplete['options']) => Autocomplete['options']
 
   constructor(cont: HTMLElement, onSelect: (value: string) => void, config: {
     placeholder?: string
@@ -86,6 +87,12 @@ class Autocomplete {
     function activateDropdown() {
       search_cont.classed("active", true)
       const search_input_value = search_input.property("value")
+      if (self.searchOptions && search_input_value.trim()) {
+        const ranked_options = self.searchOptions(search_input_value, self.options)
+        ranked_options.forEach(setHtmlLabel)
+        updateDropdown(ranked_options)
+        return
+      }
       const filtered_options = self.options.filter(d => d.label.toLowerCase().includes(search_input_value.toLowerCase()))
       filtered_options.forEach(setHtmlLabel)
       filtered_options.sort(sortByLabel)
@@ -169,6 +176,14 @@ class Autocomplete {
     return this
   }
   
+  /**
+   * Filter and rank options with a custom search instead of matching the query against option labels
+   */
+  setOptionsSearch(searchOptions: Autocomplete['searchOptions']) {
+    this.searchOptions = searchOptions
+    return this
+  }
+  
   setOptionsGetterPerson(getData: () => Datum[], getLabel: (d: Datum) => string) {
     this.getOptions = () => {
       const options: Autocomplete['options'] = []
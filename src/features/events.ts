@@ -0,0 +1,211 @@
+import { Data, Datum } from "../types/data"
+
+export interface PersonEvent {
+  datum_id: Datum['id']
+  before: Datum | null
+  after: Datum | null
+}
+
+export interface RelationEvent {
+  /** child for parent relation, any of the spouses for spouse relation */
+  datum_id: Datum['id']
+  /** parent for parent relation, other spouse for spouse relation */
+  rel_id: Datum['id']
+  rel_type: 'parent' | 'spouse'
+}
+
+export interface MainChangedEvent {
+  datum_id: Datum['id']
+  before: Datum['id'] | null
+}
+
+export interface ChartEventMap {
+  'person:added': PersonEvent
+  'person:updated': PersonEvent
+  'person:deleted': PersonEvent
+  'relation:linked': RelationEvent
+  'relation:unlinked': RelationEvent
+  'main:changed': MainChangedEvent
+}
+
+export type ChartEventName = keyof ChartEventMap
+export type ChartEventHandler<K extends ChartEventName> = (event: ChartEventMap[K]) => void
+
+export interface ChartEvents {
+  on: <K extends ChartEventName>(event: K, handler: ChartEventHandler<K>) => void
+  off: <K extends ChartEventName>(event: K, handler?: ChartEventHandler<K>) => void
+  emit: <K extends ChartEventName>(event: K, payload: ChartEventMap[K]) => void
+}
+
+export function createEvents(): ChartEvents {
+  const handlers: {[K in ChartEventName]: ChartEventHandler<K>[]} = {
+    'person:added': [],
+    'person:updated': [],
+    'person:deleted': [],
+    'relation:linked': [],
+    'relation:unlinked': [],
+    'main:changed': [],
+  }
+
+  return {
+    on(event, handler) {
+      handlers[event].push(handler)
+    },
+    off(event, handler) {
+      const event_handlers = handlers[event]
+      for (let i = event_handlers.length - 1; i >= 0; i--) {
+        if (!handler || event_handlers[i] === handler) event_handlers.splice(i, 1)
+      }
+    },
+    emit(event, payload) {
+      // copy, so handlers can call off
+      handlers[event].slice().forEach(handler => {
+        try {
+          handler(payload)
+        } catch (e) {
+          console.error(`error in ${event} handler`, e)
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Record the given people and their relatives before a change. The returned function emits
+ * person and relation events for them and for people that were added by the change.
+ * Only these people are compared, so the cost doesn't grow with the size of the data.
+ * @param ids - people that are changed, e.g. the edited person, or both people of a merge
+ * @returns function to call after the change
+ */
+export function trackChanges(events: ChartEvents, data: Data, ids: Datum['id'][]) {
+  const before: Record<Datum['id'], Datum> = {}
+  getScope(data, ids).forEach(d => before[d.id] = copy(d))
+  const existing_ids = new Set(data.filter(isPerson).map(d => d.id))
+
+  return function emitChanges() {
+    const after: Record<Datum['id'], Datum> = {}
+    const scope_ids = new Set([...Object.keys(before), ...ids])
+    getScope(data, ids).forEach(d => scope_ids.add(d.id))
+    scope_ids.forEach(id => {
+      const d = data.find(d0 => d0.id === id)
+      if (d) after[id] = d
+    })
+    const isPersonBefore = (id: Datum['id']) => existing_ids.has(id)
+    const isPersonAfter = (id: Datum['id']) => !!after[id] && isPerson(after[id])
+
+    const added_ids = [...scope_ids].filter(id => !isPersonBefore(id) && isPersonAfter(id))
+    const deleted_ids = [...scope_ids].filter(id => isPersonBefore(id) && !isPersonAfter(id))
+    // relations of other people in the scope didn't change
+    const changed_ids = [...ids, ...added_ids, ...deleted_ids]
+
+    added_ids.forEach(id => events.emit('person:added', {datum_id: id, before: null, after: copyPerson(after[id], isPersonAfter)}))
+    scope_ids.forEach(id => {
+      if (!isPersonBefore(id) || !isPersonAfter(id)) return
+      const prev = copyPerson(before[id], isPersonBefore)
+      const next = copyPerson(after[id], isPersonAfter)
+      if (getPersonJson(prev) !== getPersonJson(next)) events.emit('person:updated', {datum_id: id, before: prev, after: next})
+    })
+
+    const before_relations = getRelations(changed_ids.map(id => before[id]).filter(d => d && isPersonBefore(d.id)), isPersonBefore)
+    const after_relations = getRelations(changed_ids.map(id => after[id]).filter(d => d && isPersonAfter(d.id)), isPersonAfter)
+    Object.keys(before_relations).forEach(key => {
+      if (!after_relations[key]) events.emit('relation:unlinked', before_relations[key])
+    })
+    Object.keys(after_relations).forEach(key => {
+      if (!before_relations[key]) events.emit('relation:linked', after_relations[key])
+    })
+
+    deleted_ids.forEach(id => {
+      if (before[id]) events.emit('person:deleted', {datum_id: id, before: copyPerson(before[id], isPersonBefore), after: null})
+    })
+  }
+}
+
+/**
+ * Compare two data states and emit person and relation events for the differences.
+ * Used when data is replaced as a whole, e.g. on history undo and redo. Datums are passed as copies, so handlers can keep them.
+ */
+export function emitDataChanges(events: ChartEvents, before: Data, after: Data) {
+  const before_by_id: Record<Datum['id'], Datum> = {}
+  const after_by_id: Record<Datum['id'], Datum> = {}
+  before.forEach(d => before_by_id[d.id] = d)
+  after.forEach(d => after_by_id[d.id] = d)
+
+  after.forEach(d => {
+    const prev = before_by_id[d.id]
+    if (!prev) events.emit('person:added', {datum_id: d.id, before: null, after: copy(d)})
+    else if (getPersonJson(prev) !== getPersonJson(d)) events.emit('person:updated', {datum_id: d.id, before: copy(prev), after: copy(d)})
+  })
+
+  const before_relations = getRelations(before, id => !!before_by_id[id])
+  const after_relations = getRelations(after, id => !!after_by_id[id])
+  Object.keys(before_relations).forEach(key => {
+    if (!after_relations[key]) events.emit('relation:unlinked', before_relations[key])
+  })
+  Object.keys(after_relations).forEach(key => {
+    if (!before_relations[key]) events.emit('relation:linked', after_relations[key])
+  })
+
+  before.forEach(d => {
+    if (!after_by_id[d.id]) events.emit('person:deleted', {datum_id: d.id, before: copy(d), after: null})
+  })
+}
+
+// relations of the given people, both directions are read so relatives outside the list are covered
+function getRelations(data: Data, isPerson: (id: Datum['id']) => boolean) {
+  const relations: Record<string, RelationEvent> = {}
+  const addParent = (child_id: Datum['id'], parent_id: Datum['id']) => {
+    if (!isPerson(child_id) || !isPerson(parent_id)) return
+    relations[`parent:${child_id}:${parent_id}`] = {datum_id: child_id, rel_id: parent_id, rel_type: 'parent'}
+  }
+  data.forEach(d => {
+    d.rels.parents.forEach(p_id => addParent(d.id, p_id));
+    (d.rels.children || []).forEach(ch_id => addParent(ch_id, d.id));
+    (d.rels.spouses || []).forEach(sp_id => {
+      if (!isPerson(sp_id)) return
+      const [id1, id2] = [d.id, sp_id].sort()
+      relations[`spouse:${id1}:${id2}`] = {datum_id: id1, rel_id: id2, rel_type: 'spouse'}
+    })
+  })
+  return relations
+}
+
+// the people and their relatives
+function getScope(data: Data, ids: Datum['id'][]) {
+  const scope_ids = new Set<Datum['id']>()
+  ids.forEach(id => {
+    const d = data.find(d0 => d0.id === id)
+    if (!d) return
+    scope_ids.add(id);
+    [...d.rels.parents, ...(d.rels.spouses || []), ...(d.rels.children || [])].forEach(rel_id => scope_ids.add(rel_id))
+  })
+  return data.filter(d => scope_ids.has(d.id))
+}
+
+// placeholders are not part of exported data, so they don't get events
+function isPerson(d: Datum) {
+  return !d.to_add && !d._new_rel_data
+}
+
+// same as in exported data: no chart state and no links to placeholders
+function copyPerson(d: Datum, isPerson: (id: Datum['id']) => boolean): Datum {
+  const datum = copy(d)
+  delete datum.main
+  delete datum._tgdp
+  delete datum._tgdp_sp
+  delete datum.__tgdp_sp
+  datum.rels.parents = datum.rels.parents.filter(isPerson)
+  datum.rels.spouses = (datum.rels.spouses || []).filter(isPerson)
+  datum.rels.children = (datum.rels.children || []).filter(isPerson)
+  return datum
+}
+
+// everything except relationship lists, which are covered by relation events
+function getPersonJson(d: Datum) {
+  const {parents, spouses, children, ...rels_meta} = d.rels
+  return JSON.stringify({...d, rels: rels_meta})
+}
+
+function copy<T>(data: T): T {
+  return JSON.parse(JSON.stringify(data))
+}
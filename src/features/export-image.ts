@@ -0,0 +1,228 @@
+import { Tree } from "../layout/calculate-tree"
+
+export interface ExportSvgOptions {
+  /** background color. default is background color of the chart container */
+  background?: string
+  /** space around the tree in px. default 20 */
+  padding?: number
+}
+
+export interface ExportPngOptions extends ExportSvgOptions {
+  /** pixel ratio of the image. default 2 */
+  scale?: number
+}
+
+const SVG_STYLE_PROPS = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-opacity', 'stroke-linecap',
+  'opacity', 'display', 'visibility', 'font-family', 'font-size', 'font-weight', 'font-style',
+  'text-anchor', 'dominant-baseline', 'alignment-baseline', 'clip-path', 'mask'
+]
+
+/**
+ * Serialize the whole rendered view to standalone svg. Html cards are added in foreignObject.
+ * Styles from css are inlined, so the svg can be opened without family-chart.css.
+ * @param cont - chart container
+ * @param dim - bounds of the rendered view, tree.dim for the tree, fan.dim or timeline.dim for the other views
+ * @param options - background and padding
+ * @returns svg markup
+ */
+export function exportSvg(cont: HTMLElement, dim: Tree['dim'], options: ExportSvgOptions = {}) {
+  return new XMLSerializer().serializeToString(createExportSvg(cont, dim, options))
+}
+
+/**
+ * Render the whole rendered view to png.
+ * Images in html cards are fetched and inlined, images that can't be fetched (CORS) are left out.
+ * Some browsers don't allow reading canvas after drawing svg with foreignObject, then the promise is rejected and exportSvg can be used instead.
+ * @param cont - chart container
+ * @param dim - bounds of the rendered view, tree.dim for the tree, fan.dim or timeline.dim for the other views
+ * @param options - scale, background and padding
+ * @returns png blob
+ */
+export function exportPng(cont: HTMLElement, dim: Tree['dim'], options: ExportPngOptions = {}): Promise<Blob> {
+  const scale = options.scale || 2
+  const svg = createExportSvg(cont, dim, options)
+  const width = +svg.getAttribute('width')!
+  const height = +svg.getAttribute('height')!
+
+  return inlineImages(svg)
+    .then(() => {
+      const svg_str = new XMLSerializer().serializeToString(svg)
+      return loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg_str)}`)
+    })
+    .then(img => {
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('canvas 2d context not available')
+      ctx.scale(scale, scale)
+      ctx.drawImage(img, 0, 0, width, height)
+      return new Promise<Blob>((resolve, reject) => {
+        try {
+          canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('png could not be created')), 'image/png')
+        } catch (e) {
+          if (e instanceof Error && e.name === 'SecurityError') {
+            reject(new Error('png could not be created, browser blocks reading canvas with html cards (foreignObject). Use exportSvg or svg cards instead'))
+          } else {
+            reject(e)
+          }
+        }
+      })
+    })
+}
+
+/**
+ * Create svg element of the whole rendered view with inlined styles. Used by exportSvg, exportPng and print.
+ * Html cards are left out while they are hidden, e.g. when the fan or timeline is shown.
+ */
+export function createExportSvg(cont: HTMLElement, dim: Tree['dim'], options: ExportSvgOptions) {
+  const svg = cont.querySelector('svg.main_svg') as SVGSVGElement
+  if (!svg) throw new Error('svg not found')
+  const html_view = cont.querySelector('#htmlSvg .cards_view') as HTMLElement | null
+  const padding = options.hasOwnProperty('padding') ? options.padding! : 20
+  const width = dim.width + padding*2
+  const height = dim.height + padding*2
+  const translate = `translate(${dim.x_off + padding}, ${dim.y_off + padding})`
+  const background = options.background || getComputedStyle(cont).backgroundColor
+
+  const svg_clone = svg.cloneNode(true) as SVGSVGElement
+  inlineStyles(svg, svg_clone, SVG_STYLE_PROPS)
+
+  svg_clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  svg_clone.setAttribute('width', `${width}`)
+  svg_clone.setAttribute('height', `${height}`)
+  svg_clone.setAttribute('viewBox', `0 0 ${width} ${height}`)
+  svg_clone.removeAttribute('style')
+  Array.from(svg_clone.children).forEach(el => {
+    if (!el.classList.contains('view')) el.remove()
+  })
+
+  const bg = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+  bg.setAttribute('width', `${width}`)
+  bg.setAttribute('height', `${height}`)
+  bg.setAttribute('fill', background)
+  svg_clone.insertBefore(bg, svg_clone.firstChild)
+
+  const view = svg_clone.querySelector('.view') as SVGGElement
+  view.style.removeProperty('transform')
+  view.setAttribute('transform', translate)
+
+  if (html_view && html_view.children.length > 0 && getComputedStyle(html_view).visibility !== 'hidden') {
+    const html_clone = html_view.cloneNode(true) as HTMLElement
+    const default_styles = createDefaultStyles()
+    inlineHtmlStyles(html_view, html_clone, default_styles.get)
+    default_styles.remove()
+    html_clone.style.transform = `translate(${dim.x_off + padding}px, ${dim.y_off + padding}px)`
+    html_clone.style.transformOrigin = '0 0'
+    html_clone.style.position = 'absolute'
+    html_clone.style.top = '0'
+    html_clone.style.left = '0'
+
+    const foreign_object = document.createElementNS('http://www.w3.org/2000/svg', 'foreignObject')
+    foreign_object.setAttribute('width', `${width}`)
+    foreign_object.setAttribute('height', `${height}`)
+    const wrapper = document.createElementNS('http://www.w3.org/1999/xhtml', 'div')
+    wrapper.setAttribute('style', `position: relative; width: ${width}px; height: ${height}px;`)
+    wrapper.appendChild(html_clone)
+    foreign_object.appendChild(wrapper)
+    svg_clone.appendChild(foreign_object)
+  }
+
+  return svg_clone
+}
+
+// copy computed styles of original elements to the clone, so the export doesn't depend on stylesheets
+function inlineStyles(original: Element, clone: Element, props: string[]) {
+  const computed = getComputedStyle(original)
+  const clone_style = (clone as SVGElement).style
+  props.forEach(prop => {
+    const value = computed.getPropertyValue(prop)
+    if (value) clone_style.setProperty(prop, value)
+  })
+  for (let i = 0; i < original.children.length; i++) {
+    if (clone.children[i]) inlineStyles(original.children[i], clone.children[i], props)
+  }
+}
+
+// html cards can use any css, so all properties are checked, but only values that differ from browser defaults are copied.
+// values that differ from the parent are copied too, otherwise the clone would inherit them
+export function inlineHtmlStyles(original: Element, clone: Element, getDefaultStyle: (tag_name: string) => Record<string, string>, parent_computed?: CSSStyleDeclaration) {
+  const computed = getComputedStyle(original)
+  const default_style = getDefaultStyle(original.tagName)
+  const clone_style = (clone as HTMLElement).style
+  for (let i = 0; i < computed.length; i++) {
+    const prop = computed[i]
+    if (prop === 'transition' || prop.startsWith('transition-') || prop.startsWith('animation')) continue
+    const value = computed.getPropertyValue(prop)
+    if (value === default_style[prop] && (!parent_computed || value === parent_computed.getPropertyValue(prop))) continue
+    clone_style.setProperty(prop, value)
+  }
+  for (let i = 0; i < original.children.length; i++) {
+    if (clone.children[i]) inlineHtmlStyles(original.children[i], clone.children[i], getDefaultStyle, computed)
+  }
+}
+
+// computed styles of elements in an empty iframe, where no stylesheets apply
+export function createDefaultStyles() {
+  const iframe = document.createElement('iframe')
+  iframe.setAttribute('aria-hidden', 'true')
+  iframe.style.cssText = 'position: absolute; width: 0; height: 0; border: 0; visibility: hidden;'
+  document.body.appendChild(iframe)
+  const win = iframe.contentWindow!
+  const doc = win.document
+  const body = doc.body || doc.documentElement.appendChild(doc.createElement('body'))
+  const styles: Record<string, Record<string, string>> = {}
+
+  return {
+    get(tag_name: string) {
+      if (!styles[tag_name]) {
+        const el = doc.createElement(tag_name)
+        body.appendChild(el)
+        const computed = win.getComputedStyle(el)
+        const style: Record<string, string> = {}
+        for (let i = 0; i < computed.length; i++) style[computed[i]] = computed.getPropertyValue(computed[i])
+        el.remove()
+        styles[tag_name] = style
+      }
+      return styles[tag_name]
+    },
+    remove() {
+      iframe.remove()
+    }
+  }
+}
+
+function inlineImages(svg: SVGSVGElement) {
+  const images = Array.from(svg.querySelectorAll('img, image')) as (HTMLImageElement | SVGImageElement)[]
+  return Promise.all(images.map(img => {
+    const src = img instanceof HTMLImageElement ? img.src : img.getAttribute('href') || img.getAttribute('xlink:href')
+    if (!src || src.startsWith('data:')) return Promise.resolve()
+    return fetch(src)
+      .then(res => res.blob())
+      .then(blobToDataUrl)
+      .then(data_url => {
+        if (img instanceof HTMLImageElement) img.src = data_url
+        else img.setAttribute('href', data_url)
+      })
+      .catch(() => img.remove())
+  }))
+}
+
+export function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = reject
+    reader.readAsDataURL(blob)
+  })
+}
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('svg could not be rendered'))
+    img.src = src
+  })
+}
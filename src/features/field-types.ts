@@ -0,0 +1,206 @@
+import { Datum } from "../types/data"
+import { blobToDataUrl } from "./export-image"
+
+/**
+ * Form field of a registered type. Options of the field creator (e.g. options of multi_select) are kept on the field.
+ * initial_value is the value from datum.data as it is stored, not a string.
+ */
+export interface CustomField {
+  id: string
+  type: string
+  label: string
+  initial_value: any
+  placeholder?: string
+  [key: string]: any
+}
+
+/**
+ * Field type of the edit form. Only render is required, other functions have defaults for a single text value.
+ */
+export interface FieldType {
+  /** html of the input. value of the input is submitted under field.id */
+  render: (field: CustomField) => string
+  /** html of the value when the form is not editable. default is the stored value */
+  renderInfo?: (field: CustomField) => string
+  /** all form values submitted under field.id to the value stored in datum.data. undefined removes the value. default is the first value */
+  parse?: (values: FormDataEntryValue[], field: CustomField) => any
+  /** error message for the parsed value, null if it is valid */
+  validate?: (value: any, field: CustomField) => string | null
+  /** stored value to the text used in inputs and info. default is String(value) */
+  serialise?: (value: any, field: CustomField) => string
+  /** called with the element of the field every time the form is rendered, e.g. to add event listeners */
+  setup?: (el: HTMLElement, field: CustomField) => void
+}
+
+const field_types: Record<string, FieldType> = {}
+
+/**
+ * Register a field type, so fields with {type} in EditTree.setFields are rendered and submitted with it.
+ * Built-in types can be replaced.
+ * @example
+ * f3.registerFieldType('color', {render: field => `<input type="color" name="${field.id}" value="${field.initial_value || '#000000'}">`})
+ */
+export function registerFieldType(type: string, field_type: FieldType) {
+  field_types[type] = field_type
+}
+
+export function getFieldType(type: string): FieldType | undefined {
+  return field_types[type]
+}
+
+export function serialiseFieldValue(field: CustomField) {
+  const field_type = getFieldType(field.type)
+  if (field.initial_value === undefined || field.initial_value === null) return ''
+  if (field_type && field_type.serialise) return field_type.serialise(field.initial_value, field)
+  return String(field.initial_value)
+}
+
+export function parseFieldValue(field: CustomField, values: FormDataEntryValue[]) {
+  const field_type = getFieldType(field.type)
+  if (field_type && field_type.parse) return field_type.parse(values, field)
+  return values.length > 0 ? values[0] : undefined
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+}
+
+function inputAttrs(field: CustomField) {
+  return `name="${field.id}" value="${escapeHtml(serialiseFieldValue(field))}" placeholder="${escapeHtml(field.placeholder || field.label)}"`
+}
+
+function firstText(values: FormDataEntryValue[]) {
+  const value = values.length > 0 ? String(values[0]).trim() : ''
+  return value === '' ? undefined : value
+}
+
+registerFieldType('number', {
+  render: field => `<input type="number" ${inputAttrs(field)} step="${field.step || 'any'}"${field.min !== undefined ? ` min="${field.min}"` : ''}${field.max !== undefined ? ` max="${field.max}"` : ''}>`,
+  parse: values => {
+    const value = firstText(values)
+    return value === undefined ? undefined : Number(value)
+  },
+  validate: (value, field) => {
+    if (value === undefined) return null
+    if (isNaN(value)) return 'Must be a number'
+    if (field.min !== undefined && value < field.min) return `Must be at least ${field.min}`
+    if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`
+    return null
+  },
+})
+
+registerFieldType('checkbox', {
+  render: field => `<input type="checkbox" name="${field.id}" value="true" ${field.initial_value ? 'checked' : ''}>`,
+  renderInfo: field => field.initial_value ? 'Yes' : 'No',
+  parse: values => values.length > 0,
+})
+
+registerFieldType('url', {
+  render: field => `<input type="url" ${inputAttrs(field)}>`,
+  renderInfo: field => {
+    const url = serialiseFieldValue(field)
+    return url ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(url)}</a>` : ''
+  },
+  parse: firstText,
+  validate: value => {
+    if (value === undefined) return null
+    return /^https?:\/\/[^\s/$.?#][^\s]*$/i.test(value) ? null : 'Must be a link starting with http:// or https://'
+  },
+})
+
+registerFieldType('email', {
+  render: field => `<input type="email" ${inputAttrs(field)}>`,
+  renderInfo: field => {
+    const email = serialiseFieldValue(field)
+    return email ? `<a href="mailto:${escapeHtml(email)}">${escapeHtml(email)}</a>` : ''
+  },
+  parse: firstText,
+  validate: value => {
+    if (value === undefined) return null
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : 'Must be an email address'
+  },
+})
+
+// options: {value, label}[] or optionCreator: (datum) => {value, label}[]. value is stored as an array of option values
+registerFieldType('multi_select', {
+  render: field => {
+    const selected: string[] = field.initial_value || []
+    return `
+      <div class="f3-multi-select">
+        ${getOptions(field).map(option => `
+          <label>
+            <input type="checkbox" name="${field.id}" value="${escapeHtml(option.value)}" ${selected.includes(option.value) ? 'checked' : ''}>
+            ${escapeHtml(option.label)}
+          </label>
+        `).join('')}
+      </div>`
+  },
+  parse: values => values.length > 0 ? values.map(String) : undefined,
+  serialise: (value, field) => {
+    const options = getOptions(field)
+    return (value as string[]).map(v => options.find(option => option.value === v)?.label || v).join(', ')
+  },
+})
+
+// value is a data url, or url returned by field.upload(file, datum_id) when it is set
+registerFieldType('image', {
+  render: field => {
+    const src = serialiseFieldValue(field)
+    return `
+      <div class="f3-image-field">
+        <img src="${escapeHtml(src)}" ${src ? '' : 'style="display: none;"'}>
+        <input type="file" accept="${field.accept || 'image/*'}">
+        <input type="hidden" name="${field.id}" value="${escapeHtml(src)}">
+        <button type="button" class="f3-image-remove-btn" ${src ? '' : 'style="display: none;"'}>Remove</button>
+      </div>`
+  },
+  renderInfo: field => {
+    const src = serialiseFieldValue(field)
+    return src ? `<img class="f3-image-field-value" src="${escapeHtml(src)}">` : ''
+  },
+  parse: firstText,
+  setup: (el, field) => {
+    const file_input = el.querySelector('input[type="file"]') as HTMLInputElement
+    const value_input = el.querySelector('input[type="hidden"]') as HTMLInputElement
+    const img = el.querySelector('img') as HTMLImageElement
+    const remove_btn = el.querySelector('.f3-image-remove-btn') as HTMLButtonElement
+    if (!file_input) return
+
+    file_input.addEventListener('change', () => {
+      const file = file_input.files ? file_input.files[0] : null
+      if (!file) return
+      if (field.max_size && file.size > field.max_size) return showError(`Image must be smaller than ${Math.round(field.max_size / 1024)} KB`)
+      file_input.disabled = true
+      const upload: (file: File, datum_id: Datum['id']) => Promise<string> = field.upload || blobToDataUrl
+      upload(file, field.datum_id)
+        .then(url => setValue(url))
+        .catch(error => {
+          console.error('image upload failed', error)
+          showError('Image could not be uploaded')
+        })
+        .then(() => file_input.disabled = false)
+    })
+
+    remove_btn.addEventListener('click', () => {
+      file_input.value = ''
+      setValue('')
+    })
+
+    function setValue(url: string) {
+      value_input.value = url
+      img.src = url
+      img.style.display = url ? '' : 'none'
+      remove_btn.style.display = url ? '' : 'none'
+    }
+
+    function showError(error: string) {
+      el.classList.add('f3-form-field-invalid')
+      const error_el = el.querySelector('.f3-form-field-error')
+      if (error_el) error_el.textContent = error
+    }
+  },
+})
+
+function getOptions(field: CustomField): {value: string, label: string}[] {
+  return field.options || []
+}
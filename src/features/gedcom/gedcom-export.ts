@@ -0,0 +1,251 @@
+import { Data, Datum } from "../../types/data"
+import { getUnion } from "../../store/union"
+import { GEDCOM_FIELD_MAP_DEFAULT, GEDCOM_FAMILY_FIELD_MAP_DEFAULT } from "./gedcom-import"
+
+export interface GedcomExportConfig {
+  /** map of datum.data keys to GEDCOM INDI paths (e.g. {'birthday': 'BIRT.DATE'}) */
+  field_map?: Record<string, string>
+  /** map of rel_reference field ids to GEDCOM FAM paths (e.g. {'marriage date': 'MARR.DATE'}) */
+  family_field_map?: Record<string, string>
+  version?: '5.5.1' | '7.0'
+  source?: string
+}
+
+interface Family {
+  id: string
+  partners: Datum[]
+  children: Datum[]
+}
+
+interface PathTree {
+  [tag: string]: {value?: string, children: PathTree}
+}
+
+const MAX_LINE_LENGTH = 255
+
+/**
+ * Serialize family chart data to GEDCOM.
+ * FAM records are created from spouse pairs and from parents of each child.
+ * @param data - family chart data
+ * @param config - mapping of datum.data keys to GEDCOM tags, GEDCOM version and source name for the header
+ * @returns GEDCOM text
+ */
+export function serializeGedcom(data: Data, config: GedcomExportConfig = {}) {
+  const field_map = config.field_map || invertMap(GEDCOM_FIELD_MAP_DEFAULT)
+  const family_field_map = config.family_field_map || invertMap(GEDCOM_FAMILY_FIELD_MAP_DEFAULT)
+  const version = config.version || '5.5.1'
+
+  const persons = data.filter(d => !d.to_add && !d._new_rel_data)
+  const xrefs = createXrefs(persons, version)
+  const families = createFamilies(persons, Object.values(xrefs))
+  const family_links = createFamilyLinks(families)
+
+  const lines: string[] = []
+  addHead()
+  persons.forEach(addIndi)
+  families.forEach(addFam)
+  lines.push('0 TRLR')
+
+  return lines.join('\n') + '\n'
+
+  function addHead() {
+    lines.push('0 HEAD')
+    lines.push('1 GEDC')
+    lines.push(`2 VERS ${version}`)
+    if (version === '5.5.1') {
+      lines.push('2 FORM LINEAGE-LINKED')
+      lines.push('1 CHAR UTF-8')
+    }
+    lines.push(`1 SOUR ${config.source || 'family-chart'}`)
+  }
+
+  function addIndi(d: Datum) {
+    lines.push(`0 ${xrefs[d.id]} INDI`)
+    const path_tree = createPathTree(d)
+    if (path_tree.NAME || hasNameField()) addName(path_tree.NAME)
+    delete path_tree.NAME
+    lines.push(`1 SEX ${d.data.gender === 'M' || d.data.gender === 'F' ? d.data.gender : 'U'}`)
+    addPathTree(path_tree, 1)
+
+    const links = family_links[d.id]
+    if (links) {
+      links.famc.forEach(fam_id => lines.push(`1 FAMC ${fam_id}`))
+      links.fams.forEach(fam_id => lines.push(`1 FAMS ${fam_id}`))
+    }
+
+    function addName(name_node: PathTree[string] | undefined) {
+      const given = name_node?.children.GIVN?.value || ''
+      const surname = name_node?.children.SURN?.value || ''
+      addLine(1, 'NAME', `${given}${surname ? ` /${surname}/` : ''}`.trim())
+      if (name_node) addPathTree(name_node.children, 2)
+    }
+
+    function hasNameField() {
+      return Object.values(field_map).some(path => path.split('.')[0] === 'NAME')
+    }
+  }
+
+  function addFam(fam: Family) {
+    lines.push(`0 ${fam.id} FAM`)
+    const [p1, p2] = fam.partners
+    const husb = p1 && p2 && p1.data.gender === 'F' && p2.data.gender !== 'F' ? p2 : p1
+    const wife = husb === p1 ? p2 : p1
+    if (husb) lines.push(`1 HUSB ${xrefs[husb.id]}`)
+    if (wife) lines.push(`1 WIFE ${xrefs[wife.id]}`)
+    fam.children.forEach(child => lines.push(`1 CHIL ${xrefs[child.id]}`))
+    if (p1 && p2) addPathTree(createFamilyPathTree(p1, p2), 1)
+  }
+
+  function createPathTree(d: Datum) {
+    const path_tree: PathTree = {}
+    Object.keys(field_map).forEach(key => {
+      const value = d.data[key]
+      if (value === undefined || value === null || value === '') return
+      addToPathTree(path_tree, field_map[key], String(value))
+    })
+    return path_tree
+  }
+
+  function createFamilyPathTree(p1: Datum, p2: Datum) {
+    const path_tree: PathTree = {}
+    Object.keys(family_field_map).forEach(field_id => {
+      const value = p1.data[`${field_id}__ref__${p2.id}`] || p2.data[`${field_id}__ref__${p1.id}`]
+      if (!value) return
+      addToPathTree(path_tree, family_field_map[field_id], String(value))
+    })
+    addUnionToPathTree(path_tree, p1, p2)
+    return path_tree
+  }
+
+  // married and divorced unions are written as MARR, partners as EVEN with TYPE Partner. end_date is written as DIV of divorced unions
+  function addUnionToPathTree(path_tree: PathTree, p1: Datum, p2: Datum) {
+    const union = getUnion(p1, p2.id) || getUnion(p2, p1.id)
+    if (!union) return
+    const start_tag = union.type === 'partner' ? 'EVEN' : 'MARR'
+    if (union.type === 'partner') addToPathTree(path_tree, 'EVEN.TYPE', 'Partner')
+    if (union.date) addToPathTree(path_tree, `${start_tag}.DATE`, union.date)
+    else if (union.type && !path_tree[start_tag]) addToPathTree(path_tree, start_tag, 'Y')
+    if (union.type !== 'divorced') return
+    if (union.end_date) addToPathTree(path_tree, 'DIV.DATE', union.end_date)
+    else addToPathTree(path_tree, 'DIV', 'Y')
+  }
+
+  function addPathTree(path_tree: PathTree, level: number) {
+    Object.keys(path_tree).forEach(tag => {
+      const node = path_tree[tag]
+      addLine(level, tag, node.value || '')
+      addPathTree(node.children, level + 1)
+    })
+  }
+
+  function addLine(level: number, tag: string, value: string) {
+    const [first, ...rest] = value.split(/\r\n|\r|\n/)
+    addLineWithConc(level, tag, first)
+    rest.forEach(line_value => addLineWithConc(level + 1, 'CONT', line_value))
+  }
+
+  function addLineWithConc(level: number, tag: string, value: string) {
+    value = escapeValue(value)
+    const prefix = `${level} ${tag}`
+    if (version !== '5.5.1' || prefix.length + 1 + value.length <= MAX_LINE_LENGTH) {
+      lines.push(value ? `${prefix} ${value}` : prefix)
+      return
+    }
+    const chunk_length = MAX_LINE_LENGTH - `${level + 1} CONC `.length
+    const first_length = MAX_LINE_LENGTH - prefix.length - 1
+    lines.push(`${prefix} ${value.slice(0, first_length)}`)
+    for (let i = first_length; i < value.length; i += chunk_length) {
+      lines.push(`${level + 1} CONC ${value.slice(i, i + chunk_length)}`)
+    }
+  }
+}
+
+function createFamilies(persons: Data, person_xrefs: string[]): Family[] {
+  const families: Family[] = []
+  const families_by_key = new Map<string, Family>()
+  const persons_by_id = new Map(persons.map(d => [d.id, d]))
+  const used_xrefs = new Set(person_xrefs)
+  const getPerson = (id: Datum['id']) => persons_by_id.get(id)
+
+  persons.forEach(d => {
+    (d.rels.spouses || []).forEach(sp_id => {
+      const spouse = getPerson(sp_id)
+      if (spouse) findOrCreateFamily([d, spouse])
+    })
+  })
+  persons.forEach(child => {
+    const parents = child.rels.parents.map(getPerson).filter(d => d !== undefined)
+    if (parents.length === 0) return
+    const fam = findOrCreateFamily(parents.slice(0, 2))
+    if (!fam.children.includes(child)) fam.children.push(child)
+  })
+  let i = 0
+  families.forEach(fam => {
+    do i++; while (used_xrefs.has(`@F${i}@`))
+    fam.id = `@F${i}@`
+  })
+
+  return families
+
+  function findOrCreateFamily(partners: Datum[]) {
+    const key = JSON.stringify(partners.map(p => p.id).sort())
+    let fam = families_by_key.get(key)
+    if (!fam) {
+      fam = {id: '', partners, children: []}
+      families.push(fam)
+      families_by_key.set(key, fam)
+    }
+    return fam
+  }
+}
+
+function createFamilyLinks(families: Family[]) {
+  const links: Record<Datum['id'], {famc: string[], fams: string[]}> = {}
+  const getLinks = (d: Datum) => links[d.id] || (links[d.id] = {famc: [], fams: []})
+  families.forEach(fam => {
+    fam.children.forEach(child => getLinks(child).famc.push(fam.id))
+    fam.partners.forEach(partner => getLinks(partner).fams.push(fam.id))
+  })
+  return links
+}
+
+// ids that are valid xrefs are kept, others get generated @I1@ style xrefs. 7.0 allows only uppercase letters, digits and _
+function createXrefs(persons: Data, version: NonNullable<GedcomExportConfig['version']>) {
+  const xrefs: Record<Datum['id'], string> = {}
+  const used = new Set<string>()
+  const valid_xref = version === '7.0' ? /^[A-Z0-9_]{1,20}$/ : /^[A-Za-z0-9_]{1,20}$/
+  persons.forEach(d => {
+    if (valid_xref.test(d.id) && d.id.toUpperCase() !== 'VOID' && !used.has(d.id.toUpperCase())) {
+      xrefs[d.id] = `@${d.id}@`
+      used.add(d.id.toUpperCase())
+    }
+  })
+  let i = 0
+  persons.forEach(d => {
+    if (xrefs[d.id]) return
+    do i++; while (used.has(`I${i}`))
+    xrefs[d.id] = `@I${i}@`
+    used.add(`I${i}`)
+  })
+  return xrefs
+}
+
+function addToPathTree(path_tree: PathTree, path: string, value: string) {
+  const tags = path.split('.')
+  let node: PathTree = path_tree
+  tags.forEach((tag, i) => {
+    if (!node[tag]) node[tag] = {children: {}}
+    if (i === tags.length - 1) node[tag].value = value
+    node = node[tag].children
+  })
+}
+
+function invertMap(map: Record<string, string>) {
+  const inverted: Record<string, string> = {}
+  Object.keys(map).forEach(k => inverted[map[k]] = k)
+  return inverted
+}
+
+function escapeValue(value: string) {
+  return value.replace(/^@/, '@@')
+}
@@ -0,0 +1,296 @@
+import { Data, Datum, Union } from "../../types/data"
+import { setUnion } from "../../store/union"
+
+export interface GedcomNode {
+  level: number
+  xref?: string
+  tag: string
+  value: string
+  line: number
+  children: GedcomNode[]
+}
+
+export interface GedcomIssue {
+  type: 'unmapped_tag' | 'broken_reference' | 'invalid_line' | 'missing_value' | 'invalid_value'
+  line: number
+  record_id?: Datum['id']
+  tag?: string
+  path?: string
+  value?: string
+}
+
+export interface GedcomImportConfig {
+  /** map of GEDCOM INDI paths (e.g. 'BIRT.DATE') to datum.data keys */
+  field_map?: Record<string, string>
+  /** map of GEDCOM FAM paths (e.g. 'MARR.DATE') to rel_reference field ids stored on both spouses */
+  family_field_map?: Record<string, string>
+}
+
+export interface GedcomImportResult {
+  data: Data
+  issues: GedcomIssue[]
+  version: string | null
+}
+
+export const GEDCOM_FIELD_MAP_DEFAULT: Record<string, string> = {
+  'NAME.GIVN': 'first name',
+  'NAME.SURN': 'last name',
+  'BIRT.DATE': 'birthday',
+  'BIRT.PLAC': 'birthplace',
+  'DEAT.DATE': 'death',
+  'DEAT.PLAC': 'deathplace',
+  'OBJE.FILE': 'avatar',
+}
+
+export const GEDCOM_FAMILY_FIELD_MAP_DEFAULT: Record<string, string> = {
+  'MARR.DATE': 'marriage date',
+}
+
+// tags that are used to build the structure of the data and are never reported as unmapped
+const INDI_STRUCTURE_TAGS = ['NAME', 'SEX', 'FAMC', 'FAMS', 'CHAN', 'RIN', 'UID', '_UID']
+const FAM_STRUCTURE_TAGS = ['HUSB', 'WIFE', 'CHIL', 'CHAN', 'RIN', 'UID', '_UID']
+const IGNORED_RECORDS = ['HEAD', 'TRLR', 'SUBM']
+
+/**
+ * Parse GEDCOM 5.5.1 or 7.0 text into family chart data.
+ * INDI records become datums, FAM records are used to set up parents, spouses and children rels.
+ * @param text - GEDCOM file content
+ * @param config - mapping of GEDCOM tags to datum.data keys
+ * @returns data, list of unmapped tags and broken cross-references, and GEDCOM version found in HEAD
+ */
+export function parseGedcom(text: string, config: GedcomImportConfig = {}): GedcomImportResult {
+  const field_map = config.field_map || GEDCOM_FIELD_MAP_DEFAULT
+  const family_field_map = config.family_field_map || GEDCOM_FAMILY_FIELD_MAP_DEFAULT
+  const issues: GedcomIssue[] = []
+  const records = parseGedcomLines(text, issues)
+
+  const data: Data = []
+  const indi_records = records.filter(r => r.tag === 'INDI')
+  const fam_records = records.filter(r => r.tag === 'FAM')
+  const fam_ids = new Set(fam_records.filter(r => r.xref).map(r => xrefToId(r.xref!)))
+  const data_by_id: Record<Datum['id'], Datum> = {}
+
+  indi_records.forEach(record => {
+    if (!record.xref) return issues.push({type: 'invalid_line', line: record.line, tag: record.tag})
+    const datum = indiToDatum(record)
+    data.push(datum)
+    data_by_id[datum.id] = datum
+  })
+  fam_records.forEach(record => {
+    if (!record.xref) return issues.push({type: 'invalid_line', line: record.line, tag: record.tag})
+    handleFamily(record)
+  })
+  records.forEach(record => {
+    if (['INDI', 'FAM', ...IGNORED_RECORDS].includes(record.tag)) return
+    issues.push({type: 'unmapped_tag', line: record.line, tag: record.tag, path: record.tag})
+  })
+
+  return {data, issues, version: getVersion(records)}
+
+  function indiToDatum(record: GedcomNode): Datum {
+    const id = xrefToId(record.xref!)
+    const datum: Datum = {id, data: {gender: getGender(record)}, rels: {parents: [], spouses: [], children: []}}
+    const mapped_paths = Object.keys(field_map)
+
+    setupName(datum, record)
+    record.children.forEach(node => {
+      if (node.tag === 'FAMC' || node.tag === 'FAMS') {
+        if (!isVoid(node.value) && !fam_ids.has(xrefToId(node.value))) {
+          issues.push({type: 'broken_reference', line: node.line, record_id: id, tag: node.tag, value: node.value})
+        }
+        return
+      }
+      mapNode(node, node.tag)
+    })
+
+    return datum
+
+    function mapNode(node: GedcomNode, path: string) {
+      const is_mapped = field_map.hasOwnProperty(path)
+      if (is_mapped && datum.data[field_map[path]] === undefined && node.value) datum.data[field_map[path]] = node.value
+      const is_structure = path === node.tag && INDI_STRUCTURE_TAGS.includes(node.tag)
+      if (is_structure && node.tag !== 'NAME') return
+      if (!is_mapped && !is_structure && !mapped_paths.some(p => p.startsWith(path + '.'))) {
+        issues.push({type: 'unmapped_tag', line: node.line, record_id: id, tag: node.tag, path: `INDI.${path}`})
+        return
+      }
+      node.children.forEach(child => mapNode(child, `${path}.${child.tag}`))
+    }
+  }
+
+  function setupName(datum: Datum, record: GedcomNode) {
+    const name = record.children.find(n => n.tag === 'NAME')
+    if (!name) return
+    const [given, surname] = splitName(name.value)
+    const given_key = field_map['NAME.GIVN']
+    const surname_key = field_map['NAME.SURN']
+    if (given_key && !name.children.find(n => n.tag === 'GIVN') && given) datum.data[given_key] = given
+    if (surname_key && !name.children.find(n => n.tag === 'SURN') && surname) datum.data[surname_key] = surname
+  }
+
+  function getGender(record: GedcomNode): Datum['data']['gender'] {
+    const sex = record.children.find(n => n.tag === 'SEX')
+    if (sex && (sex.value === 'M' || sex.value === 'F')) return sex.value
+    if (sex && (sex.value === 'U' || sex.value === 'X')) return 'U'
+    const record_id = xrefToId(record.xref!)
+    if (!sex) issues.push({type: 'missing_value', line: record.line, record_id, tag: 'SEX', path: 'INDI.SEX'})
+    else issues.push({type: 'invalid_value', line: sex.line, record_id, tag: 'SEX', path: 'INDI.SEX', value: sex.value})
+    return 'U'
+  }
+
+  function handleFamily(record: GedcomNode) {
+    const fam_id = xrefToId(record.xref!)
+    const partner_ids: Datum['id'][] = []
+    const child_ids: Datum['id'][] = []
+
+    record.children.forEach(node => {
+      if (node.tag !== 'HUSB' && node.tag !== 'WIFE' && node.tag !== 'CHIL') return
+      if (isVoid(node.value)) return
+      const person_id = xrefToId(node.value)
+      if (!data_by_id[person_id]) {
+        issues.push({type: 'broken_reference', line: node.line, record_id: fam_id, tag: node.tag, value: node.value})
+        return
+      }
+      if (node.tag === 'CHIL') child_ids.push(person_id)
+      else partner_ids.push(person_id)
+    })
+
+    const partners = partner_ids.map(id => data_by_id[id])
+    if (partners.length === 2) {
+      addUnique(partners[0].rels.spouses, partners[1].id)
+      addUnique(partners[1].rels.spouses, partners[0].id)
+    }
+    child_ids.forEach(child_id => {
+      const child = data_by_id[child_id]
+      partners.forEach(partner => {
+        addUnique(partner.rels.children, child.id)
+        addUnique(child.rels.parents, partner.id)
+      })
+    })
+
+    const union_nodes = new Set<GedcomNode>()
+    if (partners.length === 2) setUnion(partners[0], partners[1], readUnion())
+
+    record.children.forEach(node => {
+      if (!FAM_STRUCTURE_TAGS.includes(node.tag)) mapFamilyNode(node, node.tag)
+    })
+
+    // MARR, DIV and EVEN with TYPE Partner set the union type and dates. their nodes are collected so they aren't reported as unmapped
+    function readUnion() {
+      const union: Union = {}
+      record.children.forEach(node => {
+        const type_node = node.children.find(n => n.tag === 'TYPE')
+        const is_partner = node.tag === 'EVEN' && !!type_node && type_node.value.toLowerCase() === 'partner'
+        if (node.tag !== 'MARR' && node.tag !== 'DIV' && !is_partner) return
+        const date_node = node.children.find(n => n.tag === 'DATE')
+        union_nodes.add(node)
+        if (date_node) union_nodes.add(date_node)
+        if (is_partner) union_nodes.add(type_node!)
+        if (node.tag === 'DIV') {
+          union.type = 'divorced'
+          if (date_node && date_node.value) union.end_date = date_node.value
+        } else {
+          if (!union.type) union.type = is_partner ? 'partner' : 'married'
+          if (date_node && date_node.value) union.date = date_node.value
+        }
+      })
+      return union
+    }
+
+    function mapFamilyNode(node: GedcomNode, path: string) {
+      if (family_field_map.hasOwnProperty(path)) {
+        if (partners.length === 2 && node.value) {
+          const [p1, p2] = partners
+          const field_id = family_field_map[path]
+          p1.data[`${field_id}__ref__${p2.id}`] = node.value
+          p2.data[`${field_id}__ref__${p1.id}`] = node.value
+        }
+        return
+      }
+      if (union_nodes.has(node)) {
+        node.children.forEach(child => mapFamilyNode(child, `${path}.${child.tag}`))
+        return
+      }
+      if (!Object.keys(family_field_map).some(p => p.startsWith(path + '.'))) {
+        issues.push({type: 'unmapped_tag', line: node.line, record_id: fam_id, tag: node.tag, path: `FAM.${path}`})
+        return
+      }
+      node.children.forEach(child => mapFamilyNode(child, `${path}.${child.tag}`))
+    }
+  }
+}
+
+/**
+ * Split GEDCOM lines into a tree of records. CONT and CONC lines are merged into the value of their parent.
+ * @param text - GEDCOM file content
+ * @param issues - array to which invalid lines are pushed
+ * @returns level 0 records
+ */
+export function parseGedcomLines(text: string, issues: GedcomIssue[] = []): GedcomNode[] {
+  const records: GedcomNode[] = []
+  const stack: GedcomNode[] = []
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)
+
+  lines.forEach((line_text, i) => {
+    if (line_text.trim() === '') return
+    const match = line_text.match(/^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?(\S+)(?: (.*))?$/)
+    if (!match) return issues.push({type: 'invalid_line', line: i+1, value: line_text})
+    const node: GedcomNode = {
+      level: +match[1],
+      xref: match[2],
+      tag: match[3].toUpperCase(),
+      value: unescapeValue(match[4] || ''),
+      line: i+1,
+      children: []
+    }
+
+    while (stack.length > 0 && stack[stack.length-1].level >= node.level) stack.pop()
+    const parent = stack[stack.length-1]
+    if (node.level === 0) {
+      records.push(node)
+    } else if (!parent || parent.level !== node.level - 1) {
+      return issues.push({type: 'invalid_line', line: i+1, value: line_text})
+    } else if (node.tag === 'CONT') {
+      parent.value += '\n' + node.value
+      return
+    } else if (node.tag === 'CONC') {
+      parent.value += node.value
+      return
+    } else {
+      parent.children.push(node)
+    }
+    stack.push(node)
+  })
+
+  return records
+}
+
+function getVersion(records: GedcomNode[]) {
+  const head = records.find(r => r.tag === 'HEAD')
+  const gedc = head?.children.find(n => n.tag === 'GEDC')
+  const vers = gedc?.children.find(n => n.tag === 'VERS')
+  return vers ? vers.value : null
+}
+
+function splitName(name: string): [string, string] {
+  const surname_match = name.match(/\/([^\/]*)\/?/)
+  const surname = surname_match ? surname_match[1].trim() : ''
+  const given = name.replace(/\/[^\/]*\/?/, ' ').replace(/\s+/g, ' ').trim()
+  return [given, surname]
+}
+
+function unescapeValue(value: string) {
+  return value.replace(/^@@/, '@')
+}
+
+function isVoid(value: string) {
+  return !value || value === '@VOID@'
+}
+
+export function xrefToId(xref: string) {
+  return xref.replace(/^@|@$/g, '')
+}
+
+function addUnique(arr: Datum['id'][], id: Datum['id']) {
+  if (!arr.includes(id)) arr.push(id)
+}
@@ -1,23 +1,68 @@
 import * as d3 from "d3"
 import * as icons from "../renderers/icons"
 import { Store } from "../types/store"
-import { Data } from "../types/data"
+import { Data, Datum } from "../types/data"
 
-interface HistoryData extends Data {
-  main_id: string
+/**
+ * Changes between two data states. Datums are compared by JSON.
+ */
+export interface DataDiff {
+  changed: Data
+  removed: Datum['id'][]
+  order?: Datum['id'][]  // set only when ids or their order changed
+}
+
+export interface HistoryEntry {
+  label: string
+  time: number
+  main_id: Datum['id']
+  snapshot?: Data  // full copy of data, set on first entry and every keyframe_interval entries
+  diff?: DataDiff  // changes from previous entry
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]
+  index: number
+}
+
+/**
+ * Storage adapter for persisting history between page reloads.
+ * load and save can return promises, so async storages like IndexedDB can be used.
+ */
+export interface HistoryStorage {
+  load: () => HistoryState | null | Promise<HistoryState | null>
+  save: (state: HistoryState) => void | Promise<void>
+  clear?: () => void | Promise<void>
+}
+
+export interface HistoryOptions {
+  /** max number of entries kept. oldest entries are dropped. default 100 */
+  max_depth?: number
+  /** full snapshot is stored every keyframe_interval entries, diffs are stored in between. default 10 */
+  keyframe_interval?: number
+  storage?: HistoryStorage
+  /** label of person used in change descriptions */
+  getLabel?: (d: Datum) => string
 }
 
 export interface History {
-  changed: () => void
+  changed: (label?: string) => void
   back: () => void
   forward: () => void
+  goTo: (index: number) => void
   canForward: () => boolean
   canBack: () => boolean
+  getEntries: () => {label: string, time: number}[]
+  getIndex: () => number
+  setMaxDepth: (max_depth: number) => void
+  setStorage: (storage: HistoryStorage | null) => Promise<void>
+  clear: () => void
 }
 
 export interface HistoryControls {
   back_btn: HTMLElement
   forward_btn: HTMLElement
+  list_btn: HTMLElement
   updateButtons: () => void
   destroy: () => void
 }
@@ -26,55 +71,267 @@ export interface HistoryWithControls extends History {
   controls: HistoryControls
 }
 
-export function createHistory(store: Store, getStoreDataCopy: () => Data, onUpdate: () => void): History {
-  let history: HistoryData[] = []
+export function createHistory(store: Store, getStoreDataCopy: () => Data, onUpdate: (before: Data, after: Data) => void, options: HistoryOptions = {}): History {
+  let entries: HistoryEntry[] = []
   let history_index = -1
-  
+  let current_state: Data | null = null
+  let max_depth = options.max_depth || 100
+  const keyframe_interval = options.keyframe_interval || 10
+  const getLabel = options.getLabel || defaultGetLabel
+  let storage = options.storage || null
+
+  if (storage) setStorage(storage)
+
   return {
     changed,
     back,
     forward,
+    goTo,
     canForward,
-    canBack
+    canBack,
+    getEntries,
+    getIndex: () => history_index,
+    setMaxDepth,
+    setStorage,
+    clear
   }
 
-  function changed() {
-    if (history_index < history.length - 1) history = history.slice(0, history_index+1)
-    const clean_data = getStoreDataCopy() as HistoryData
-    clean_data.main_id = store.getMainId()
-    history.push(clean_data)
-    history_index++
+  function changed(label?: string) {
+    const data = getStoreDataCopy()
+    const main_id = store.getMainId()
+    if (current_state && history_index > -1) {
+      const diff = createDiff(current_state, data)
+      if (isDiffEmpty(diff)) return
+      if (history_index < entries.length - 1) entries = entries.slice(0, history_index+1)
+      entries.push({
+        label: label || describeChange(current_state, data, getLabel),
+        time: Date.now(),
+        main_id,
+        ...(isKeyframeDue() ? {snapshot: copy(data)} : {diff})
+      })
+    } else {
+      entries = [{label: label || 'Initial state', time: Date.now(), main_id, snapshot: copy(data)}]
+    }
+    history_index = entries.length - 1
+    current_state = data
+    trimToMaxDepth()
+    save()
   }
 
   function back() {
     if (!canBack()) return
-    history_index--
-    updateData(history[history_index])
+    goTo(history_index - 1)
   }
 
   function forward() {
     if (!canForward()) return
-    history_index++
-    updateData(history[history_index])
+    goTo(history_index + 1)
+  }
+
+  function goTo(index: number) {
+    if (index < 0 || index > entries.length - 1 || index === history_index) return
+    history_index = index
+    current_state = getState(index)
+    updateData(copy(current_state), entries[index].main_id)
+    save()
   }
 
   function canForward() {
-    return history_index < history.length - 1
+    return history_index < entries.length - 1
   }
 
   function canBack() {
     return history_index > 0
   }
 
-  function updateData(data: HistoryData) {
+  function getEntries() {
+    return entries.map(entry => ({label: entry.label, time: entry.time}))
+  }
+
+  function setMaxDepth(new_max_depth: number) {
+    if (typeof new_max_depth !== 'number' || new_max_depth < 1) return console.error('max_depth must be a number greater than 0')
+    max_depth = new_max_depth
+    trimToMaxDepth()
+    save()
+  }
+
+  /**
+   * Set storage and load history from it. Changes made before loading are added on top of loaded history.
+   */
+  function setStorage(new_storage: HistoryStorage | null) {
+    storage = new_storage
+    if (!storage) return Promise.resolve()
+    const session_states = entries.map((entry, i) => ({entry, data: getState(i)}))
+    return Promise.resolve(storage.load()).then(state => {
+      if (!state) return save()
+      if (!isValidHistoryState(state)) {
+        console.error('history in storage is invalid and was replaced')
+        return save()
+      }
+      entries = state.entries.slice(0, state.index + 1)
+      history_index = entries.length - 1
+      current_state = getState(history_index)
+      session_states.forEach(({entry, data}) => {
+        const diff = createDiff(current_state!, data)
+        if (isDiffEmpty(diff)) return
+        entries.push({label: entry.label, time: entry.time, main_id: entry.main_id, ...(isKeyframeDue() ? {snapshot: copy(data)} : {diff})})
+        history_index = entries.length - 1
+        current_state = data
+      })
+      trimToMaxDepth()
+      save()
+      const main_id = entries[history_index].main_id
+      updateData(copy(current_state), main_id)
+    }).catch(e => console.error('history could not be loaded from storage', e))
+  }
+
+  function clear() {
+    entries = []
+    history_index = -1
+    current_state = null
+    if (storage && storage.clear) storage.clear()
+    changed()
+  }
+
+  function isKeyframeDue() {
+    let last_keyframe_i = entries.length - 1
+    while (last_keyframe_i > 0 && !entries[last_keyframe_i].snapshot) last_keyframe_i--
+    return entries.length - last_keyframe_i >= keyframe_interval
+  }
+
+  function getState(index: number): Data {
+    let keyframe_i = index
+    while (keyframe_i > 0 && !entries[keyframe_i].snapshot) keyframe_i--
+    const data = copy(entries[keyframe_i].snapshot!)
+    return entries.slice(keyframe_i + 1, index + 1).reduce((acc, entry) => applyDiff(acc, entry.diff!), data)
+  }
+
+  // oldest entries are removed first, but not the current one. undone entries are removed after that
+  function trimToMaxDepth() {
+    if (entries.length <= max_depth) return
+    const remove_count = Math.min(entries.length - max_depth, history_index)
+    if (remove_count > 0) {
+      const first_state = getState(remove_count)
+      entries = entries.slice(remove_count)
+      entries[0] = {...entries[0], snapshot: first_state}
+      delete entries[0].diff
+      history_index -= remove_count
+    }
+    if (entries.length > max_depth) entries = entries.slice(0, max_depth)
+  }
+
+  function save() {
+    if (!storage) return
+    Promise.resolve(storage.save({entries, index: history_index}))
+      .catch(e => console.error('history could not be saved to storage', e))
+  }
+
+  function updateData(data: Data, main_id: Datum['id']) {
     const current_main_id = store.getMainId()
-    data = JSON.parse(JSON.stringify(data))
-    if (!data.find(d => d.id === current_main_id)) store.updateMainId(data.main_id)
+    if (!data.find(d => d.id === current_main_id)) store.updateMainId(main_id)
+    const before = getStoreDataCopy()
     store.updateData(data)
-    onUpdate()
+    onUpdate(before, getStoreDataCopy())
   }
 }
 
+/**
+ * localStorage adapter for history. Data that doesn't fit in localStorage quota is not saved.
+ * @param key - localStorage key
+ */
+export function createLocalStorageHistoryStorage(key: string = 'f3-history'): HistoryStorage {
+  return {
+    load() {
+      const json = localStorage.getItem(key)
+      return json ? JSON.parse(json) : null
+    },
+    save(state: HistoryState) {
+      localStorage.setItem(key, JSON.stringify(state))
+    },
+    clear() {
+      localStorage.removeItem(key)
+    }
+  }
+}
+
+// stored history can be from an older version or edited by hand
+function isValidHistoryState(state: HistoryState) {
+  if (!state || !Array.isArray(state.entries) || state.entries.length === 0) return false
+  if (!Number.isInteger(state.index) || state.index < 0 || state.index >= state.entries.length) return false
+  if (!state.entries[0] || !Array.isArray(state.entries[0].snapshot)) return false
+  return state.entries.every(entry => entry
+    && typeof entry.label === 'string'
+    && typeof entry.time === 'number'
+    && typeof entry.main_id === 'string'
+    && (Array.isArray(entry.snapshot) || (!!entry.diff && Array.isArray(entry.diff.changed) && Array.isArray(entry.diff.removed)))
+  )
+}
+
+export function createDiff(prev: Data, next: Data): DataDiff {
+  const prev_json: Record<Datum['id'], string> = {}
+  prev.forEach(d => prev_json[d.id] = JSON.stringify(d))
+  const next_ids = new Set(next.map(d => d.id))
+
+  const changed = next.filter(d => prev_json[d.id] !== JSON.stringify(d)).map(copy)
+  const removed = prev.filter(d => !next_ids.has(d.id)).map(d => d.id)
+  const order_changed = prev.length !== next.length || prev.some((d, i) => d.id !== next[i].id)
+
+  return {changed, removed, ...(order_changed ? {order: next.map(d => d.id)} : {})}
+}
+
+export function applyDiff(data: Data, diff: DataDiff): Data {
+  const by_id: Record<Datum['id'], Datum> = {}
+  data.forEach(d => by_id[d.id] = d)
+  diff.changed.forEach(d => by_id[d.id] = copy(d))
+  diff.removed.forEach(id => delete by_id[id])
+  const order = diff.order || data.map(d => d.id)
+  return order.map(id => by_id[id]).filter(d => d !== undefined)
+}
+
+function isDiffEmpty(diff: DataDiff) {
+  return diff.changed.length === 0 && diff.removed.length === 0 && !diff.order
+}
+
+/**
+ * Create description of change, e.g. "Added child John to Mary" or "Deleted Bob".
+ */
+export function describeChange(prev: Data, next: Data, getLabel: (d: Datum) => string = defaultGetLabel) {
+  const prev_by_id: Record<Datum['id'], Datum> = {}
+  prev.forEach(d => prev_by_id[d.id] = d)
+  const next_ids = new Set(next.map(d => d.id))
+  const descriptions: string[] = []
+
+  next.filter(d => !prev_by_id[d.id]).forEach(d => {
+    const child = d.rels.children?.find(id => prev_by_id[id])
+    const parent = d.rels.parents.find(id => prev_by_id[id])
+    const spouse = d.rels.spouses?.find(id => prev_by_id[id])
+    if (child) descriptions.push(`Added parent ${getLabel(d)} to ${getLabel(prev_by_id[child])}`)
+    else if (parent) descriptions.push(`Added child ${getLabel(d)} to ${getLabel(prev_by_id[parent])}`)
+    else if (spouse) descriptions.push(`Added spouse ${getLabel(d)} to ${getLabel(prev_by_id[spouse])}`)
+    else descriptions.push(`Added ${getLabel(d)}`)
+  })
+  prev.filter(d => !next_ids.has(d.id)).forEach(d => descriptions.push(`Deleted ${getLabel(d)}`))
+
+  if (descriptions.length === 0) {
+    const changed = next.filter(d => JSON.stringify(d) !== JSON.stringify(prev_by_id[d.id]))
+    const edited = changed.filter(d => JSON.stringify(d.data) !== JSON.stringify(prev_by_id[d.id].data))
+    edited.forEach(d => descriptions.push(`Edited ${getLabel(d)}`))
+    if (edited.length === 0 && changed.length > 0) descriptions.push(`Changed relationships of ${changed.slice(0, 2).map(getLabel).join(' and ')}`)
+  }
+
+  if (descriptions.length === 0) return 'Changed'
+  if (descriptions.length > 2) return `${descriptions.slice(0, 2).join(', ')} and ${descriptions.length - 2} more`
+  return descriptions.join(', ')
+}
+
+function defaultGetLabel(d: Datum) {
+  return [d.data['first name'], d.data['last name']].filter(v => v).join(' ') || 'Unknown'
+}
+
+function copy<T>(data: T): T {
+  return JSON.parse(JSON.stringify(data))
+}
+
 export function createHistoryControls(cont: HTMLElement, history: History): HistoryControls {
   const history_controls = d3.select(cont).append("div").attr("class", "f3-history-controls")
   cont.insertBefore(history_controls.node()!, cont.firstChild)
@@ -86,13 +343,20 @@ export function createHistoryControls(cont: HTMLElement, history: History): Hist
     history.forward()
     updateButtons()
   })
+  const list_btn = history_controls.append("button").attr("class", "f3-history-list-button").on("click", () => {
+    panel.classed("opened", !panel.classed("opened"))
+    updatePanel()
+  })
+  const panel = history_controls.append("div").attr("class", "f3-history-panel")
 
   back_btn.html(icons.historyBackSvgIcon())
   forward_btn.html(icons.historyForwardSvgIcon())
+  list_btn.html(icons.historyListSvgIcon())
 
   return {
     back_btn: back_btn.node()!,
     forward_btn: forward_btn.node()!,
+    list_btn: list_btn.node()!,
     updateButtons,
     destroy
   }
@@ -102,12 +366,37 @@ export function createHistoryControls(cont: HTMLElement, history: History): Hist
     forward_btn.classed("disabled", !history.canForward())
     if (!history.canBack() && !history.canForward()) {
       history_controls.style("opacity", 0).style("pointer-events", "none")
+      panel.classed("opened", false)
     } else {
       history_controls.style("opacity", 1).style("pointer-events", "auto")
     }
+    updatePanel()
+  }
+
+  function updatePanel() {
+    if (!panel.classed("opened")) return
+    const index = history.getIndex()
+    const items = history.getEntries().map((entry, i) => ({...entry, i})).reverse()
+    const items_update = panel.selectAll("div.f3-history-item")
+      .data(items, d => (d as typeof items[number]).i + '-' + (d as typeof items[number]).time)
+      .join(enter => {
+        const item = enter.append("div").attr("class", "f3-history-item")
+        item.append("span").attr("class", "f3-history-item-label")
+        item.append("span").attr("class", "f3-history-item-time")
+        return item
+      })
+      .classed("current", d => d.i === index)
+      .classed("undone", d => d.i > index)
+      .on("click", (e, d) => {
+        history.goTo(d.i)
+        updateButtons()
+      })
+    // labels contain names of people, so they are set as text
+    items_update.select(".f3-history-item-label").text(d => d.label)
+    items_update.select(".f3-history-item-time").text(d => new Date(d.time).toLocaleTimeString())
   }
 
   function destroy() {
     d3.select(cont).select('.f3-history-controls').remove()
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,270 @@
+import * as d3 from "d3"
+import { Store } from "../types/store"
+import { Datum } from "../types/data"
+import { TreeDatum } from "../types/treeData"
+import { calculateKinships, Kinships } from "./kinships/calculate-kinships"
+import { cardToMiddle, getCurrentZoom } from "../handlers/view-handlers"
+import { defaultLabel } from "../renderers/view-common"
+import { MainChangedEvent } from "./events"
+
+export default function(cont: HTMLElement, store: Store, props: KeyboardNavigationProps) { return new KeyboardNavigation(cont, store, props) }
+
+export interface KeyboardNavigationProps {
+  /** called on Enter */
+  onSelect: (d: TreeDatum) => void
+  /** called on E */
+  onEdit: (d: TreeDatum) => void
+  /** name of the person used in labels and announcements. default is first name and last name */
+  getLabel?: (d: Datum) => string
+}
+
+type Direction = 'up' | 'down' | 'left' | 'right'
+
+/**
+ * Keyboard navigation and ARIA semantics of the tree cards.
+ * Cards are treeitems with one of them in the tab order. Arrow keys move to parents (up), children (down), and spouses and siblings (left, right).
+ * Labels of focused cards include the kinship to the main person. Main person changes are announced in a live region.
+ */
+export class KeyboardNavigation {
+  cont: HTMLElement
+  store: Store
+  props: KeyboardNavigationProps
+  live_region: HTMLElement
+  focused_id: Datum['id'] | null
+  /** kinships to the main person of the current tree. calculated when a card gets focus, not on every update */
+  private kinships: Kinships | null
+  private onKeydown: (e: KeyboardEvent) => void
+  private onFocusin: (e: FocusEvent) => void
+  private onMainChanged: (e: MainChangedEvent) => void
+
+  constructor(cont: HTMLElement, store: Store, props: KeyboardNavigationProps) {
+    this.cont = cont
+    this.store = store
+    this.props = props
+    this.focused_id = null
+    this.kinships = null
+
+    this.live_region = d3.select(this.cont).append('div')
+      .attr('class', 'f3-live-region')
+      .attr('role', 'status')
+      .attr('aria-live', 'polite')
+      .node()!
+
+    this.onKeydown = this.handleKeydown.bind(this)
+    this.onFocusin = this.handleFocusin.bind(this)
+    this.onMainChanged = (e: MainChangedEvent) => this.announceMain(e.datum_id)
+    this.cont.addEventListener('keydown', this.onKeydown)
+    this.cont.addEventListener('focusin', this.onFocusin)
+    this.store.events.on('main:changed', this.onMainChanged)
+  }
+
+  /**
+   * Set roles, labels and tab order of the rendered cards. Called after every tree update.
+   */
+  update() {
+    const had_focus = !!this.getFocusedCard()
+    const tree = this.store.getTree()
+    if (!tree) return
+    const main_id = this.store.getMainId()
+    this.kinships = null
+    if (!this.focused_id || !tree.data.some(d => d.data.id === this.focused_id)) this.focused_id = main_id
+
+    this.getLinkLayers().forEach(layer => layer.setAttribute('aria-hidden', 'true'))
+    this.getCardLayers().forEach(layer => {
+      if (!layer.querySelector('.card_cont')) return
+      layer.setAttribute('role', 'tree')
+      layer.setAttribute('aria-label', 'Family tree')
+    })
+    let tab_stop_set = false
+    this.getCards().each((d, i, nodes) => {
+      const node = nodes[i] as HTMLElement
+      const is_tab_stop = !tab_stop_set && d.data.id === this.focused_id
+      if (is_tab_stop) tab_stop_set = true
+      node.setAttribute('role', 'treeitem')
+      node.setAttribute('tabindex', is_tab_stop ? '0' : '-1')
+      node.setAttribute('aria-label', this.cardLabel(d))
+      node.setAttribute('aria-level', String(d.depth + 1))
+      if (d.data.main) node.setAttribute('aria-current', 'true')
+      else node.removeAttribute('aria-current')
+    })
+    if (had_focus) {
+      this.focusCard(this.focused_id, false)
+      const card = this.getFocusedCard()
+      if (card) this.setKinshipLabel(card, d3.select(card).datum() as TreeDatum)
+    }
+  }
+
+  destroy() {
+    this.cont.removeEventListener('keydown', this.onKeydown)
+    this.cont.removeEventListener('focusin', this.onFocusin)
+    this.store.events.off('main:changed', this.onMainChanged)
+    this.live_region.remove()
+    this.getAllCards().each((d, i, nodes) => {
+      ['role', 'tabindex', 'aria-label', 'aria-level', 'aria-current'].forEach(attr => (nodes[i] as Element).removeAttribute(attr))
+    })
+    this.getCardLayers().forEach(layer => {
+      layer.removeAttribute('role')
+      layer.removeAttribute('aria-label')
+    })
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    const card = this.getFocusedCard()
+    if (!card || e.altKey || e.ctrlKey || e.metaKey) return
+    const d = d3.select(card).datum() as TreeDatum
+    const direction = keyDirection(e.key, this.store.state.is_horizontal)
+    if (direction) {
+      e.preventDefault()
+      const next = this.findNext(d, direction)
+      if (next) this.focusCard(next.data.id, true, next)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (d.data.to_add || d.data.unknown) return
+      this.props.onSelect(d)
+    } else if (e.key === 'e' || e.key === 'E') {
+      if (d.data.to_add || d.data.unknown || d.data._new_rel_data) return
+      e.preventDefault()
+      this.props.onEdit(d)
+    }
+  }
+
+  private handleFocusin(e: FocusEvent) {
+    const card = this.getFocusedCard()
+    if (!card) return
+    const d = d3.select(card).datum() as TreeDatum
+    this.focused_id = d.data.id
+    this.getCards().each((d0, i, nodes) => (nodes[i] as Element).setAttribute('tabindex', nodes[i] === card ? '0' : '-1'))
+    this.setKinshipLabel(card, d)
+  }
+
+  private findNext(d: TreeDatum, direction: Direction): TreeDatum | null {
+    const tree = this.store.getTree()!
+    const rels = d.data.rels
+    let rel_ids: Datum['id'][] = []
+    if (direction === 'up') rel_ids = rels.parents
+    else if (direction === 'down') rel_ids = rels.children || []
+    else {
+      rel_ids = [...(rels.spouses || [])]
+      rels.parents.forEach(p_id => {
+        const parent = this.store.getDatum(p_id)
+        if (parent) (parent.rels.children || []).forEach(id => {if (!rel_ids.includes(id)) rel_ids.push(id)})
+      })
+    }
+    const candidates = tree.data.filter(d0 => d0 !== d && rel_ids.includes(d0.data.id) && !d0.data._new_rel_data)
+    if (direction === 'up' || direction === 'down') return nearest(candidates, d)
+
+    // spouses and siblings on the same level, the closest one in the direction
+    const pos = (d0: TreeDatum) => this.store.state.is_horizontal ? d0.y : d0.x
+    const sign = direction === 'right' ? 1 : -1
+    const in_direction = candidates.filter(d0 => (pos(d0) - pos(d)) * sign > 0)
+    if (in_direction.length === 0) return null
+    return in_direction.reduce((best, d0) => Math.abs(pos(d0) - pos(d)) < Math.abs(pos(best) - pos(d)) ? d0 : best)
+  }
+
+  private focusCard(id: Datum['id'] | null, move_into_view: boolean, tree_datum?: TreeDatum) {
+    let node: HTMLElement | null = null
+    this.getCards().each((d, i, nodes) => {
+      if (node) return
+      if (tree_datum ? d === tree_datum : d.data.id === id) node = nodes[i] as HTMLElement
+    })
+    if (!node) return
+    const card_node = node as HTMLElement
+    card_node.focus({preventScroll: true})
+    if (move_into_view && tree_datum && !isInView(card_node.querySelector('.card') || card_node, this.getSvg())) {
+      const svg = this.getSvg()
+      cardToMiddle({datum: tree_datum, svg, svg_dim: svg.getBoundingClientRect(), scale: getCurrentZoom(svg).k, transition_time: 300})
+    }
+  }
+
+  private announceMain(id: Datum['id']) {
+    const datum = this.store.getDatum(id)
+    if (!datum) return
+    this.live_region.textContent = `Main person: ${this.getLabel(datum)}`
+  }
+
+  private cardLabel(d: TreeDatum, kinship: string | null = null) {
+    if (d.data._new_rel_data) return d.data._new_rel_data.label
+    if (d.data.to_add) return 'Empty card, add person'
+    if (d.data.unknown) return 'Unknown person'
+    const label = this.getLabel(d.data)
+    const main_id = this.store.getMainId()
+    if (d.data.id === main_id) return `${label}, main person`
+    const main_datum = kinship ? this.store.getDatum(main_id) : undefined
+    return kinship && main_datum ? `${label}, ${kinship} of ${this.getLabel(main_datum)}` : label
+  }
+
+  private setKinshipLabel(node: Element, d: TreeDatum) {
+    node.setAttribute('aria-label', this.cardLabel(d, this.getKinship(d)))
+  }
+
+  private getKinship(d: TreeDatum) {
+    const main_id = this.store.getMainId()
+    if (d.data.id === main_id || d.data.to_add || d.data.unknown || d.data._new_rel_data) return null
+    if (!this.kinships) this.kinships = this.calculateKinships(main_id)
+    return this.kinships[d.data.id] || null
+  }
+
+  // labels fall back to the name, so a kinship error does not break focus and rendering
+  private calculateKinships(main_id: Datum['id']): Kinships {
+    if (!this.store.getDatum(main_id)) return {}
+    try {
+      return calculateKinships(main_id, this.store.getData(), {})
+    } catch (e) {
+      console.error('kinships for card labels could not be calculated', e)
+      return {}
+    }
+  }
+
+  private getLabel(d: Datum) {
+    return (this.props.getLabel || defaultLabel)(d) || d.id
+  }
+
+  private getSvg() {
+    return this.cont.querySelector('svg.main_svg') as SVGElement
+  }
+
+  private getCardLayers() {
+    return Array.from(this.cont.querySelectorAll('#f3Canvas .cards_view'))
+  }
+
+  private getLinkLayers() {
+    return Array.from(this.cont.querySelectorAll('#f3Canvas .links_view'))
+  }
+
+  // cards of the current tree, not the ones that are being removed
+  private getCards() {
+    const tree = this.store.getTree()
+    const current = new Set(tree ? tree.data : [])
+    return this.getAllCards().filter(d => current.has(d))
+  }
+
+  private getAllCards() {
+    return d3.select(this.cont).selectAll<Element, TreeDatum>('#f3Canvas .cards_view > .card_cont')
+  }
+
+  private getFocusedCard() {
+    const active = document.activeElement
+    if (!active || !this.cont.contains(active)) return null
+    return active.matches('.cards_view > .card_cont') ? active : null
+  }
+}
+
+function keyDirection(key: string, is_horizontal: boolean | undefined): Direction | null {
+  const directions: Record<string, Direction> = {ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right'}
+  const direction = directions[key]
+  if (!direction || !is_horizontal) return direction || null
+  // generations go from left to right in horizontal layout
+  const horizontal: Record<Direction, Direction> = {left: 'up', right: 'down', up: 'left', down: 'right'}
+  return horizontal[direction]
+}
+
+function nearest(candidates: TreeDatum[], d: TreeDatum) {
+  if (candidates.length === 0) return null
+  const distance = (d0: TreeDatum) => Math.hypot(d0.x - d.x, d0.y - d.y)
+  return candidates.reduce((best, d0) => distance(d0) < distance(best) ? d0 : best)
+}
+
+function isInView(node: Element, svg: SVGElement) {
+  const rect = node.getBoundingClientRect(), svg_rect = svg.getBoundingClientRect()
+  return rect.left >= svg_rect.left && rect.right <= svg_rect.right && rect.top >= svg_rect.top && rect.bottom <= svg_rect.bottom
+}
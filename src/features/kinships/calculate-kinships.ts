@@ -1,6 +1,7 @@
 import * as d3 from "d3"
 import { Datum, Data } from "../../types/data"
 import { DatumKinship } from "./kinships-data"
+import { getParentRelationType, ParentRelationType } from "../../store/parent-relation"
 
 export interface KinshipInfoConfig {
   self_id?: Datum['id']
@@ -19,6 +20,7 @@ export function calculateKinships(d_id: Datum['id'], data_stash: Data, kinship_i
   const kinships: Kinships = {}
   loopCheck(main_datum.id, 'self', 0)
   setupHalfKinships(kinships)
+  setupParentRelationKinships(kinships)
   if (kinship_info_config.show_in_law) setupInLawKinships(kinships, data_stash)
   setupKinshipsGender(kinships)
 
@@ -126,6 +128,29 @@ export function calculateKinships(d_id: Datum['id'], data_stash: Data, kinship_i
     })
   }
 
+  function setupParentRelationKinships(kinships: Kinships) {
+    const prefix: Record<Exclude<ParentRelationType, 'biological'>, string> = {adoptive: 'adoptive ', step: 'step-', foster: 'foster '}
+    Object.keys(kinships).forEach(d_id => {
+      const kinship = kinships[d_id]
+      const datum = getD(d_id)
+      let type: ParentRelationType = 'biological'
+      if (kinship === 'parent') type = getParentRelationType(main_datum, d_id)
+      else if (kinship === 'child') type = getParentRelationType(datum, main_datum.id)
+      else if (kinship.includes('sibling')) type = getSiblingRelationType(datum)
+      if (type === 'biological') return
+      kinships[d_id] = `${prefix[type]}${kinship.includes('sibling') ? 'sibling' : kinship}`  // gender label is added in setupKinshipsGender
+    })
+
+    // sibling is biological if they share at least one biological parent
+    function getSiblingRelationType(sibling: Datum): ParentRelationType {
+      const shared_parents = main_datum.rels.parents.filter(p_id => sibling.rels.parents.includes(p_id))
+      const types: ParentRelationType[] = []
+      shared_parents.forEach(p_id => types.push(getParentRelationType(main_datum, p_id), getParentRelationType(sibling, p_id)))
+      if (shared_parents.some(p_id => getParentRelationType(main_datum, p_id) === 'biological' && getParentRelationType(sibling, p_id) === 'biological')) return 'biological'
+      return types.find(type => type === 'step') || types.find(type => type !== 'biological') || 'biological'
+    }
+  }
+
   function setupInLawKinships(kinships: Kinships, data_stash: Data) {
     Object.keys(kinships).forEach(d_id => {
       const kinship = kinships[d_id]
@@ -179,7 +204,7 @@ export function calculateKinships(d_id: Datum['id'], data_stash: Data, kinship_i
         const rel_type = gender === 'M' ? 'uncle' : gender === 'F' ? 'aunt' : rel_type_general
         kinships[d_id] = kinships[d_id].replace('uncle', rel_type)
       } else if (kinship.includes('nephew')) {
-        const rel_type_general = 'neice/nephew'
+        const rel_type_general = 'niece/nephew'
         const rel_type = gender === 'M' ? 'nephew' : gender === 'F' ? 'niece' : rel_type_general
         kinships[d_id] = kinships[d_id].replace('nephew', rel_type)
       }
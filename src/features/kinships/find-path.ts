@@ -0,0 +1,73 @@
+import { Data, Datum } from "../../types/data"
+import { getParentRelationType } from "../../store/parent-relation"
+
+export type PathRelType = 'self' | 'parent' | 'spouse' | 'child'
+
+export interface PathStep {
+  id: Datum['id']
+  /** relation of this person to the previous person of the path. 'self' for the first person */
+  rel_type: PathRelType
+  /** kinship label of the hop, e.g. 'mother', 'adoptive son', 'husband' */
+  label: string
+}
+
+/**
+ * Shortest chain of people between two people, following parents, spouses and children.
+ * @param data - family chart data
+ * @param a_id - id of the first person
+ * @param b_id - id of the last person
+ * @returns steps from a to b, a is the first step. null if they are not connected
+ */
+export function findPath(data: Data, a_id: Datum['id'], b_id: Datum['id']): PathStep[] | null {
+  const getDatum = (id: Datum['id']) => data.find(d => d.id === id)
+  const a = getDatum(a_id)
+  if (!a || !getDatum(b_id)) return null
+
+  const prev: Record<Datum['id'], {id: Datum['id'], rel_type: PathRelType}> = {}
+  const visited = new Set<Datum['id']>([a_id])
+  let queue: Datum['id'][] = [a_id]
+  while (queue.length > 0 && !visited.has(b_id)) {
+    const next_queue: Datum['id'][] = []
+    queue.forEach(id => {
+      const d = getDatum(id)
+      if (!d) return
+      const rels: [Datum['id'][], PathRelType][] = [[d.rels.parents, 'parent'], [d.rels.children || [], 'child'], [d.rels.spouses || [], 'spouse']]
+      rels.forEach(([rel_ids, rel_type]) => {
+        rel_ids.forEach(rel_id => {
+          if (visited.has(rel_id)) return
+          const rel = getDatum(rel_id)
+          if (!rel || rel.to_add || rel.unknown || rel._new_rel_data) return
+          visited.add(rel_id)
+          prev[rel_id] = {id, rel_type}
+          next_queue.push(rel_id)
+        })
+      })
+    })
+    queue = next_queue
+  }
+  if (!visited.has(b_id)) return null
+
+  const steps: PathStep[] = []
+  let id = b_id
+  while (id !== a_id) {
+    const {id: prev_id, rel_type} = prev[id]
+    steps.unshift({id, rel_type, label: stepLabel(getDatum(prev_id)!, getDatum(id)!, rel_type)})
+    id = prev_id
+  }
+  steps.unshift({id: a_id, rel_type: 'self', label: 'self'})
+  return steps
+}
+
+function stepLabel(from: Datum, to: Datum, rel_type: PathRelType) {
+  const gender = to.data.gender
+  if (rel_type === 'spouse') return gender === 'M' ? 'husband' : gender === 'F' ? 'wife' : 'spouse'
+  if (rel_type === 'parent') return relationPrefix(from, to.id) + (gender === 'M' ? 'father' : gender === 'F' ? 'mother' : 'parent')
+  if (rel_type === 'child') return relationPrefix(to, from.id) + (gender === 'M' ? 'son' : gender === 'F' ? 'daughter' : 'child')
+  return 'self'
+}
+
+function relationPrefix(child: Datum, parent_id: Datum['id']) {
+  const type = getParentRelationType(child, parent_id)
+  if (type === 'biological') return ''
+  return type === 'step' ? 'step-' : `${type} `
+}
@@ -12,7 +12,7 @@ export function getKinshipsDataStash(main_id: Datum['id'], rel_id: Datum['id'],
   if (kinship.includes('in-law')) {
     in_law_id = rel_id
     const datum = data_stash.find(d => d.id === in_law_id)!
-    if (kinship.includes('sister') || kinship.includes('brother')) {
+    if (isSiblingInLaw(kinship)) {
       rel_id = main_id
     } else {
       rel_id = datum.rels.spouses?.find(d_id => kinships[d_id] && !kinships[d_id].includes('in-law'))!
@@ -110,7 +110,7 @@ export function getKinshipsDataStash(main_id: Datum['id'], rel_id: Datum['id'],
   }
 
   function addInLawConnection(kinship_data_stash: DatumKinship[]) {
-    if (kinship.includes('sister') || kinship.includes('brother')) {
+    if (isSiblingInLaw(kinship)) {
       addInLawSibling(kinship_data_stash)
     } else {
       addInLawSpouse(kinship_data_stash)
@@ -191,4 +191,9 @@ export function getKinshipsDataStash(main_id: Datum['id'], rel_id: Datum['id'],
   function getD(d_id: Datum['id']) {
     return data_stash.find(d => d.id === d_id)!
   } 
-}
\ No newline at end of file
+}
+
+// sibling-in-law label is brother-in-law or sister-in-law, or stays neutral for other genders
+function isSiblingInLaw(kinship: string) {
+  return kinship.includes('sister') || kinship.includes('brother') || kinship.includes('sibling')
+}
@@ -2,6 +2,7 @@ import * as d3 from "d3"
 import {calculateDelay} from "../handlers/general"
 import { Tree } from "../layout/calculate-tree"
 import { TreeDatum } from "../types/treeData"
+import { getUnion } from "../store/union"
 
 interface LinkSpouseTextProps {
   node_separation: number
@@ -17,8 +18,17 @@ interface LinkDatum {
 
 export default function linkSpouseText(svg: SVGElement, tree: Tree, props: LinkSpouseTextProps) {
   const links_data: LinkDatum[] = []
+  // coparents point to each other, with same gender couples both sides would add a text
+  const coparent_ids = new Set<string>()
   tree.data.forEach(d => {
-    if (d.coparent && d.data.data.gender === 'F') links_data.push({nodes: [d, d.coparent], id: `${d.data.id}--${d.coparent.data.id}`})
+    if (d.coparent) {
+      const id = [d.data.id, d.coparent.data.id].sort().join('--')
+      if (!coparent_ids.has(id)) {
+        coparent_ids.add(id)
+        const nodes = d.coparent.data.data.gender === 'F' && d.data.data.gender !== 'F' ? [d.coparent, d] : [d, d.coparent]
+        links_data.push({nodes, id})
+      }
+    }
     if (d.spouses) d.spouses.forEach(sp => links_data.push({nodes: [sp, d], id: `${sp.data.id}--${d.data.id}`}))
   })
 
@@ -65,4 +75,14 @@ export default function linkSpouseText(svg: SVGElement, tree: Tree, props: LinkS
       .on("end", () => text_g.remove())
   }
 
-}
\ No newline at end of file
+}
+
+/**
+ * linkSpouseText that shows union dates, e.g. "1990" or "1990 - 2001" for divorced spouses.
+ * - Example: f3Chart.setLinkSpouseText(unionLinkSpouseText)
+ */
+export function unionLinkSpouseText(sp1: TreeDatum, sp2: TreeDatum) {
+  const union = getUnion(sp1.data, sp2.data.id)
+  if (!union) return ''
+  return [union.date, union.end_date].filter(date => date).join(' - ')
+}
@@ -0,0 +1,142 @@
+import { Data, Datum } from "../types/data"
+import { DuplicateCandidate } from "../store/find-duplicates"
+import { getMergeConflicts } from "../store/merge"
+import { escapeHtml } from "./field-types"
+
+export interface MergeFormProps {
+  getLabel: (d: Datum) => string
+  onMerge: (keep_id: Datum['id'], remove_id: Datum['id'], values: Record<string, any>) => void
+  onCancel: () => void
+}
+
+/**
+ * List of duplicate candidates, each with a button to review the pair.
+ */
+export function createDuplicatesList(candidates: DuplicateCandidate[], data: Data, {getLabel, onReview}: {getLabel: MergeFormProps['getLabel'], onReview: (a_id: Datum['id'], b_id: Datum['id']) => void}) {
+  const cont = document.createElement('div')
+  cont.classList.add('f3-duplicates-list')
+  const getDatum = (id: Datum['id']) => data.find(d => d.id === id)!
+  cont.innerHTML = (`
+    <h3>Possible duplicates</h3>
+    ${candidates.length === 0 ? '<p>No possible duplicates found</p>' : ''}
+    ${candidates.map((candidate, i) => (`
+      <div class="f3-duplicates-item">
+        <span class="f3-duplicates-score">${Math.round(candidate.score * 100)}%</span>
+        <span>${escapeHtml(personLabel(getDatum(candidate.a_id), getLabel))}</span>
+        <span>${escapeHtml(personLabel(getDatum(candidate.b_id), getLabel))}</span>
+        <button type="button" class="f3-btn" data-index="${i}">Review</button>
+      </div>
+    `)).join('')}
+  `)
+  cont.querySelectorAll('button[data-index]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const candidate = candidates[+btn.getAttribute('data-index')!]
+      onReview(candidate.a_id, candidate.b_id)
+    })
+  })
+  return cont
+}
+
+/**
+ * Side by side view of two records of the same person. The user picks the record that is kept and the value of every conflicting field.
+ */
+export function createMergeForm(a: Datum, b: Datum, data: Data, {getLabel, onMerge, onCancel}: MergeFormProps) {
+  const cont = document.createElement('div')
+  cont.classList.add('f3-merge-form')
+  const conflict_keys = getMergeConflicts(a, b).map(conflict => conflict.key)
+  const keys = mergeKeys(a, b)
+  const getDatum = (id: Datum['id']) => data.find(d => d.id === id)
+
+  cont.innerHTML = (`
+    <h3>Merge duplicates</h3>
+    <table class="f3-merge-table">
+      <thead>
+        <tr>
+          <th></th>
+          <th>${escapeHtml(personLabel(a, getLabel))}</th>
+          <th>${escapeHtml(personLabel(b, getLabel))}</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr class="f3-merge-keep">
+          <td>Keep record</td>
+          <td><label><input type="radio" name="f3-merge-keep" value="a" checked> ${escapeHtml(a.id)}</label></td>
+          <td><label><input type="radio" name="f3-merge-keep" value="b"> ${escapeHtml(b.id)}</label></td>
+        </tr>
+        ${keys.map(key => {
+          const is_conflict = conflict_keys.includes(key)
+          return (`
+          <tr class="${is_conflict ? 'f3-merge-conflict' : ''}">
+            <td>${escapeHtml(key)}</td>
+            <td>${valueCell(key, a, 'a', is_conflict, true)}</td>
+            <td>${valueCell(key, b, 'b', is_conflict, false)}</td>
+          </tr>`)
+        }).join('')}
+        ${(['parents', 'spouses', 'children'] as const).map(rel_type => (`
+          <tr class="f3-merge-rels">
+            <td>${rel_type}</td>
+            <td>${relsLabel(a, rel_type)}</td>
+            <td>${relsLabel(b, rel_type)}</td>
+          </tr>
+        `)).join('')}
+      </tbody>
+    </table>
+    <p class="f3-merge-note">Relatives of both records are combined.</p>
+    <div class="f3-form-buttons">
+      <button type="button" class="f3-cancel-btn f3-btn">Cancel</button>
+      <button type="button" class="f3-merge-btn f3-btn">Merge</button>
+    </div>
+  `)
+
+  cont.querySelector('.f3-cancel-btn')!.addEventListener('click', onCancel)
+  cont.querySelector('.f3-merge-btn')!.addEventListener('click', () => {
+    const keep_a = getChecked('f3-merge-keep') !== 'b'
+    const values: Record<string, any> = {}
+    conflict_keys.forEach((key, i) => {
+      values[key] = getChecked(`f3-merge-value-${i}`) === 'b' ? b.data[key] : a.data[key]
+    })
+    if (keep_a) onMerge(a.id, b.id, values)
+    else onMerge(b.id, a.id, values)
+  })
+
+  return cont
+
+  function getChecked(name: string) {
+    const inputs = Array.from(cont.querySelectorAll('input[type="radio"]')) as HTMLInputElement[]
+    const checked = inputs.find(input => input.name === name && input.checked)
+    return checked ? checked.value : null
+  }
+
+  function valueCell(key: string, d: Datum, side: 'a' | 'b', is_conflict: boolean, checked: boolean) {
+    const text = escapeHtml(formatValue(d.data[key]))
+    if (!is_conflict) return text
+    return `<label><input type="radio" name="f3-merge-value-${conflict_keys.indexOf(key)}" value="${side}" ${checked ? 'checked' : ''}> ${text}</label>`
+  }
+
+  function relsLabel(d: Datum, rel_type: 'parents' | 'spouses' | 'children') {
+    return (d.rels[rel_type] || [])
+      .map(id => getDatum(id))
+      .filter((rel): rel is Datum => !!rel && !rel.to_add && !rel.unknown)
+      .map(rel => escapeHtml(personLabel(rel, getLabel)))
+      .join(', ')
+  }
+}
+
+function mergeKeys(a: Datum, b: Datum) {
+  const keys = Object.keys(a.data)
+  Object.keys(b.data).forEach(key => {
+    if (!keys.includes(key)) keys.push(key)
+  })
+  return keys.filter(key => key !== 'gender' && !key.endsWith('__date') && !key.includes('__ref__'))
+}
+
+function personLabel(d: Datum, getLabel: MergeFormProps['getLabel']) {
+  return getLabel(d) || d.id
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
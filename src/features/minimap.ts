@@ -0,0 +1,155 @@
+import * as d3 from "d3"
+import { Tree } from "../layout/calculate-tree"
+import { TreeDatum } from "../types/treeData"
+import { getZoomListener, getCurrentZoom } from "../handlers/view-handlers"
+import { genderClass } from "../renderers/view-common"
+
+export default function(svg: SVGElement, options: MinimapOptions = {}) { return new Minimap(svg, options) }
+
+export interface MinimapOptions {
+  /** width of the minimap in px. default 200 */
+  width?: number
+  /** height of the minimap in px. default 150 */
+  height?: number
+  /** corner of the chart. default 'bottom-left' */
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+}
+
+// space around the tree in the minimap, in px
+const PADDING = 6
+
+/**
+ * Overview of the whole tree with a rectangle of the part visible in the chart.
+ * The rectangle follows zooming and panning of the chart. Dragging it or clicking the minimap pans the chart.
+ */
+export class Minimap {
+  svg: SVGElement
+  options: Required<MinimapOptions>
+  cont: HTMLElement
+  tree: Tree | null
+  private minimap_svg: d3.Selection<SVGSVGElement, unknown, null, undefined>
+  private scale: number
+  private offset: [number, number]
+
+  constructor(svg: SVGElement, options: MinimapOptions = {}) {
+    this.svg = svg
+    this.options = {width: 200, height: 150, position: 'bottom-left', ...options}
+    this.tree = null
+    this.scale = 1
+    this.offset = [0, 0]
+
+    const canvas = svg.closest('#f3Canvas')
+    if (!canvas) throw new Error('canvas not found')
+    this.cont = d3.select(canvas as HTMLElement).append('div')
+      .attr('class', `f3-minimap f3-minimap-${this.options.position}`)
+      .attr('aria-hidden', 'true')
+      .style('width', `${this.options.width}px`)
+      .style('height', `${this.options.height}px`)
+      .node()!
+    this.minimap_svg = d3.select(this.cont).append('svg')
+      .attr('width', this.options.width)
+      .attr('height', this.options.height)
+    this.minimap_svg.append('g').attr('class', 'f3-minimap-nodes')
+    this.minimap_svg.append('rect').attr('class', 'f3-minimap-viewport')
+
+    this.setupEvents()
+  }
+
+  /**
+   * Draw the tree. Called after every tree update.
+   */
+  update(tree: Tree) {
+    this.tree = tree
+    const {width, height} = this.options
+    const dim = tree.dim
+    this.scale = Math.min((width - PADDING * 2) / dim.width, (height - PADDING * 2) / dim.height)
+    this.offset = [
+      (width - dim.width * this.scale) / 2 + dim.x_off * this.scale,
+      (height - dim.height * this.scale) / 2 + dim.y_off * this.scale
+    ]
+    const node_size = Math.max(2, Math.min(6, tree.node_separation * this.scale * 0.6))
+
+    this.minimap_svg.select('.f3-minimap-nodes')
+      .selectAll<SVGRectElement, TreeDatum>('rect')
+      .data(tree.data, d => d.tid!)
+      .join('rect')
+      .attr('class', d => `f3-minimap-node ${genderClass(d.data.data.gender)}${d.data.main ? ' f3-minimap-node-main' : ''}`)
+      .attr('width', node_size)
+      .attr('height', node_size)
+      .attr('x', d => this.toMinimap(d.x, d.y)[0] - node_size / 2)
+      .attr('y', d => this.toMinimap(d.x, d.y)[1] - node_size / 2)
+
+    this.updateViewport()
+  }
+
+  /**
+   * Move the viewport rectangle to the part of the tree visible in the chart.
+   */
+  updateViewport() {
+    if (!this.tree) return
+    const t = getCurrentZoom(this.svg)
+    const svg_dim = this.svg.getBoundingClientRect()
+    const [x0, y0] = this.toMinimap(-t.x / t.k, -t.y / t.k)
+    const [x1, y1] = this.toMinimap((svg_dim.width - t.x) / t.k, (svg_dim.height - t.y) / t.k)
+    this.minimap_svg.select('.f3-minimap-viewport')
+      .attr('x', x0)
+      .attr('y', y0)
+      .attr('width', Math.max(0, x1 - x0))
+      .attr('height', Math.max(0, y1 - y0))
+  }
+
+  /**
+   * Hide the minimap, e.g. in fan and timeline views
+   */
+  setVisible(visible: boolean) {
+    this.cont.style.display = visible ? '' : 'none'
+    return this
+  }
+
+  destroy() {
+    const zoom = getZoomListener(this.svg).__zoomObj
+    if (zoom) zoom.on('zoom.minimap', null)
+    this.cont.remove()
+  }
+
+  private setupEvents() {
+    const zoom = getZoomListener(this.svg).__zoomObj
+    zoom.on('zoom.minimap', () => this.updateViewport())
+
+    // the minimap is inside the chart canvas, its events should not zoom or pan the chart
+    d3.select(this.cont).on('mousedown touchstart wheel dblclick', (e: Event) => e.stopPropagation())
+
+    this.minimap_svg.on('click', (e: MouseEvent) => {
+      const [x, y] = d3.pointer(e, this.minimap_svg.node())
+      this.panTo(x, y, 300)
+    })
+
+    const viewport = this.minimap_svg.select<SVGRectElement>('.f3-minimap-viewport')
+    viewport.call(d3.drag<SVGRectElement, unknown>()
+      .on('drag', (e: d3.D3DragEvent<SVGRectElement, unknown, unknown>) => {
+        const x = +viewport.attr('x') + +viewport.attr('width') / 2 + e.dx
+        const y = +viewport.attr('y') + +viewport.attr('height') / 2 + e.dy
+        this.panTo(x, y, 0)
+      }))
+  }
+
+  // center the chart on the point of the minimap, zoom level is kept
+  private panTo(x: number, y: number, transition_time: number) {
+    if (!this.tree) return
+    const [tree_x, tree_y] = this.toTree(x, y)
+    const k = getCurrentZoom(this.svg).k
+    const svg_dim = this.svg.getBoundingClientRect()
+    const el_listener = getZoomListener(this.svg)
+    const t = d3.zoomIdentity.translate(svg_dim.width / 2 - tree_x * k, svg_dim.height / 2 - tree_y * k).scale(k)
+    if (transition_time) d3.select(el_listener).transition().duration(transition_time).call(el_listener.__zoomObj.transform, t)
+    else d3.select(el_listener).call(el_listener.__zoomObj.transform, t)
+  }
+
+  private toMinimap(x: number, y: number): [number, number] {
+    return [x * this.scale + this.offset[0], y * this.scale + this.offset[1]]
+  }
+
+  private toTree(x: number, y: number): [number, number] {
+    return [(x - this.offset[0]) / this.scale, (y - this.offset[1]) / this.scale]
+  }
+}
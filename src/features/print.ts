@@ -0,0 +1,193 @@
+import * as d3 from "d3"
+import { Tree } from "../layout/calculate-tree"
+import { createExportSvg } from "./export-image"
+
+// paper sizes in mm, portrait
+export const PAPER_SIZES = {
+  A3: {width: 297, height: 420},
+  A4: {width: 210, height: 297},
+  A5: {width: 148, height: 210},
+  Letter: {width: 215.9, height: 279.4},
+  Legal: {width: 215.9, height: 355.6},
+}
+
+export interface PrintOptions {
+  paper?: keyof typeof PAPER_SIZES
+  orientation?: 'portrait' | 'landscape'
+  /** size of the tree on paper. 1 is the size of the tree on screen at zoom 1. default 1 */
+  scale?: number
+  /** part of the tree repeated on neighbouring pages, in px of the tree. default 40 */
+  overlap?: number
+  /** page margin in mm. default 10 */
+  margin?: number
+  /** page background. default is background color of the chart container */
+  background?: string
+}
+
+export interface PrintTile {
+  page: number
+  row: number
+  col: number
+  /** bounds of the tile in tree export coordinates (0, 0 is top left corner of tree dim) */
+  x: number
+  y: number
+  width: number
+  height: number
+  neighbours: {top?: number, right?: number, bottom?: number, left?: number}
+}
+
+export interface PrintLayout {
+  tiles: PrintTile[]
+  rows: number
+  cols: number
+  paper_width: number  // mm
+  paper_height: number  // mm
+  overlap: number
+  scale: number
+}
+
+export interface PrintPreview {
+  el: HTMLElement
+  print: () => void
+  close: () => void
+}
+
+const MM_TO_PX = 96 / 25.4
+
+/**
+ * Split bounding box of the tree into pages. Neighbouring pages overlap, so links that cross the page edge can be followed.
+ * @param tree - calculated tree
+ * @param options - paper, orientation, scale, overlap and margin
+ * @returns pages in reading order (left to right, top to bottom)
+ */
+export function calculatePrintLayout(tree: Tree, options: PrintOptions = {}): PrintLayout {
+  const paper = PAPER_SIZES[options.paper || 'A4']
+  if (!paper) throw new Error(`unknown paper size ${options.paper}, use one of ${Object.keys(PAPER_SIZES).join(', ')}`)
+  const is_landscape = options.orientation === 'landscape'
+  const paper_width = is_landscape ? paper.height : paper.width
+  const paper_height = is_landscape ? paper.width : paper.height
+  const margin = options.hasOwnProperty('margin') ? options.margin! : 10
+  const scale = options.scale || 1
+
+  const tile_width = (paper_width - margin*2) * MM_TO_PX / scale
+  const tile_height = (paper_height - margin*2) * MM_TO_PX / scale
+  const overlap = Math.min(options.hasOwnProperty('overlap') ? options.overlap! : 40, tile_width/2, tile_height/2)
+  const cols = Math.max(1, Math.ceil((tree.dim.width - overlap) / (tile_width - overlap)))
+  const rows = Math.max(1, Math.ceil((tree.dim.height - overlap) / (tile_height - overlap)))
+
+  const tiles: PrintTile[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({
+        page: row*cols + col + 1,
+        row,
+        col,
+        x: col * (tile_width - overlap),
+        y: row * (tile_height - overlap),
+        width: tile_width,
+        height: tile_height,
+        neighbours: {
+          top: row > 0 ? (row-1)*cols + col + 1 : undefined,
+          right: col < cols - 1 ? row*cols + col + 2 : undefined,
+          bottom: row < rows - 1 ? (row+1)*cols + col + 1 : undefined,
+          left: col > 0 ? row*cols + col : undefined,
+        }
+      })
+    }
+  }
+
+  return {tiles, rows, cols, paper_width, paper_height, overlap, scale}
+}
+
+/**
+ * Show the tree split into pages and open the browser print dialog from it.
+ * @param cont - chart container
+ * @param tree - calculated tree
+ * @param options - paper, orientation, scale, overlap, margin and background
+ * @returns preview element with print and close functions
+ */
+export function createPrintPreview(cont: HTMLElement, tree: Tree, options: PrintOptions = {}): PrintPreview {
+  const layout = calculatePrintLayout(tree, options)
+  const margin = options.hasOwnProperty('margin') ? options.margin! : 10
+  const svg = createExportSvg(cont, tree.dim, {padding: 0, background: options.background})
+  const background = svg.querySelector('rect')!.getAttribute('fill')!
+
+  const preview = d3.select(document.body).append('div').attr('class', 'f3 f3-print-cont')
+  const page_style = preview.append('style').text(`@page { size: ${layout.paper_width}mm ${layout.paper_height}mm; margin: 0; }`)
+  const toolbar = preview.append('div').attr('class', 'f3-print-toolbar')
+  toolbar.append('span').text(`${layout.tiles.length} ${layout.tiles.length === 1 ? 'page' : 'pages'}`)
+  toolbar.append('button').attr('class', 'f3-btn').text('Print').on('click', print)
+  toolbar.append('button').attr('class', 'f3-btn').text('Close').on('click', close)
+
+  layout.tiles.forEach(tile => {
+    const page = preview.append('div').attr('class', 'f3-print-page')
+      .style('width', `${layout.paper_width}mm`)
+      .style('height', `${layout.paper_height}mm`)
+      .style('padding', `${margin}mm`)
+      .style('background', background)
+
+    page.node()!.appendChild(createTileSvg(tile, svg, layout.overlap))
+
+    page.append('div').attr('class', 'f3-print-page-number')
+      .text(`${tile.page} / ${layout.tiles.length}`)
+    const sides = ['top', 'right', 'bottom', 'left'] as const
+    const arrows = {top: '↑', right: '→', bottom: '↓', left: '←'}
+    sides.forEach(side => {
+      const neighbour = tile.neighbours[side]
+      if (neighbour === undefined) return
+      page.append('div').attr('class', `f3-print-page-ref f3-print-page-ref-${side}`).text(`${arrows[side]} ${neighbour}`)
+    })
+  })
+
+  return {el: preview.node()!, print, close}
+
+  function print() {
+    window.print()
+  }
+
+  function close() {
+    page_style.remove()
+    preview.remove()
+  }
+}
+
+// nested svg shows the part of the tree on the page and clips the rest. the tree is copied into every page,
+// because browsers don't render foreignObject (html cards) referenced with <use>
+function createTileSvg(tile: PrintTile, svg: SVGSVGElement, overlap: number) {
+  const svg_ns = 'http://www.w3.org/2000/svg'
+  const tile_svg = document.createElementNS(svg_ns, 'svg')
+  tile_svg.setAttribute('viewBox', `0 0 ${tile.width} ${tile.height}`)
+  tile_svg.setAttribute('width', '100%')
+  tile_svg.setAttribute('height', '100%')
+  tile_svg.setAttribute('preserveAspectRatio', 'xMinYMin meet')
+
+  const tree_svg = document.createElementNS(svg_ns, 'svg')
+  tree_svg.setAttribute('width', `${tile.width}`)
+  tree_svg.setAttribute('height', `${tile.height}`)
+  tree_svg.setAttribute('viewBox', `${tile.x} ${tile.y} ${tile.width} ${tile.height}`)
+  tree_svg.setAttribute('overflow', 'hidden')
+  Array.from(svg.childNodes).forEach(node => tree_svg.appendChild(node.cloneNode(true)))
+  addOverlapLines(tree_svg, tile, overlap)
+  tile_svg.appendChild(tree_svg)
+  return tile_svg
+}
+
+// dashed lines mark the part of the tree that is repeated on the neighbouring page
+function addOverlapLines(svg: SVGSVGElement, tile: PrintTile, overlap: number) {
+  const lines = [
+    tile.neighbours.top !== undefined && [tile.x, tile.y + overlap, tile.x + tile.width, tile.y + overlap],
+    tile.neighbours.bottom !== undefined && [tile.x, tile.y + tile.height - overlap, tile.x + tile.width, tile.y + tile.height - overlap],
+    tile.neighbours.left !== undefined && [tile.x + overlap, tile.y, tile.x + overlap, tile.y + tile.height],
+    tile.neighbours.right !== undefined && [tile.x + tile.width - overlap, tile.y, tile.x + tile.width - overlap, tile.y + tile.height],
+  ].filter(line => line) as number[][]
+  lines.forEach(([x1, y1, x2, y2]) => {
+    const line = document.createElementNS('http://www.w3.org/2000/svg', 'line')
+    line.setAttribute('x1', `${x1}`)
+    line.setAttribute('y1', `${y1}`)
+    line.setAttribute('x2', `${x2}`)
+    line.setAttribute('y2', `${y2}`)
+    line.setAttribute('class', 'f3-print-overlap-line')
+    line.setAttribute('style', 'stroke: #888; stroke-width: 1px; stroke-dasharray: 4 4;')
+    svg.appendChild(line)
+  })
+}
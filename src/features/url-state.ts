@@ -0,0 +1,174 @@
+import * as d3 from "d3"
+import { Store, ViewType } from "../types/store"
+import { Datum } from "../types/data"
+import { getZoomListener, getCurrentZoom } from "../handlers/view-handlers"
+
+export default function(store: Store, svg: SVGElement, options: UrlStateOptions = {}) { return new UrlState(store, svg, options) }
+
+export interface UrlStateOptions {
+  /** where the state is kept, 'hash' (#main=...) or 'query' (?main=...). default 'hash' */
+  mode?: 'hash' | 'query'
+}
+
+export interface ChartUrlState {
+  main_id?: Datum['id']
+  is_horizontal?: boolean
+  view_type?: ViewType
+  ancestry_depth?: number
+  progeny_depth?: number
+  transform?: {x: number, y: number, k: number}
+}
+
+const PARAMS = {
+  main_id: 'main',
+  is_horizontal: 'orientation',
+  view_type: 'view',
+  ancestry_depth: 'ancestry_depth',
+  progeny_depth: 'progeny_depth',
+  transform: 'zoom',
+}
+
+/**
+ * Chart state to url parameters. Other parameters are kept.
+ * @returns params with the state, e.g. main=abc&orientation=horizontal&zoom=120.5,40,0.8
+ */
+export function serializeUrlState(state: ChartUrlState, params: URLSearchParams = new URLSearchParams()) {
+  const set = (key: keyof typeof PARAMS, value: string | null) => {
+    if (value === null) params.delete(PARAMS[key])
+    else params.set(PARAMS[key], value)
+  }
+  set('main_id', state.main_id || null)
+  set('is_horizontal', state.is_horizontal === undefined ? null : state.is_horizontal ? 'horizontal' : 'vertical')
+  set('view_type', state.view_type && state.view_type !== 'tree' ? state.view_type : null)
+  set('ancestry_depth', state.ancestry_depth === undefined ? null : String(state.ancestry_depth))
+  set('progeny_depth', state.progeny_depth === undefined ? null : String(state.progeny_depth))
+  set('transform', state.transform ? [round(state.transform.x, 1), round(state.transform.y, 1), round(state.transform.k, 3)].join(',') : null)
+  return params
+}
+
+/**
+ * Url parameters to chart state. Missing and invalid values are left out.
+ */
+export function parseUrlState(params: URLSearchParams): ChartUrlState {
+  const state: ChartUrlState = {}
+  const main_id = params.get(PARAMS.main_id)
+  if (main_id) state.main_id = main_id
+  const orientation = params.get(PARAMS.is_horizontal)
+  if (orientation === 'horizontal' || orientation === 'vertical') state.is_horizontal = orientation === 'horizontal'
+  const view_type = params.get(PARAMS.view_type)
+  if (view_type === 'tree' || view_type === 'fan' || view_type === 'timeline') state.view_type = view_type
+  const ancestry_depth = parseDepth(params.get(PARAMS.ancestry_depth))
+  if (ancestry_depth !== null) state.ancestry_depth = ancestry_depth
+  const progeny_depth = parseDepth(params.get(PARAMS.progeny_depth))
+  if (progeny_depth !== null) state.progeny_depth = progeny_depth
+  const transform = (params.get(PARAMS.transform) || '').split(',').map(Number)
+  if (transform.length === 3 && transform.every(n => isFinite(n)) && transform[2] > 0) state.transform = {x: transform[0], y: transform[1], k: transform[2]}
+  return state
+}
+
+/**
+ * Keeps the chart state in the url, so links open the chart on the same person and view.
+ * Changes of the main person add history entries, browser back and forward move between them.
+ * Other changes, e.g. zoom, replace the current entry.
+ */
+export class UrlState {
+  store: Store
+  svg: SVGElement
+  options: Required<UrlStateOptions>
+  private restoring: boolean
+  private pending_transform: ChartUrlState['transform'] | null
+  private onPopstate: () => void
+  private onMainChanged: () => void
+
+  constructor(store: Store, svg: SVGElement, options: UrlStateOptions = {}) {
+    this.store = store
+    this.svg = svg
+    this.options = {mode: 'hash', ...options}
+    this.restoring = false
+    this.pending_transform = null
+
+    this.onPopstate = () => {
+      this.restore()
+      this.store.updateTree({tree_position: this.pending_transform ? 'inherit' : 'fit'})
+    }
+    this.onMainChanged = () => {
+      if (!this.restoring) this.write(true)
+    }
+    window.addEventListener('popstate', this.onPopstate)
+    this.store.events.on('main:changed', this.onMainChanged)
+    getZoomListener(this.svg).__zoomObj.on('end.urlstate', () => this.write(false))
+  }
+
+  /**
+   * Apply the state from the url to the store. The zoom is applied on the next tree update.
+   * @returns true if the url has chart state
+   */
+  restore() {
+    const state = parseUrlState(this.getParams())
+    this.restoring = true
+    if (state.main_id && this.store.getDatum(state.main_id)) this.store.updateMainId(state.main_id)
+    this.restoring = false
+    if (state.is_horizontal !== undefined) this.store.state.is_horizontal = state.is_horizontal
+    if (state.view_type) this.store.state.view_type = state.view_type
+    if (state.ancestry_depth !== undefined) this.store.state.ancestry_depth = state.ancestry_depth
+    if (state.progeny_depth !== undefined) this.store.state.progeny_depth = state.progeny_depth
+    this.pending_transform = state.transform || null
+    return Object.keys(state).length > 0
+  }
+
+  /**
+   * Called after every tree update. Applies zoom from the url and writes the current state.
+   */
+  update() {
+    const transform = this.pending_transform
+    this.pending_transform = null
+    if (transform) {
+      const el_listener = getZoomListener(this.svg)
+      // replaces the zoom transition of the tree update
+      d3.select(el_listener).transition().duration(0)
+        .call(el_listener.__zoomObj.transform, d3.zoomIdentity.translate(transform.x, transform.y).scale(transform.k))
+    }
+    this.write(false, transform)
+  }
+
+  destroy() {
+    window.removeEventListener('popstate', this.onPopstate)
+    this.store.events.off('main:changed', this.onMainChanged)
+    getZoomListener(this.svg).__zoomObj.on('end.urlstate', null)
+  }
+
+  private write(push: boolean, transform?: ChartUrlState['transform'] | null) {
+    const state = this.store.state
+    const t = transform || getCurrentZoom(this.svg)
+    const params = serializeUrlState({
+      main_id: state.main_id,
+      is_horizontal: !!state.is_horizontal,
+      view_type: state.view_type,
+      ancestry_depth: state.ancestry_depth,
+      progeny_depth: state.progeny_depth,
+      transform: {x: t.x, y: t.y, k: t.k},
+    }, this.getParams())
+    const url = new URL(window.location.href)
+    if (this.options.mode === 'hash') url.hash = params.toString()
+    else url.search = params.toString()
+    if (url.href === window.location.href) return
+    if (push) window.history.pushState(null, '', url.href)
+    else window.history.replaceState(window.history.state, '', url.href)
+  }
+
+  private getParams() {
+    const url = new URL(window.location.href)
+    return new URLSearchParams(this.options.mode === 'hash' ? url.hash.slice(1) : url.search)
+  }
+}
+
+function parseDepth(value: string | null) {
+  if (value === null || value === '') return null
+  const depth = Number(value)
+  return Number.isInteger(depth) && depth >= 0 ? depth : null
+}
+
+function round(n: number, decimals: number) {
+  const factor = Math.pow(10, decimals)
+  return Math.round(n * factor) / factor
+}
@@ -76,7 +76,7 @@ export function zoomTo(svg: SVGElement, zoom_level: number) {
   manualZoom({amount: zoom_level / currentTransform.k, svg})
 }
 
-function getZoomListener(svg: SVGElement) {
+export function getZoomListener(svg: SVGElement) {
   const el_listener = (svg as any).__zoomObj ? svg : (svg.parentNode as ZoomEl)
   if (!(el_listener as ZoomEl).__zoomObj) throw new Error('Zoom object not found')
   return el_listener as ZoomEl
@@ -0,0 +1,99 @@
+import { Tree } from "./calculate-tree"
+import { TreeDatum } from "../types/treeData"
+import { Datum } from "../types/data"
+
+export interface FanOptions {
+  /** angle of the fan in degrees. 360 is a full circle. default 240 */
+  angle?: number
+  /** radius of the main person circle. default 80 */
+  center_radius?: number
+  /** width of each generation ring. default 90 */
+  ring_width?: number
+  /** text in the segment. default is first name and last name */
+  getLabel?: (d: Datum) => string
+}
+
+export interface FanSegment {
+  tid: string
+  datum: TreeDatum
+  depth: number
+  /** angles in radians, 0 is at 12 o'clock, clockwise */
+  start_angle: number
+  end_angle: number
+  inner_radius: number
+  outer_radius: number
+}
+
+export interface Fan {
+  segments: FanSegment[]
+  /** center of the fan, position of the main person in the tree */
+  x: number
+  y: number
+  dim: Tree['dim']
+}
+
+/**
+ * Calculate radial ancestry layout from the tree. Main person is in the center and each generation of ancestors is a ring.
+ * Parents split the segment of their child, first parent on the left, second on the right.
+ * Depth of the fan is the same as ancestry depth of the tree.
+ * @param tree - calculated tree
+ * @param options - angle, center_radius and ring_width
+ * @returns segments of the fan and its dimensions
+ */
+export default function calculateFan(tree: Tree, {angle=240, center_radius=80, ring_width=90}: FanOptions = {}): Fan {
+  const main = tree.data.find(d => d.data.id === tree.main_id && d.depth === 0 && !d.spouse)
+  if (!main) throw new Error('Main not found')
+  const fan_angle = Math.min(angle, 360) * Math.PI / 180
+  const segments: FanSegment[] = []
+
+  segments.push({
+    tid: main.tid!,
+    datum: main,
+    depth: 0,
+    start_angle: 0,
+    end_angle: Math.PI*2,
+    inner_radius: 0,
+    outer_radius: center_radius
+  })
+  setupParents(main, -fan_angle/2, fan_angle/2, 1)
+
+  const max_depth = Math.max(...segments.map(s => s.depth))
+  const radius = center_radius + max_depth*ring_width
+
+  return {segments, x: main.x, y: main.y, dim: calculateFanDim(radius, center_radius, fan_angle)}
+
+  function setupParents(d: TreeDatum, start_angle: number, end_angle: number, depth: number) {
+    const parents = d.parents || []
+    const mid_angle = (start_angle + end_angle) / 2
+    parents.forEach((p, i) => {
+      const is_second = parents.length === 2 ? i === 1 : p.data.data.gender === 'F'
+      const p_start = is_second ? mid_angle : start_angle
+      const p_end = is_second ? end_angle : mid_angle
+      segments.push({
+        tid: p.tid!,
+        datum: p,
+        depth,
+        start_angle: p_start,
+        end_angle: p_end,
+        inner_radius: center_radius + (depth-1)*ring_width,
+        outer_radius: center_radius + depth*ring_width
+      })
+      setupParents(p, p_start, p_end, depth+1)
+    })
+  }
+
+  function calculateFanDim(radius: number, center_radius: number, fan_angle: number) {
+    const angles = [-fan_angle/2, fan_angle/2]
+    for (let a = -Math.PI; a <= Math.PI; a += Math.PI/2) {
+      if (a > -fan_angle/2 && a < fan_angle/2) angles.push(a)
+    }
+    const xs = [-center_radius, center_radius, ...angles.map(a => Math.sin(a)*radius)]
+    const ys = [-center_radius, center_radius, ...angles.map(a => -Math.cos(a)*radius)]
+    const padding = ring_width/2
+    const min_x = Math.min(...xs) + main!.x, max_x = Math.max(...xs) + main!.x
+    const min_y = Math.min(...ys) + main!.y, max_y = Math.max(...ys) + main!.y
+    return {
+      width: max_x - min_x + padding*2, height: max_y - min_y + padding*2, x_off: -min_x + padding, y_off: -min_y + padding
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import type { Datum, Data } from "../types/data";
+import type { TreeDatum } from "../types/treeData";
+
+export interface CalculateGraphOptions {
+  /** max number of parent, child or spouse steps from the main person */
+  max_steps: number;
+  node_separation: number;
+  level_separation: number;
+  sortChildrenFunction?: ((a: Datum, b: Datum) => number) | undefined;
+}
+
+interface GraphNode {
+  datum: Datum;
+  generation: number;
+  steps: number;
+  from: GraphNode | null;
+  x: number;
+}
+
+type Unit = GraphNode[]
+
+const ORDERING_ITERATIONS = 12
+const POSITIONING_ITERATIONS = 8
+
+/**
+ * Place everyone connected to the main person within max_steps.
+ * Generation is the layer of the person (parents one layer above, children one below, spouses on the same layer).
+ * Spouses are kept next to each other and the order in each layer is chosen to minimise link crossings.
+ * @returns tree nodes with parents and spouses set, so links can be created with createLinks
+ */
+export default function calculateGraph(main: Datum, data_stash: Data, {max_steps, node_separation, level_separation, sortChildrenFunction}: CalculateGraphOptions): TreeDatum[] {
+  const data_by_id: Record<Datum['id'], Datum> = {}
+  data_stash.forEach(d => data_by_id[d.id] = d)
+  const nodes = collectNodes()
+  const layers = createLayers()
+  orderLayers()
+  positionLayers()
+
+  return createTreeData()
+
+  function getDatum(id: Datum['id']): Datum | undefined {
+    return data_by_id.hasOwnProperty(id) ? data_by_id[id] : undefined
+  }
+
+  // breadth first, so every person gets generation and steps from the shortest path to main
+  function collectNodes() {
+    const nodes: Record<Datum['id'], GraphNode> = {}
+    const queue: GraphNode[] = [{datum: main, generation: 0, steps: 0, from: null, x: 0}]
+    nodes[main.id] = queue[0]
+    while (queue.length > 0) {
+      const node = queue.shift()!
+      if (node.steps >= max_steps) continue
+      const rels = node.datum.rels
+      const children = (rels.children || []).map(getDatum).filter(d => d !== undefined)
+      if (sortChildrenFunction) children.sort(sortChildrenFunction)
+      const relatives: [Datum['id'], number][] = [
+        ...rels.parents.map(id => [id, -1] as [Datum['id'], number]),
+        ...(rels.spouses || []).map(id => [id, 0] as [Datum['id'], number]),
+        ...children.map(d => [d.id, 1] as [Datum['id'], number]),
+      ]
+      relatives.forEach(([id, generation_diff]) => {
+        if (nodes[id]) return
+        const datum = getDatum(id)
+        if (!datum) return
+        nodes[id] = {datum, generation: node.generation + generation_diff, steps: node.steps + 1, from: node, x: 0}
+        queue.push(nodes[id])
+      })
+    }
+    return nodes
+  }
+
+  function createLayers() {
+    const layers: Record<number, Unit[]> = {}
+    const in_unit: Record<Datum['id'], boolean> = {}
+    Object.values(nodes).forEach(node => {
+      if (in_unit[node.datum.id]) return
+      const unit = createUnit(node)
+      unit.forEach(n => in_unit[n.datum.id] = true)
+      if (!layers[node.generation]) layers[node.generation] = []
+      layers[node.generation].push(unit)
+    })
+    return Object.keys(layers).map(Number).sort((a, b) => a - b).map(generation => layers[generation])
+  }
+
+  // spouses on the same layer stay together. person with most spouses is in the middle
+  function createUnit(node: GraphNode): Unit {
+    const members: GraphNode[] = []
+    const stack = [node]
+    while (stack.length > 0) {
+      const n = stack.pop()!
+      if (members.includes(n)) continue
+      members.push(n)
+      layerSpouses(n).forEach(sp => stack.push(sp))
+    }
+    if (members.length === 1) return members
+    if (members.length === 2) return members.sort((a, b) => a.datum.data.gender === 'M' || b.datum.data.gender === 'F' ? -1 : 1)
+    const hub = members.reduce((acc, n) => layerSpouses(n).length > layerSpouses(acc).length ? n : acc)
+    const others = members.filter(n => n !== hub)
+    const left = others.filter((_, i) => i % 2 === 0).reverse()
+    const right = others.filter((_, i) => i % 2 === 1)
+    return [...left, hub, ...right]
+  }
+
+  function layerSpouses(node: GraphNode) {
+    return (node.datum.rels.spouses || []).map(id => nodes[id]).filter(n => n && n.generation === node.generation)
+  }
+
+  function parentsOf(unit: Unit) {
+    const parents: GraphNode[] = []
+    unit.forEach(n => n.datum.rels.parents.forEach(id => {
+      if (nodes[id] && nodes[id].generation < n.generation) parents.push(nodes[id])
+    }))
+    return parents
+  }
+
+  function childrenOf(unit: Unit) {
+    const children: GraphNode[] = []
+    unit.forEach(n => (n.datum.rels.children || []).forEach(id => {
+      if (nodes[id] && nodes[id].generation > n.generation) children.push(nodes[id])
+    }))
+    return children
+  }
+
+  // barycenter heuristic, sweeping down by parents and up by children. best order by number of crossings is kept
+  function orderLayers() {
+    let best = layers.map(layer => [...layer])
+    let best_crossings = countCrossings()
+    for (let i = 0; i < ORDERING_ITERATIONS && best_crossings > 0; i++) {
+      const down = i % 2 === 0
+      const indexes = layers.map((_, li) => li)
+      if (!down) indexes.reverse()
+      indexes.forEach(li => {
+        const positions = getOrderPositions()
+        const layer = layers[li]
+        const keys = new Map<Unit, number>()
+        layer.forEach(unit => {
+          const neighbours = down ? parentsOf(unit) : childrenOf(unit)
+          keys.set(unit, neighbours.length > 0 ? mean(neighbours.map(n => positions.get(n)!)) : mean(unit.map(n => positions.get(n)!)))
+        })
+        layer.sort((a, b) => keys.get(a)! - keys.get(b)!)
+      })
+      const crossings = countCrossings()
+      if (crossings < best_crossings) {
+        best_crossings = crossings
+        best = layers.map(layer => [...layer])
+      }
+    }
+    best.forEach((layer, li) => layers[li] = layer)
+  }
+
+  function getOrderPositions() {
+    const positions = new Map<GraphNode, number>()
+    layers.forEach(layer => layerNodes(layer).forEach((n, i) => positions.set(n, i)))
+    return positions
+  }
+
+  // edges sorted by parent position cross when child positions are in reverse order, so crossings are inversions
+  function countCrossings() {
+    const positions = getOrderPositions()
+    let crossings = 0
+    layers.forEach(layer => {
+      const edges: [number, number][] = []
+      layerNodes(layer).forEach(n => {
+        childrenOf([n]).forEach(c => edges.push([positions.get(n)!, positions.get(c)!]))
+      })
+      edges.sort((a, b) => a[0] - b[0] || a[1] - b[1])
+      crossings += countInversions(edges.map(edge => edge[1]))
+    })
+    return crossings
+  }
+
+  // units move towards the middle of their parents and children, keeping the order and node_separation between cards
+  function positionLayers() {
+    const unit_gap = node_separation * .25
+    layers.forEach(layer => {
+      let x = 0
+      layer.forEach(unit => {
+        unit.forEach(n => {n.x = x; x += node_separation})
+        x += unit_gap
+      })
+    })
+
+    for (let i = 0; i < POSITIONING_ITERATIONS; i++) {
+      const down = i % 2 === 0
+      const indexes = layers.map((_, li) => li)
+      if (!down) indexes.reverse()
+      indexes.forEach(li => {
+        const layer = layers[li]
+        const desired = layer.map(unit => {
+          const neighbours = [...parentsOf(unit), ...childrenOf(unit)]
+          const center = neighbours.length > 0 ? mean(neighbours.map(n => n.x)) : unitCenter(unit)
+          return center - unitWidth(unit)/2
+        })
+        const from_left = [...desired]
+        for (let ui = 1; ui < layer.length; ui++) {
+          from_left[ui] = Math.max(from_left[ui], from_left[ui-1] + unitWidth(layer[ui-1]) + node_separation + unit_gap)
+        }
+        const from_right = [...desired]
+        for (let ui = layer.length - 2; ui >= 0; ui--) {
+          from_right[ui] = Math.min(from_right[ui], from_right[ui+1] - unitWidth(layer[ui]) - node_separation - unit_gap)
+        }
+        layer.forEach((unit, ui) => {
+          const left = (from_left[ui] + from_right[ui]) / 2
+          unit.forEach((n, ni) => n.x = left + ni*node_separation)
+        })
+      })
+    }
+
+    const main_x = nodes[main.id].x
+    Object.values(nodes).forEach(n => n.x -= main_x)
+  }
+
+  function unitWidth(unit: Unit) {
+    return (unit.length - 1) * node_separation
+  }
+
+  function unitCenter(unit: Unit) {
+    return unit[0].x + unitWidth(unit)/2
+  }
+
+  function createTreeData() {
+    const tree_data: Record<Datum['id'], TreeDatum> = {}
+    Object.values(nodes).forEach(n => {
+      tree_data[n.datum.id] = {
+        data: n.datum,
+        x: n.x,
+        y: n.generation * level_separation,
+        depth: n.steps,
+      }
+    })
+    Object.values(nodes).forEach(n => {
+      const d = tree_data[n.datum.id]
+      const from = n.from ? tree_data[n.from.datum.id] : d
+      d.psx = from.x
+      d.psy = from.y
+      const parents = n.datum.rels.parents.map(id => tree_data[id]).filter(p => p && nodes[p.data.id].generation < n.generation)
+      if (parents.length > 0) d.parents = parents
+      const spouses = (n.datum.rels.spouses || []).map(id => tree_data[id]).filter(sp => sp)
+      if (spouses.length > 0) d.spouses = spouses
+      if (n.datum.to_add && spouses.length > 0) d.spouse = spouses[0]
+    })
+    return Object.values(tree_data)
+  }
+}
+
+function layerNodes(layer: Unit[]) {
+  const layer_nodes: GraphNode[] = []
+  layer.forEach(unit => layer_nodes.push(...unit))
+  return layer_nodes
+}
+
+// merge sort, counting pairs where the bigger value comes first
+function countInversions(values: number[]): number {
+  if (values.length < 2) return 0
+  const middle = Math.floor(values.length / 2)
+  const left = values.slice(0, middle)
+  const right = values.slice(middle)
+  let inversions = countInversions(left) + countInversions(right)
+  let li = 0
+  let ri = 0
+  for (let i = 0; i < values.length; i++) {
+    if (ri >= right.length || (li < left.length && left[li] <= right[ri])) {
+      values[i] = left[li++]
+    } else {
+      values[i] = right[ri++]
+      inversions += left.length - li
+    }
+  }
+  return inversions
+}
+
+function mean(values: number[]) {
+  return values.reduce((acc, v) => acc + v, 0) / values.length
+}
@@ -0,0 +1,156 @@
+import { Data, Datum } from "../types/data"
+import { getUnion } from "../store/union"
+import { parseDate, getDateRange } from "../store/date"
+
+export type TimelineRelative = 'parents' | 'spouses' | 'siblings' | 'children'
+
+export interface TimelineOptions {
+  /** datum.data key of birth date. default 'birthday' */
+  birth_field?: string
+  /** datum.data key of death date. default 'death' */
+  death_field?: string
+  /** datum.data key of marriage date, used when union of the spouses has no date. default 'marriage date' */
+  marriage_field?: string
+  /** relatives of the main person that are shown. default all */
+  relatives?: TimelineRelative[]
+  /** px per year. default 12 */
+  year_width?: number
+  /** height of a person row. default 40 */
+  row_height?: number
+  /** text next to the life span. default is first name and last name */
+  getLabel?: (d: Datum) => string
+}
+
+export interface TimelineEvent {
+  type: 'birth' | 'death' | 'marriage'
+  year: number
+  /** other spouse for marriage event */
+  rel_id?: Datum['id']
+}
+
+export interface TimelineRow {
+  datum: Datum
+  relation: 'main' | 'parent' | 'spouse' | 'sibling' | 'child'
+  /** life span in years, null if person has no dates */
+  start: number | null
+  end: number | null
+  /** no death date and person could still be alive, the bar ends at the current year */
+  is_open: boolean
+  events: TimelineEvent[]
+  x: number
+  y: number
+  width: number
+}
+
+export interface Timeline {
+  rows: TimelineRow[]
+  min_year: number
+  max_year: number
+  x: (year: number) => number
+  dim: { width: number; height: number; x_off: number; y_off: number }
+}
+
+const MAX_LIFE_SPAN = 110
+const LABEL_WIDTH = 200
+
+/**
+ * Calculate life spans and events of the main person and their close relatives.
+ * Rows are sorted by birth, people without any date are left out, except the main person.
+ * @param main_id - id of the main person
+ * @param data - family data
+ * @param options - date fields, relatives and sizes
+ * @returns rows with positions on the time axis
+ */
+export default function calculateTimeline(main_id: Datum['id'], data: Data, options: TimelineOptions = {}): Timeline {
+  const {
+    birth_field = 'birthday',
+    death_field = 'death',
+    marriage_field = 'marriage date',
+    relatives = ['parents', 'spouses', 'siblings', 'children'],
+    year_width = 12,
+    row_height = 40
+  } = options
+  const main = data.find(d => d.id === main_id)
+  if (!main) throw new Error('Main not found')
+  const current_year = new Date().getFullYear()
+
+  const rows = getPersons().map(([datum, relation]) => createRow(datum, relation))
+    .filter(row => row.relation === 'main' || row.start !== null || row.events.length > 0)
+    .sort((a, b) => (a.start ?? Infinity) - (b.start ?? Infinity))
+
+  const years: number[] = []
+  rows.forEach(row => {
+    if (row.start !== null) years.push(row.start)
+    if (row.end !== null) years.push(row.end)
+    row.events.forEach(e => years.push(e.year))
+  })
+  const min_year = years.length > 0 ? Math.floor(Math.min(...years) / 10) * 10 : current_year - 100
+  const max_year = years.length > 0 ? Math.ceil(Math.max(...years) / 10) * 10 : current_year
+  const x = (year: number) => (year - min_year) * year_width
+
+  rows.forEach((row, i) => {
+    row.y = i * row_height
+    row.x = row.start !== null ? x(row.start) : 0
+    row.width = row.start !== null && row.end !== null ? x(row.end) - x(row.start) : 0
+  })
+
+  const width = (max_year - min_year) * year_width
+  const height = rows.length * row_height
+  return {
+    rows,
+    min_year,
+    max_year,
+    x,
+    dim: {width: width + LABEL_WIDTH*2, height: height + row_height*2, x_off: LABEL_WIDTH, y_off: row_height*1.5}
+  }
+
+  function getPersons() {
+    const persons: [Datum, TimelineRow['relation']][] = [[main!, 'main']]
+    const add = (ids: Datum['id'][], relation: TimelineRow['relation']) => {
+      ids.forEach(id => {
+        const datum = data.find(d => d.id === id)
+        if (!datum || datum.to_add || datum.unknown || datum._new_rel_data) return
+        if (persons.some(([d]) => d.id === id)) return
+        persons.push([datum, relation])
+      })
+    }
+    if (relatives.includes('parents')) add(main!.rels.parents, 'parent')
+    if (relatives.includes('spouses')) add(main!.rels.spouses || [], 'spouse')
+    if (relatives.includes('siblings')) {
+      const siblings = data.filter(d => d.id !== main!.id && d.rels.parents.some(p_id => main!.rels.parents.includes(p_id)))
+      add(siblings.map(d => d.id), 'sibling')
+    }
+    if (relatives.includes('children')) add(main!.rels.children || [], 'child')
+    return persons
+  }
+
+  function createRow(datum: Datum, relation: TimelineRow['relation']): TimelineRow {
+    const birth = getYear(datum.data[birth_field])
+    const death = getYear(datum.data[death_field])
+    const events: TimelineEvent[] = []
+    if (birth !== null) events.push({type: 'birth', year: birth})
+    if (death !== null) events.push({type: 'death', year: death})
+    const spouses = datum.rels.spouses || []
+    spouses.forEach(sp_id => {
+      const date = getUnion(datum, sp_id)?.date || (spouses.length === 1 ? datum.data[marriage_field] : undefined)
+      const year = getYear(date)
+      if (year !== null) events.push({type: 'marriage', year, rel_id: sp_id})
+    })
+
+    const start = birth ?? death
+    let end = death ?? birth
+    const is_open = death === null && birth !== null && current_year - birth < MAX_LIFE_SPAN
+    if (is_open) end = current_year
+
+    return {datum, relation, start, end, is_open, events, x: 0, y: 0, width: 0}
+  }
+}
+
+// position on the time axis: start of the date, or its end for dates that only have an end (bef 1900)
+function getYear(value: unknown): number | null {
+  if (typeof value === 'number') return value
+  const date = typeof value === 'string' ? parseDate(value) : null
+  if (!date) return null
+  const [start, end] = getDateRange(date, 0)
+  return isFinite(start) ? start : end
+}
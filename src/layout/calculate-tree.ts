@@ -1,16 +1,35 @@
 import * as d3 from "d3";
 import { sortChildrenWithSpouses, sortAddNewChildren, setupSiblings, handlePrivateCards } from "./handlers";
-import { createNewPerson } from "../store/new-person";
+import { createNewPerson, getSpouseGender } from "../store/new-person";
 import { isAllRelativeDisplayed } from "../handlers/general";
 import { handleDuplicateSpouseToggle, handleDuplicateHierarchyProgeny } from "../features/duplicates-toggle/duplicates-progeny";
 import { handleDuplicateHierarchyAncestry } from "../features/duplicates-toggle/duplicates-ancestry";
+import calculateGraph from "./calculate-graph";
 import type { Datum, Data } from "../types/data";
 import type { TreeDatum, TreeData } from "../types/treeData";
 
 interface HN extends d3.HierarchyNode<Datum> {}
 
+/**
+ * - 'hourglass' - ancestry and progeny around the main person
+ * - 'pedigree' - ancestry of the main person only, without spouses and progeny
+ * - 'descendants' - progeny of the main person with spouses, without ancestry
+ * - 'graph' - everyone connected to the main person within graph_depth steps
+ */
+export type LayoutMode = 'hourglass' | 'pedigree' | 'descendants' | 'graph'
+
+export const LAYOUT_MODE_DEFAULTS: Record<LayoutMode, {node_separation: number, level_separation: number}> = {
+  hourglass: {node_separation: 250, level_separation: 150},
+  pedigree: {node_separation: 240, level_separation: 120},
+  descendants: {node_separation: 250, level_separation: 150},
+  graph: {node_separation: 250, level_separation: 180},
+}
+
 export interface CalculateTreeOptions {
   main_id?: string | null;
+  layout_mode?: LayoutMode;
+  /** max number of parent, child or spouse steps from the main person in graph layout mode */
+  graph_depth?: number;
   node_separation?: number;
   level_separation?: number;
   single_parent_empty_card?: boolean;
@@ -25,6 +44,8 @@ export interface CalculateTreeOptions {
   private_cards_config?: any;
   duplicate_branch_toggle?: boolean;
   on_toggle_one_close_others?: boolean;
+  /** branches where no person passes are collapsed. not used in graph layout mode */
+  filter?: ((d: Datum) => boolean) | null;
 }
 
 export interface Tree {
@@ -33,13 +54,18 @@ export interface Tree {
   dim: { width: number; height: number; x_off: number; y_off: number };
   main_id: string;
   is_horizontal: boolean;
+  layout_mode: LayoutMode;
+  node_separation: number;
+  level_separation: number;
 }
 
 
 export default function calculateTree(data: Data, {
   main_id = null,
-  node_separation = 250,
-  level_separation = 150,
+  layout_mode = 'hourglass',
+  graph_depth = 3,
+  node_separation: node_separation_option = undefined,
+  level_separation: level_separation_option = undefined,
   single_parent_empty_card = true,
   is_horizontal = false,
   one_level_rels = false,
@@ -52,8 +78,15 @@ export default function calculateTree(data: Data, {
   private_cards_config = undefined,
   duplicate_branch_toggle = false,
   on_toggle_one_close_others = true,
+  filter = null,
 }: CalculateTreeOptions): Tree {
   if (!data || !data.length) throw new Error('No data')
+  if (!LAYOUT_MODE_DEFAULTS[layout_mode]) throw new Error(`Unknown layout mode ${layout_mode}`)
+  let node_separation = node_separation_option ?? LAYOUT_MODE_DEFAULTS[layout_mode].node_separation
+  let level_separation = level_separation_option ?? LAYOUT_MODE_DEFAULTS[layout_mode].level_separation
+  const separations = {node_separation, level_separation}
+  const has_ancestry = layout_mode !== 'descendants'
+  const has_progeny = layout_mode !== 'pedigree'
 
   if (is_horizontal) [node_separation, level_separation] = [level_separation, node_separation]
   const data_stash:Data = single_parent_empty_card ? createRelsToAdd(data) : data
@@ -62,25 +95,33 @@ export default function calculateTree(data: Data, {
   const main = data_stash.find(d => d.id === main_id)
   if (!main) throw new Error('Main not found')
 
-  const tree_children = calculateTreePositions(main, 'children', false) as TreeDatum[]
-  const tree_parents = calculateTreePositions(main, 'parents', true) as TreeDatum[]
-
   data_stash.forEach(d => d.main = d === main)
-  levelOutEachSide(tree_parents, tree_children)
-  const tree = mergeSides(tree_parents, tree_children)
-  setupChildrenAndParents(tree)
-  setupSpouses(tree, node_separation)
-  if (show_siblings_of_main && !one_level_rels) setupSiblings({tree, data_stash, node_separation, sortChildrenFunction})
-  setupProgenyParentsPos(tree)
+  const tree = layout_mode === 'graph'
+    ? calculateGraph(main, data_stash, {max_steps: graph_depth, node_separation, level_separation, sortChildrenFunction})
+    : calculateHierarchy(main)
   nodePositioning(tree)
   tree.forEach(d => d.all_rels_displayed = isAllRelativeDisplayed(d, tree))
   if (private_cards_config) handlePrivateCards({tree, data_stash, private_cards_config})
   setupTid(tree)
   // setupFromTo(tree)
-  if (duplicate_branch_toggle) handleDuplicateSpouseToggle(tree)
+  if (duplicate_branch_toggle && layout_mode !== 'graph') handleDuplicateSpouseToggle(tree)
   const dim = calculateTreeDim(tree, node_separation, level_separation)
 
-  return {data: tree, data_stash, dim, main_id: main.id, is_horizontal}
+  return {data: tree, data_stash, dim, main_id: main.id, is_horizontal, layout_mode, ...separations}
+
+  function calculateHierarchy(main:Datum) {
+    const tree_children = calculateTreePositions(main, 'children', false) as TreeDatum[]
+    const tree_parents = calculateTreePositions(main, 'parents', true) as TreeDatum[]
+
+    levelOutEachSide(tree_parents, tree_children)
+    const tree = mergeSides(tree_parents, tree_children)
+    setupChildrenAndParents(tree)
+    setupSpouses(tree, node_separation)
+    if (layout_mode !== 'hourglass') resolveCollisions(tree, node_separation)
+    if (show_siblings_of_main && !one_level_rels && has_ancestry) setupSiblings({tree, data_stash, node_separation, sortChildrenFunction})
+    setupProgenyParentsPos(tree)
+    return tree
+  }
 
   function calculateTreePositions(datum:Datum, rt:'children' | 'parents', is_ancestry:boolean) {
     const hierarchyGetter = rt === "children" ? hierarchyGetterChildren : hierarchyGetterParents
@@ -88,6 +129,7 @@ export default function calculateTree(data: Data, {
     const root = d3.hierarchy<Datum>(datum, hierarchyGetter)
 
     trimTree(root, is_ancestry)
+    if (filter) filterTree(root, is_ancestry)
     if (duplicate_branch_toggle) handleDuplicateHierarchy(root, data_stash, is_ancestry)
     if (modifyTreeHierarchy) modifyTreeHierarchy(root, is_ancestry)
     d3_tree(root);
@@ -167,7 +209,7 @@ export default function calculateTree(data: Data, {
   function setupSpouses(tree:TreeDatum[], node_separation:number) {
     for (let i = tree.length; i--;) {
       const d = tree[i]
-      if (!d.is_ancestry) {
+      if (!d.is_ancestry && has_progeny) {
         let spouses = d.data.rels.spouses || []
         if (d._ignore_spouses) spouses = spouses.filter(sp_id => !d._ignore_spouses!.includes(sp_id))
         if (spouses.length > 0) {
@@ -254,6 +296,37 @@ export default function calculateTree(data: Data, {
 
   }
 
+  // cards on the same level are pushed apart together with their branch, so they are at least node_separation apart
+  function resolveCollisions(tree:TreeDatum[], node_separation:number) {
+    const levels: Record<string, TreeDatum[]> = {}
+    tree.forEach(d => {
+      const key = `${d.is_ancestry ? 'a' : 'p'}${d.depth}`
+      if (!levels[key]) levels[key] = []
+      levels[key].push(d)
+    })
+    const max_depth = Math.max(...tree.map(d => d.depth))
+    for (let depth = 0; depth <= max_depth; depth++) {
+      ['p', 'a'].forEach(side => {
+        const level = (levels[`${side}${depth}`] || []).sort((a, b) => a.x - b.x)
+        let offset = 0
+        level.forEach((d, i) => {
+          if (i > 0) {
+            const gap = d.x + offset - level[i-1].x
+            if (gap < node_separation) offset += node_separation - gap
+          }
+          if (offset > 0) shiftBranch(d, offset)
+        })
+      })
+    }
+
+    function shiftBranch(d:TreeDatum, offset:number) {
+      d.x += offset
+      if (d.sx !== undefined) d.sx += offset
+      const branch = d.is_ancestry ? (d.parents || []) : [...(d.children || [])]
+      branch.forEach(d0 => shiftBranch(d0, offset))
+    }
+  }
+
   function calculateTreeDim(tree:TreeDatum[], node_separation:number, level_separation:number) {
     if (is_horizontal) [node_separation, level_separation] = [level_separation, node_separation]
     const w_extent = d3.extent(tree, (d:TreeDatum) => d.x)
@@ -295,7 +368,7 @@ export default function calculateTree(data: Data, {
 
     function createToAddSpouse(d:Datum) {
       const spouse = createNewPerson({
-        data: {gender: d.data.gender === "M" ? "F" : "M"},
+        data: {gender: getSpouseGender(d.data.gender)},
         rels: {spouses: [d.id]}
       }) as Datum
       spouse.to_add = true;
@@ -309,6 +382,7 @@ export default function calculateTree(data: Data, {
   function trimTree(root:HN, is_ancestry:boolean) {
     let max_depth = is_ancestry ? ancestry_depth : progeny_depth
     if (one_level_rels) max_depth = 1
+    if (is_ancestry ? !has_ancestry : !has_progeny) max_depth = 0
     if (!max_depth && max_depth !== 0) return root
 
     trimNode(root, 0)
@@ -326,6 +400,25 @@ export default function calculateTree(data: Data, {
     }
   }
   
+  // main is always kept. on progeny side spouses are shown with the person, so they are part of the branch
+  function filterTree(root:HN, is_ancestry:boolean) {
+    filterNode(root)
+
+    function filterNode(node:HN): boolean {
+      let passes = node === root || passesFilter(node.data)
+      if (!is_ancestry) passes = passes || (node.data.rels.spouses || []).some(sp_id => passesFilter(data_stash.find(d => d.id === sp_id)))
+      if (node.children) {
+        node.children = node.children.filter(child => filterNode(child))
+        if (node.children.length === 0) delete node.children
+      }
+      return passes || !!node.children
+    }
+
+    function passesFilter(d: Datum | undefined) {
+      return !!d && !d.to_add && !d.unknown && filter!(d)
+    }
+  }
+
   function handleDuplicateHierarchy(root:HN, data_stash:Data, is_ancestry:boolean) {
     if (is_ancestry) handleDuplicateHierarchyAncestry(root, on_toggle_one_close_others)
     else handleDuplicateHierarchyProgeny(root, data_stash, on_toggle_one_close_others)
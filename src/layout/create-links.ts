@@ -1,5 +1,8 @@
 import { TreeDatum } from "../types/treeData"
 import { Tree } from "./calculate-tree"
+import { Union } from "../types/data"
+import { getUnion } from "../store/union"
+import { getParentRelationType, ParentRelationType } from "../store/parent-relation"
 
 export interface Link {
   d: [number, number][]
@@ -11,6 +14,8 @@ export interface Link {
   source: TreeDatum | TreeDatum[]
   target: TreeDatum | TreeDatum[]
   spouse?: boolean
+  union_type?: Union['type']
+  parent_type?: Exclude<ParentRelationType, 'biological'>
 }
 
 type LinkPoint = {x: number, y: number, _x?: number, _y?: number}
@@ -43,6 +48,7 @@ export function createLinks(d: TreeDatum, is_horizontal: boolean = false) {
       id: linkId(d, p1, p2), 
       depth: d.depth+1, 
       is_ancestry: true,
+      parent_type: getParentLinkType(d, [p1, p2]),
       source: d,
       target: [p1, p2]
     })
@@ -65,6 +71,7 @@ export function createLinks(d: TreeDatum, is_horizontal: boolean = false) {
         id: linkId(child, d, other_parent),
         depth: d.depth+1,
         is_ancestry: false,
+        parent_type: getParentLinkType(child, [d, other_parent]),
         source: [d, other_parent],
         target: child
       })
@@ -90,6 +97,7 @@ export function createLinks(d: TreeDatum, is_horizontal: boolean = false) {
         id: linkId(d, spouse), 
         depth: d.depth, 
         spouse: true, 
+        union_type: getUnion(d.data, spouse.data.id)?.type,
         is_ancestry: spouse.is_ancestry, 
         source: d, 
         target: spouse
@@ -141,6 +149,12 @@ export function createLinks(d: TreeDatum, is_horizontal: boolean = false) {
     return args.map(d => d.tid).sort().join(", ")  // make unique id
   }
 
+  // link to both parents gets the style of the non-biological parent, e.g. child with mother and step-father
+  function getParentLinkType(child: TreeDatum, parents: TreeDatum[]) {
+    const types = parents.map(p => getParentRelationType(child.data, p.data.id))
+    return types.find(type => type !== 'biological') as Link['parent_type']
+  }
+
   function otherParent(child: TreeDatum, p1: TreeDatum) {
     const p2 = (p1.spouses || []).find(d => child.data.rels.parents.includes(d.data.id))
     return p2
@@ -1,4 +1,6 @@
+import * as d3 from "d3"
 import { TreeDatum } from "../types/treeData"
+import { Datum } from "../types/data"
 import { Link } from "./create-links"
 import { CardHtmlSelection, LinkSelection } from "../types/view"
 
@@ -146,4 +148,30 @@ export default function pathToMain(cards: CardHtmlSelection, links: LinkSelectio
       return child_links.find(d => d.source === main_datum)
     }
   }
-}
\ No newline at end of file
+}
+/**
+ * Cards of the people of the path and links between neighbouring people of the path.
+ * Unlike pathToMain, the path can be between any two people, see findPath.
+ */
+export function pathBetween<CardElement extends Element>(cards: d3.Selection<CardElement, TreeDatum, d3.BaseType, unknown>, links: LinkSelection, path_ids: Datum['id'][]) {
+  const links_node_in_path: {link: Link, node: SVGPathElement}[] = []
+  const cards_node_in_path: {card: TreeDatum, node: CardElement}[] = []
+
+  cards.each(function(d) {
+    if (path_ids.includes(d.data.id)) cards_node_in_path.push({card: d, node: this})
+  })
+  links.each(function(d) {
+    const source_ids = toIds(d.source), target_ids = toIds(d.target)
+    const in_path = path_ids.some((id, i) => {
+      const next_id = path_ids[i + 1]
+      if (!next_id) return false
+      return (source_ids.includes(id) && target_ids.includes(next_id)) || (source_ids.includes(next_id) && target_ids.includes(id))
+    })
+    if (in_path) links_node_in_path.push({link: d, node: this})
+  })
+  return {cards_node_in_path, links_node_in_path}
+
+  function toIds(d: TreeDatum | TreeDatum[]) {
+    return (Array.isArray(d) ? d : [d]).map(d0 => d0.data.id)
+  }
+}
@@ -4,6 +4,7 @@ import {handleCardDuplicateToggle} from "../features/duplicates-toggle/duplicate
 import { Store } from "../types/store";
 import { TreeDatum } from "../types/treeData";
 import { CardDim } from "../types/card";
+import { escapeHtml } from "../features/field-types"
 
 export default function CardHtml(props: {
   style: 'default' | 'imageCircleRect' | 'imageCircle' | 'imageRect' | 'rect';
@@ -33,6 +34,7 @@ export default function CardHtml(props: {
     this.innerHTML = (`
     <div class="card ${getClassList(d).join(' ')}" data-id="${d.tid}" style="transform: translate(-50%, -50%); pointer-events: auto;">
       ${props.mini_tree ? getMiniTree(d) : ''}
+      ${getWarningBadge(d)}
       ${(props.cardInnerHtmlCreator && !d.data._new_rel_data) ? props.cardInnerHtmlCreator(d) : cardInner(d)}
     </div>
     `)
@@ -175,6 +177,14 @@ export default function CardHtml(props: {
     return `<div class="person-icon" ${getCardImageStyle()}>${props.defaultPersonIcon ? props.defaultPersonIcon(d) : personSvgIcon()}</div>`
   }
 
+  function getWarningBadge(d: TreeDatum) {
+    if (d.data._new_rel_data || d.data.to_add || d.data.unknown) return ''
+    const issues = props.store.getConsistencyIssues(d.data.id)
+    if (issues.length === 0) return ''
+    const title = escapeHtml(issues.map(issue => issue.message).join('\n'))
+    return `<div class="f3-card-warning" title="${title}">!</div>`
+  }
+
   function getCardDuplicateTag(d: TreeDatum) {
     return `<div class="f3-card-duplicate-tag">x${d.duplicate}</div>`
   }
@@ -56,6 +56,7 @@ export default function CardSvg(props: CardSvgProps) {
 
       if (props.img) appendElement(cardElements.cardImage(d, props)!, this.querySelector('.card')!)
       if (props.mini_tree) appendElement(cardElements.miniTree(d, props)!, this.querySelector('.card')!, true)
+      appendElement(cardElements.warningBadge(d, props)!, this.querySelector('.card')!)
     }
 
     if (props.onCardUpdate) props.onCardUpdate.call(this, d)
@@ -13,7 +13,8 @@ import { CardDim } from "./templates"
 const CardElements = {
   miniTree,
   cardBody,
-  cardImage
+  cardImage,
+  warningBadge
 }
 export default CardElements
 
@@ -51,6 +52,18 @@ function cardImage(d: TreeDatum, props: {card_dim: CardDim, store: Store}) {
   return g.node()
 }
 
+// consistency issues of the person, message of each issue is shown on hover
+function warningBadge(d: TreeDatum, props: {card_dim: CardDim, store: Store}) {
+  if (d.data.to_add || d.data.unknown) return
+  const issues = props.store.getConsistencyIssues(d.data.id)
+  if (issues.length === 0) return
+  const g = d3.create('svg:g').attr('class', 'f3-card-warning').attr('transform', `translate(${props.card_dim.w - 12}, 12)`)
+  g.append('circle').attr('r', 9)
+  g.append('text').attr('text-anchor', 'middle').attr('dy', '0.35em').text('!')
+  g.append('title').text(issues.map(issue => issue.message).join('\n'))
+  return g.node()
+}
+
 export function appendElement(el_maybe: Element, parent: Element, is_first: boolean = false) {
   if (!el_maybe) return
   if (is_first) parent.insertBefore(el_maybe, parent.firstChild)
@@ -1,10 +1,12 @@
-import { EditDatumFormCreator, NewRelFormCreator, SelectField } from '../types/form'
+import { EditDatumFormCreator, NewRelFormCreator, SelectField, UnionField, Field } from '../types/form'
+import { getUnionFormKey } from '../store/union'
 import * as icons from './icons'
+import { getFieldType, serialiseFieldValue, escapeHtml, CustomField } from '../features/field-types'
 
 
 export function getHtmlNew(form_creator: NewRelFormCreator) {
   return (` 
-    <form id="familyForm" class="f3-form">
+    <form id="familyForm" class="f3-form" novalidate>
       ${closeBtn()}
       <h3 class="f3-form-title">${form_creator.title}</h3>
       ${genderRadio(form_creator)}
@@ -23,13 +25,15 @@ export function getHtmlNew(form_creator: NewRelFormCreator) {
 
 export function getHtmlEdit(form_creator: EditDatumFormCreator) {
   return (` 
-    <form id="familyForm" class="f3-form ${form_creator.editable ? '' : 'non-editable'}">
+    <form id="familyForm" class="f3-form ${form_creator.editable ? '' : 'non-editable'}" novalidate>
       ${closeBtn()}
       <div style="text-align: right; display: 'block'">
         ${!form_creator.no_edit ? addRelativeBtn(form_creator) : ''}
         ${form_creator.no_edit ? spaceDiv() : editBtn(form_creator)}
       </div>
 
+      ${warnings(form_creator)}
+
       ${genderRadio(form_creator)}
 
       ${fields(form_creator)}
@@ -51,6 +55,15 @@ export function getHtmlEdit(form_creator: EditDatumFormCreator) {
   
 }
 
+function warnings(form_creator: EditDatumFormCreator) {
+  if (form_creator.warnings.length === 0) return ''
+  return (`
+    <div class="f3-form-warnings">
+      ${form_creator.warnings.map(warning => `<div class="f3-form-warning">${escapeHtml(warning)}</div>`).join('')}
+    </div>
+  `)
+}
+
 function deleteBtn(form_creator: EditDatumFormCreator) {
   return (`
     <div>
@@ -109,31 +122,52 @@ function fields(form_creator: EditDatumFormCreator | NewRelFormCreator) {
   if (!form_creator.editable) return infoField()
   let fields_html = ''
   form_creator.fields.forEach(field => {
-    if (field.type === 'text') {
+    const field_type = getFieldType(field.type)
+    if (field_type) {
       fields_html += `
-      <div class="f3-form-field">
-        <label>${field.label}</label>
+      <div class="f3-form-field f3-form-field-${field.type}" data-field-id="${escapeHtml(field.id)}">
+        ${fieldLabel(field)}
+        ${field_type.render(field as CustomField)}
+        ${fieldError()}
+      </div>`
+    } else if (field.type === 'text') {
+      fields_html += `
+      <div class="f3-form-field" data-field-id="${escapeHtml(field.id)}">
+        ${fieldLabel(field)}
         <input type="${field.type}" 
           name="${field.id}" 
           value="${field.initial_value || ''}"
           placeholder="${field.label}">
+        ${fieldError()}
+      </div>`
+    } else if (field.type === 'date') {
+      fields_html += `
+      <div class="f3-form-field f3-date-field" data-field-id="${escapeHtml(field.id)}">
+        ${fieldLabel(field)}
+        <input type="text" 
+          name="${field.id}" 
+          value="${field.initial_value || ''}"
+          placeholder="e.g. 1850, abt 1850, bef 1900, 1850-1855">
+        ${fieldError()}
       </div>`
     } else if (field.type === 'textarea') {
       fields_html += `
-      <div class="f3-form-field">
-        <label>${field.label}</label>
+      <div class="f3-form-field" data-field-id="${escapeHtml(field.id)}">
+        ${fieldLabel(field)}
         <textarea name="${field.id}" 
           placeholder="${field.label}">${field.initial_value || ''}</textarea>
+        ${fieldError()}
       </div>`
     } else if (field.type === 'select') {
       const select_field = field as SelectField
       fields_html += `
-      <div class="f3-form-field">
-        <label>${select_field.label}</label>
+      <div class="f3-form-field" data-field-id="${escapeHtml(select_field.id)}">
+        ${fieldLabel(select_field)}
         <select name="${select_field.id}" value="${select_field.initial_value || ''}">
           <option value="">${select_field.placeholder || `Select ${select_field.label}`}</option>
           ${select_field.options.map((option) => `<option ${option.value === select_field.initial_value ? 'selected' : ''} value="${option.value}">${option.label}</option>`).join('')}
         </select>
+        ${fieldError()}
       </div>`
     } else if (field.type === 'rel_reference') {
       fields_html += `
@@ -144,6 +178,25 @@ function fields(form_creator: EditDatumFormCreator | NewRelFormCreator) {
           value="${field.initial_value || ''}"
           placeholder="${field.label}">
       </div>`
+    } else if (field.type === 'union') {
+      const union_field = field as UnionField
+      const union = union_field.initial_value
+      fields_html += `
+      <div class="f3-form-field f3-union-field">
+        <label>${union_field.label} - <i>${escapeHtml(union_field.rel_label)}</i></label>
+        <select name="${getUnionFormKey(union_field.id, 'type')}">
+          <option value=""></option>
+          ${union_field.type_options.map(option => `<option ${option.value === union.type ? 'selected' : ''} value="${option.value}">${option.label}</option>`).join('')}
+        </select>
+        <input type="text" 
+          name="${getUnionFormKey(union_field.id, 'date')}" 
+          value="${escapeHtml(union.date || '')}"
+          placeholder="Date">
+        <input type="text" 
+          name="${getUnionFormKey(union_field.id, 'end_date')}" 
+          value="${escapeHtml(union.end_date || '')}"
+          placeholder="End date">
+      </div>`
     }
   })
   return fields_html
@@ -151,13 +204,32 @@ function fields(form_creator: EditDatumFormCreator | NewRelFormCreator) {
   function infoField() {
     let fields_html = ''
     form_creator.fields.forEach(field => {
-      if (field.type === 'rel_reference') {
+      const field_type = getFieldType(field.type)
+      if (field_type) {
+        const value = field_type.renderInfo ? field_type.renderInfo(field as CustomField) : escapeHtml(serialiseFieldValue(field as CustomField))
+        fields_html += `
+        <div class="f3-info-field">
+          <span class="f3-info-field-label">${field.label}</span>
+          <span class="f3-info-field-value">${value}</span>
+        </div>`
+      } else if (field.type === 'rel_reference') {
         if (!field.initial_value) return
         fields_html += `
         <div class="f3-info-field">
           <span class="f3-info-field-label">${field.label} - <i>${field.rel_label}</i></span>
           <span class="f3-info-field-value">${field.initial_value || ''}</span>
         </div>`
+      } else if (field.type === 'union') {
+        const union_field = field as UnionField
+        const union = union_field.initial_value
+        if (!union.type && !union.date && !union.end_date) return
+        const type_label = union_field.type_options.find(option => option.value === union.type)?.label || ''
+        const dates = [union.date, union.end_date].filter(date => date).join(' - ')
+        fields_html += `
+        <div class="f3-info-field">
+          <span class="f3-info-field-label">${union_field.label} - <i>${escapeHtml(union_field.rel_label)}</i></span>
+          <span class="f3-info-field-value">${escapeHtml([type_label, dates].filter(v => v).join(', '))}</span>
+        </div>`
       } else if (field.type === 'select') {
         const select_field = field as SelectField
         if (!field.initial_value) return
@@ -178,6 +250,32 @@ function fields(form_creator: EditDatumFormCreator | NewRelFormCreator) {
   }
 }
 
+function fieldLabel(field: Field) {
+  return `<label>${field.label}${field.required ? ' <span class="f3-form-required">*</span>' : ''}</label>`
+}
+
+function fieldError() {
+  return `<div class="f3-form-field-error"></div>`
+}
+
+/**
+ * Show error messages under the fields, fields without an error are cleared.
+ * @param errors - error messages by field id
+ */
+export function setFormErrors(form: HTMLFormElement, errors: Record<string, string>) {
+  form.querySelectorAll<HTMLElement>('.f3-form-field[data-field-id]').forEach(el => {
+    setFieldError(el, errors[el.getAttribute('data-field-id')!] || '')
+  })
+  const first_invalid = form.querySelector<HTMLElement>('.f3-form-field-invalid input, .f3-form-field-invalid select, .f3-form-field-invalid textarea')
+  if (first_invalid) first_invalid.focus()
+}
+
+export function setFieldError(field_el: HTMLElement, error: string) {
+  field_el.classList.toggle('f3-form-field-invalid', !!error)
+  const error_el = field_el.querySelector('.f3-form-field-error')
+  if (error_el) error_el.textContent = error
+}
+
 function addLinkExistingRelative(form_creator: EditDatumFormCreator | NewRelFormCreator) {
   const title = form_creator.linkExistingRelative.hasOwnProperty('title') ? form_creator.linkExistingRelative.title : 'Profile already exists?'
   const select_placeholder = form_creator.linkExistingRelative.hasOwnProperty('select_placeholder') ? form_creator.linkExistingRelative.select_placeholder : 'Select profile'
@@ -1,5 +1,6 @@
 import { EditDatumFormCreator, NewRelFormCreator } from '../types/form'
-import { getHtmlEdit, getHtmlNew } from './create-form-html'
+import { getHtmlEdit, getHtmlNew, setFieldError } from './create-form-html'
+import { getFieldType, CustomField } from '../features/field-types'
 
 
 export function createFormNew(form_creator: NewRelFormCreator, closeCallback: () => void) {
@@ -45,6 +46,19 @@ function setupEventListenersBase(formContainer: HTMLElement, form_creator: EditD
   const close_btn = form.querySelector('.f3-close-btn')!;
   close_btn.addEventListener('click', closeCallback)
 
+  // errors are shown on submit, error of a field is cleared when its value is changed
+  form.querySelectorAll<HTMLElement>('.f3-form-field[data-field-id]').forEach(field_el => {
+    field_el.addEventListener('input', () => setFieldError(field_el, ''))
+  })
+
+  if (form_creator.editable) {
+    form_creator.fields.forEach((field: CustomField) => {
+      const field_type = getFieldType(field.type)
+      const el = form.querySelector(`.f3-form-field[data-field-id="${CSS.escape(field.id)}"]`) as HTMLElement | null
+      if (field_type && field_type.setup && el) field_type.setup(el, field)
+    })
+  }
+
   function onCancel() {
     form_creator.editable = false
     if (form_creator.onCancel) form_creator.onCancel()
@@ -91,6 +91,15 @@ export function historyForwardIcon() {
   `)
 }
 
+export function historyListIcon() {
+  return (`
+    <g data-icon="history-list">
+      ${bgCircle()}
+      <path d="M13.5,8H12V13L16.28,15.54L17,14.33L13.5,12.25V8M13,3A9,9 0 0,0 4,12H1L4.96,16.03L9,12H6A7,7 0 0,1 13,5A7,7 0 0,1 20,12A7,7 0 0,1 13,19C11.07,19 9.32,18.21 8.06,16.94L6.64,18.36C8.27,20 10.5,21 13,21A9,9 0 0,0 22,12A9,9 0 0,0 13,3Z" />
+    </g>
+  `)
+}
+
 export function personIcon() {
   return (`
     <g data-icon="person">
@@ -184,6 +193,7 @@ export function pencilOffSvgIcon() { return svgWrapper(pencilOffIcon()) }
 export function trashSvgIcon() { return svgWrapper(trashIcon()) }
 export function historyBackSvgIcon() { return svgWrapper(historyBackIcon()) }
 export function historyForwardSvgIcon() { return svgWrapper(historyForwardIcon()) }
+export function historyListSvgIcon() { return svgWrapper(historyListIcon()) }
 export function personSvgIcon() { return svgWrapper(personIcon(), '0 0 512 512') }
 export function miniTreeSvgIcon() { return svgWrapper(miniTreeIcon(), '0 0 72 25') }
 export function toggleSvgIconOn() { return svgWrapper(toggleIconOn()) }
@@ -3,6 +3,7 @@ import {calculateEnterAndExitPositions} from "../layout/handlers"
 import {calculateDelay} from "../handlers/general"
 import { Tree } from "../layout/calculate-tree"
 import { ViewProps } from "./view"
+import { cardOpacity } from "./view-common"
 import { TreeDatum } from "../types/treeData"
 import { CardHtmlSelection } from "../types/view"
 
@@ -36,7 +37,7 @@ export default function updateCardsHtml(svg: SVGElement, tree: Tree, Card: any,
   function cardUpdate(this: HTMLDivElement, d: TreeDatum) {
     Card.call(this, d)
     const delay = props.initial ? calculateDelay(tree, d, props.transition_time!) : 0;
-    d3.select(this).transition().duration(props.transition_time!).delay(delay).style("transform", `translate(${d.x}px, ${d.y}px)`).style("opacity", 1)
+    d3.select(this).transition().duration(props.transition_time!).delay(delay).style("transform", `translate(${d.x}px, ${d.y}px)`).style("opacity", cardOpacity(d, props.highlight))
   }
 
   function cardExit(this: HTMLDivElement, d: unknown | TreeDatum) {
@@ -3,6 +3,7 @@ import {calculateEnterAndExitPositions} from "../layout/handlers"
 import {calculateDelay} from "../handlers/general"
 import { Tree } from "../layout/calculate-tree"
 import { ViewProps } from "./view"
+import { cardOpacity } from "./view-common"
 import { TreeDatum } from "../types/treeData"
 
 export default function updateCardsSvg(svg: SVGElement, tree: Tree, Card: any, props: ViewProps = {}) {
@@ -37,7 +38,7 @@ export default function updateCardsSvg(svg: SVGElement, tree: Tree, Card: any, p
   function cardUpdate(this: SVGGElement, d: TreeDatum) {
     Card.call(this, d)
     const delay = props.initial ? calculateDelay(tree, d, props.transition_time!) : 0;
-    d3.select(this).transition().duration(props.transition_time!).delay(delay).attr("transform", `translate(${d.x}, ${d.y})`).style("opacity", 1)
+    d3.select(this).transition().duration(props.transition_time!).delay(delay).attr("transform", `translate(${d.x}, ${d.y})`).style("opacity", cardOpacity(d, props.highlight))
   }
 
   function cardExit(this: SVGGElement, d: unknown | TreeDatum) {
@@ -0,0 +1,85 @@
+import * as d3 from "d3"
+import { Datum } from "../types/data"
+import { TreeDatum } from "../types/treeData"
+import { Link } from "../layout/create-links"
+
+const VIEW_LAYERS = ['fan_view', 'timeline_view']
+
+// opacity of cards and links that don't match the highlight
+const DIMMED_OPACITY = 0.2
+
+/**
+ * Fade tree cards and links in or out, when the chart is switched to or from another view (fan, timeline).
+ */
+export function setTreeLayersVisible(svg: SVGElement, visible: boolean, transition_time: number) {
+  const html_view = svg.closest('#f3Canvas')?.querySelector('#htmlSvg .cards_view')
+  const layers = [svg.querySelector('.links_view'), svg.querySelector('.cards_view'), html_view]
+  layers.forEach(layer => {
+    if (!layer) return
+    const el = d3.select(layer as HTMLElement)
+    if (visible) {
+      if (el.style('visibility') !== 'hidden' && el.style('opacity') !== '0') return
+      el.style('visibility', null)
+      el.transition('visibility').duration(transition_time).style('opacity', 1)
+    } else {
+      el.transition('visibility').duration(transition_time).style('opacity', 0)
+        .on('end', () => el.style('visibility', 'hidden'))
+    }
+  })
+}
+
+/**
+ * Fade out and remove layers of other views.
+ * @param keep - class of the layer of the current view, e.g. 'fan_view'
+ */
+export function removeViewLayers(svg: SVGElement, keep: string | null, transition_time: number) {
+  VIEW_LAYERS.forEach(layer_class => {
+    if (layer_class === keep) return
+    const layer = d3.select(svg).select(`.${layer_class}`)
+    if (!layer.node()) return
+    layer.transition('remove').duration(transition_time).style('opacity', 0).on('end', () => layer.remove())
+  })
+}
+
+/**
+ * Get layer of the view in svg .view, it is created if it doesn't exist.
+ * Removal of the layer is canceled, if it is being removed.
+ */
+export function getViewLayer(svg: SVGElement, layer_class: string) {
+  const view = d3.select(svg).select('.view')
+  let layer = view.select<SVGGElement>(`.${layer_class}`)
+  if (!layer.node()) layer = view.append('g').attr('class', layer_class)
+  else layer.interrupt('remove').style('opacity', null)
+  return layer
+}
+
+export function genderClass(gender: Datum['data']['gender']) {
+  if (gender === 'M') return 'card-male'
+  if (gender === 'F') return 'card-female'
+  return 'card-genderless'
+}
+
+export function defaultLabel(d: Datum) {
+  return [d.data['first name'], d.data['last name']].filter(v => v).join(' ')
+}
+
+/**
+ * Opacity of the card when people matching the highlight are shown. Empty cards never match, cards of new relatives always do.
+ */
+export function cardOpacity(d: TreeDatum, highlight: ((d: Datum) => boolean) | null | undefined) {
+  return isHighlighted(d, highlight) ? 1 : DIMMED_OPACITY
+}
+
+/**
+ * Opacity of the link when people matching the highlight are shown. Link is not dimmed if people on both of its ends match.
+ */
+export function linkOpacity(link: Link, highlight: ((d: Datum) => boolean) | null | undefined) {
+  const side = (d: TreeDatum | TreeDatum[]) => (Array.isArray(d) ? d : [d]).some(d0 => isHighlighted(d0, highlight))
+  return side(link.source) && side(link.target) ? 1 : DIMMED_OPACITY
+}
+
+function isHighlighted(d: TreeDatum, highlight: ((d: Datum) => boolean) | null | undefined) {
+  if (!highlight || d.data._new_rel_data) return true
+  if (d.data.to_add || d.data.unknown) return false
+  return highlight(d.data)
+}
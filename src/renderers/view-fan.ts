@@ -0,0 +1,163 @@
+import * as d3 from "d3"
+import {cardToMiddle, treeFit} from "../handlers/view-handlers"
+import { Tree } from "../layout/calculate-tree"
+import calculateFan, { Fan, FanOptions, FanSegment } from "../layout/calculate-fan"
+import { ViewProps } from "./view"
+import { setTreeLayersVisible, removeViewLayers, getViewLayer, genderClass, defaultLabel } from "./view-common"
+
+export interface ViewFanProps extends ViewProps {
+  fan_options?: FanOptions
+  onSegmentClick?: (e: MouseEvent, d: FanSegment) => void
+}
+
+interface ArcState {
+  start_angle: number
+  end_angle: number
+  inner_radius: number
+  outer_radius: number
+}
+
+interface SegmentElement extends SVGGElement {
+  __arc_state?: ArcState
+}
+
+/**
+ * Render ancestry of the main person as fan chart. Tree cards and links fade out while the fan is shown.
+ */
+export default function viewFan(tree: Tree, svg: SVGElement, props: ViewFanProps = {}) {
+  props.initial = props.hasOwnProperty('initial') ? props.initial : !d3.select(svg).select('.fan_view').node()
+  props.transition_time = props.hasOwnProperty('transition_time') ? props.transition_time : 1000
+  const fan = calculateFan(tree, props.fan_options)
+
+  setTreeLayersVisible(svg, false, props.transition_time!)
+  removeViewLayers(svg, 'fan_view', props.transition_time!)
+  updateFan(svg, fan, props)
+
+  const main_datum = fan.segments[0].datum
+  const tree_position = props.tree_position || 'fit'
+  if (props.initial) treeFit({svg, svg_dim: svg.getBoundingClientRect(), tree_dim: fan.dim, transition_time: 0})
+  else if (tree_position === 'fit') treeFit({svg, svg_dim: svg.getBoundingClientRect(), tree_dim: fan.dim, transition_time: props.transition_time})
+  else if (tree_position === 'main_to_middle') cardToMiddle({datum: main_datum, svg, svg_dim: svg.getBoundingClientRect(), scale: props.scale, transition_time: props.transition_time})
+
+  return true
+}
+
+/**
+ * Collapse the fan. Does nothing if the fan is not shown.
+ */
+export function removeFan(svg: SVGElement, transition_time: number) {
+  if (!d3.select(svg).select('.fan_view').node()) return
+  updateFan(svg, null, {transition_time})
+}
+
+function updateFan(svg: SVGElement, fan: Fan | null, props: ViewFanProps) {
+  const transition_time = props.transition_time!
+  const fan_view = getViewLayer(svg, 'fan_view')
+  const fan_options = props.fan_options || {}
+  const getLabel = fan_options.getLabel || defaultLabel
+  const arc = d3.arc<ArcState>()
+    .startAngle(d => d.start_angle)
+    .endAngle(d => d.end_angle)
+    .innerRadius(d => d.inner_radius)
+    .outerRadius(d => d.outer_radius)
+
+  if (fan) fan_view.attr('transform', `translate(${fan.x}, ${fan.y})`)
+  const segment = fan_view
+    .selectAll<SegmentElement, FanSegment>('g.f3-fan-segment')
+    .data(fan ? fan.segments : [], d => d.tid)
+
+  const segment_exit = segment.exit<FanSegment>()
+  const segment_enter = segment.enter().append('g').attr('class', 'f3-fan-segment')
+  const segment_update = segment_enter.merge(segment)
+
+  segment_exit.each(segmentExit)
+  segment_enter.each(segmentEnter)
+  segment_update.each(segmentUpdate)
+
+  if (!fan) fan_view.transition('remove').duration(transition_time).on('end', () => fan_view.remove())
+
+  function segmentEnter(this: SegmentElement, d: FanSegment) {
+    const g = d3.select(this)
+    g.append('path')
+    g.append('text').attr('dy', '0.35em').attr('text-anchor', 'middle')
+    this.__arc_state = collapsed(d)
+    g.style('opacity', 0)
+  }
+
+  function segmentUpdate(this: SegmentElement, d: FanSegment) {
+    const g = d3.select(this)
+    const datum = d.datum.data
+    g.attr('class', `f3-fan-segment ${genderClass(datum.data.gender)}`)
+      .classed('f3-fan-segment-main', d.depth === 0)
+      .classed('card-to-add', !!datum.to_add)
+      .classed('card-unknown', !!datum.unknown)
+      .classed('cursor-pointer', !datum.to_add && d.depth > 0)
+      .on('click', function(e) {
+        if (datum.to_add || d.depth === 0) return
+        if (props.onSegmentClick) props.onSegmentClick(e, d)
+      })
+
+    const from = this.__arc_state!
+    const to = arcState(d)
+    this.__arc_state = to
+    const interpolate = d3.interpolate(from, to)
+    g.transition().duration(transition_time).style('opacity', 1)
+    g.select('path').transition().duration(transition_time)
+      .attrTween('d', () => t => arc(interpolate(t))!)
+
+    const text = datum.to_add ? '' : getLabel(datum)
+    g.select('text')
+      .text(fitLabel(text, d))
+      .transition().duration(transition_time)
+      .attr('transform', labelTransform(d))
+  }
+
+  function segmentExit(this: SegmentElement, d: FanSegment) {
+    const g = d3.select(this)
+    const from = this.__arc_state || arcState(d)
+    const interpolate = d3.interpolate(from, collapsed(from))
+    g.transition().duration(transition_time).style('opacity', 0).on('end', () => g.remove())
+    g.select('path').transition().duration(transition_time)
+      .attrTween('d', () => t => arc(interpolate(t))!)
+  }
+}
+
+function arcState(d: ArcState): ArcState {
+  return {start_angle: d.start_angle, end_angle: d.end_angle, inner_radius: d.inner_radius, outer_radius: d.outer_radius}
+}
+
+// segments grow out of their inner edge
+function collapsed(d: ArcState): ArcState {
+  return {...arcState(d), outer_radius: d.inner_radius}
+}
+
+function labelTransform(d: FanSegment) {
+  if (d.depth === 0) return 'translate(0, 0)'
+  const mid_angle = (d.start_angle + d.end_angle) / 2
+  const mid_radius = (d.inner_radius + d.outer_radius) / 2
+  const x = Math.sin(mid_angle) * mid_radius
+  const y = -Math.cos(mid_angle) * mid_radius
+  let rotation = mid_angle * 180 / Math.PI
+  if (isRadial(d)) rotation -= 90
+  rotation = ((rotation + 180) % 360 + 360) % 360 - 180  // -180..180
+  if (rotation > 90) rotation -= 180
+  if (rotation < -90) rotation += 180
+  return `translate(${x}, ${y}) rotate(${rotation})`
+}
+
+// narrow segments of outer generations have text along the radius
+function isRadial(d: FanSegment) {
+  const arc_length = (d.end_angle - d.start_angle) * (d.inner_radius + d.outer_radius) / 2
+  return arc_length < d.outer_radius - d.inner_radius
+}
+
+function fitLabel(text: string, d: FanSegment) {
+  const available = d.depth === 0
+    ? d.outer_radius*2
+    : isRadial(d)
+      ? d.outer_radius - d.inner_radius
+      : (d.end_angle - d.start_angle) * (d.inner_radius + d.outer_radius) / 2
+  const max_chars = Math.floor((available - 10) / 7)
+  if (text.length <= max_chars) return text
+  return max_chars > 1 ? text.slice(0, max_chars - 1) + '…' : ''
+}
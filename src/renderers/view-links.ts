@@ -2,6 +2,7 @@ import * as d3 from "d3"
 import {createLinks} from "../layout/create-links"
 import {calculateDelay} from "../handlers/general"
 import { ViewProps } from "./view"
+import { linkOpacity } from "./view-common"
 import { Tree } from "../layout/calculate-tree"
 import { Link } from "../layout/create-links"
 import { LinkSelection } from "../types/view"
@@ -35,7 +36,9 @@ export default function updateLinks(svg: SVGElement, tree: Tree, props: ViewProp
   function linkUpdate(this: SVGPathElement, d: Link) {
     const path = d3.select(this);
     const delay = props.initial ? calculateDelay(tree, d, props.transition_time!) : 0
-    path.transition('path').duration(props.transition_time!).delay(delay).attr("d", createPath(d)).style("opacity", 1)
+    path.classed('f3-link-divorced', d.union_type === 'divorced');
+    (['adoptive', 'step', 'foster'] as const).forEach(type => path.classed(`f3-link-${type}`, d.parent_type === type))
+    path.transition('path').duration(props.transition_time!).delay(delay).attr("d", createPath(d)).style("opacity", linkOpacity(d, props.highlight))
   }
 
   function linkExit(this: SVGPathElement, d: unknown | Link) {
@@ -0,0 +1,149 @@
+import * as d3 from "d3"
+import {treeFit} from "../handlers/view-handlers"
+import { Tree } from "../layout/calculate-tree"
+import calculateTimeline, { Timeline, TimelineEvent, TimelineOptions, TimelineRow } from "../layout/calculate-timeline"
+import { ViewProps } from "./view"
+import { setTreeLayersVisible, removeViewLayers, getViewLayer, genderClass, defaultLabel } from "./view-common"
+
+export interface ViewTimelineProps extends ViewProps {
+  timeline_options?: TimelineOptions
+  onRowClick?: (e: MouseEvent, d: TimelineRow) => void
+}
+
+const BAR_HEIGHT = 14
+const EVENT_SYMBOLS = {
+  birth: d3.symbolCircle,
+  death: d3.symbolCross,
+  marriage: d3.symbolDiamond,
+}
+
+/**
+ * Render life spans of the main person and their close relatives on a time axis. Tree cards and links fade out while the timeline is shown.
+ */
+export default function viewTimeline(tree: Tree, svg: SVGElement, props: ViewTimelineProps = {}) {
+  props.initial = props.hasOwnProperty('initial') ? props.initial : !d3.select(svg).select('.timeline_view').node()
+  props.transition_time = props.hasOwnProperty('transition_time') ? props.transition_time : 1000
+  const timeline = calculateTimeline(tree.main_id, tree.data_stash, props.timeline_options)
+
+  setTreeLayersVisible(svg, false, props.transition_time!)
+  removeViewLayers(svg, 'timeline_view', props.transition_time!)
+  updateTimeline(svg, timeline, props)
+
+  const tree_position = props.tree_position || 'fit'
+  if (props.initial) treeFit({svg, svg_dim: svg.getBoundingClientRect(), tree_dim: timeline.dim, transition_time: 0})
+  else if (tree_position !== 'inherit') treeFit({svg, svg_dim: svg.getBoundingClientRect(), tree_dim: timeline.dim, transition_time: props.transition_time})
+
+  return true
+}
+
+function updateTimeline(svg: SVGElement, timeline: Timeline, props: ViewTimelineProps) {
+  const transition_time = props.transition_time!
+  const timeline_options = props.timeline_options || {}
+  const getLabel = timeline_options.getLabel || defaultLabel
+  const row_height = timeline_options.row_height || 40
+  const timeline_view = getTimelineView(svg)
+
+  const scale = d3.scaleLinear().domain([timeline.min_year, timeline.max_year]).range([timeline.x(timeline.min_year), timeline.x(timeline.max_year)])
+  const ticks = scale.ticks(Math.max(2, Math.round((timeline.max_year - timeline.min_year) / 10)))
+  const axis = d3.axisTop(scale).tickValues(ticks).tickFormat(d3.format('d'))
+  const rows_height = timeline.rows.length * row_height
+  timeline_view.select<SVGGElement>('.f3-timeline-axis')
+    .attr('transform', `translate(0, ${-row_height})`)
+    .transition().duration(transition_time)
+    .call(axis)
+
+  const grid = timeline_view.select('.f3-timeline-grid').selectAll<SVGLineElement, number>('line').data(ticks, d => d)
+  grid.exit().remove()
+  grid.enter().append('line').attr('class', 'f3-timeline-grid-line')
+    .merge(grid)
+    .attr('y1', -row_height)
+    .transition().duration(transition_time)
+    .attr('x1', d => scale(d))
+    .attr('x2', d => scale(d))
+    .attr('y2', rows_height - row_height/2)
+
+  const main_row = timeline.rows.find(row => row.relation === 'main')
+  const row = timeline_view.select('.f3-timeline-rows')
+    .selectAll<SVGGElement, TimelineRow>('g.f3-timeline-row')
+    .data(timeline.rows, d => d.datum.id)
+
+  const row_exit = row.exit()
+  const row_enter = row.enter().append('g').attr('class', 'f3-timeline-row')
+  const row_update = row_enter.merge(row)
+
+  row_exit.transition().duration(transition_time).style('opacity', 0).on('end', function() {d3.select(this).remove()})
+  row_enter.each(rowEnter)
+  row_update.each(rowUpdate)
+
+  function rowEnter(this: SVGGElement, d: TimelineRow) {
+    const g = d3.select(this)
+    g.attr('transform', `translate(0, ${main_row ? main_row.y : d.y})`).style('opacity', 0)
+    g.append('rect').attr('class', 'f3-timeline-row-bg')
+      .attr('y', -row_height/2).attr('height', row_height)
+    g.append('rect').attr('class', 'f3-timeline-bar')
+      .attr('y', -BAR_HEIGHT/2).attr('height', BAR_HEIGHT).attr('rx', BAR_HEIGHT/2)
+    g.append('text').attr('class', 'f3-timeline-label').attr('dy', '0.35em').attr('text-anchor', 'end')
+    g.append('g').attr('class', 'f3-timeline-events')
+  }
+
+  function rowUpdate(this: SVGGElement, d: TimelineRow) {
+    const g = d3.select(this)
+    const datum = d.datum
+    g.attr('class', `f3-timeline-row ${genderClass(datum.data.gender)} f3-timeline-${d.relation}`)
+      .classed('f3-timeline-row-main', d.relation === 'main')
+      .classed('cursor-pointer', d.relation !== 'main')
+      .on('click', function(e) {
+        if (d.relation === 'main') return
+        if (props.onRowClick) props.onRowClick(e, d)
+      })
+    g.transition().duration(transition_time).attr('transform', `translate(0, ${d.y})`).style('opacity', 1)
+
+    g.select('.f3-timeline-row-bg')
+      .attr('x', timeline.x(timeline.min_year) - 200)
+      .attr('width', timeline.x(timeline.max_year) - timeline.x(timeline.min_year) + 200)
+    g.select('.f3-timeline-bar')
+      .classed('f3-timeline-bar-open', d.is_open)
+      .style('display', d.width > 0 ? 'inline' : 'none')
+      .transition().duration(transition_time)
+      .attr('x', d.x)
+      .attr('width', d.width)
+    g.select('.f3-timeline-label')
+      .text(getLabel(datum))
+      .transition().duration(transition_time)
+      .attr('x', (d.start !== null ? d.x : 0) - 12)
+
+    const event = g.select('.f3-timeline-events')
+      .selectAll<SVGPathElement, TimelineEvent>('path.f3-timeline-event')
+      .data(d.events, e => `${e.type}-${e.rel_id || ''}`)
+    event.exit().remove()
+    event.enter().append('path')
+      .merge(event)
+      .attr('class', e => `f3-timeline-event f3-timeline-event-${e.type}`)
+      .attr('d', e => d3.symbol(EVENT_SYMBOLS[e.type], 80)())
+      .each(function(e) {
+        const path = d3.select(this)
+        path.select('title').remove()
+        path.append('title').text(eventTitle(e, timeline))
+      })
+      .transition().duration(transition_time)
+      .attr('transform', e => `translate(${timeline.x(e.year)}, 0)${e.type === 'death' ? ' rotate(45)' : ''}`)
+  }
+}
+
+function getTimelineView(svg: SVGElement) {
+  const timeline_view = getViewLayer(svg, 'timeline_view')
+  if (!timeline_view.select('.f3-timeline-rows').node()) {
+    timeline_view.append('g').attr('class', 'f3-timeline-grid')
+    timeline_view.append('g').attr('class', 'f3-timeline-axis')
+    timeline_view.append('g').attr('class', 'f3-timeline-rows')
+  }
+  return timeline_view
+}
+
+function eventTitle(e: TimelineEvent, timeline: Timeline) {
+  const year = Math.floor(e.year)
+  if (e.type === 'birth') return `Born ${year}`
+  if (e.type === 'death') return `Died ${year}`
+  const spouse = timeline.rows.find(row => row.datum.id === e.rel_id)
+  return `Married ${year}${spouse ? ` (${defaultLabel(spouse.datum)})` : ''}`
+}
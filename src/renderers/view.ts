@@ -5,6 +5,9 @@ import updateCardsSvg from "./view-cards-svg"
 import updateCardsHtml from "./view-cards-html"
 import updateCardsComponent from "../features/card-component/card-component"
 import { Tree } from "../layout/calculate-tree"
+import { Datum } from "../types/data"
+import { removeFan } from "./view-fan"
+import { setTreeLayersVisible, removeViewLayers } from "./view-common"
 
 export interface ViewProps {
   initial?: boolean
@@ -14,11 +17,16 @@ export interface ViewProps {
   cardHtmlDiv?: HTMLElement
   tree_position?: 'fit' | 'main_to_middle' | 'inherit'
   scale?: number
+  /** cards and links of people that don't match are dimmed */
+  highlight?: ((d: Datum) => boolean) | null
 }
 
 export default function(tree: Tree, svg: SVGElement, Card: any, props: ViewProps = {}) {
   props.initial = props.hasOwnProperty('initial') ? props.initial : !d3.select(svg.parentNode as HTMLElement).select('.card_cont').node()
   props.transition_time = props.hasOwnProperty('transition_time') ? props.transition_time : 1000;
+  removeFan(svg, props.transition_time!)
+  removeViewLayers(svg, null, props.transition_time!)
+  setTreeLayersVisible(svg, true, props.transition_time!)
   if (props.cardComponent) updateCardsComponent(svg, tree, Card, props);
   else if (props.cardHtml) updateCardsHtml(svg, tree, Card, props);
   else updateCardsSvg(svg, tree, Card, props);
@@ -51,6 +51,12 @@ export function handleLinkRel(updated_datum: Datum, link_rel_id: Datum['id'], st
       }
       else link_rel.rels.parents.push(new_rel_mother)
     }
+    new_rel.rels.parents.forEach(p_id => {
+      if (p_id === new_rel_father || p_id === new_rel_mother) return
+      if (link_rel.rels.parents.includes(p_id)) return
+      if (link_rel.rels.parents.length >= 2) return console.error('link rel already has 2 parents')
+      link_rel.rels.parents.push(p_id)
+    })
   }
 
   store_data.splice(store_data.findIndex(d => d.id === new_rel_id), 1)
@@ -1,10 +1,10 @@
-import { createNewPerson } from "./new-person"
+import { createNewPerson, getSpouseGender } from "./new-person"
 import { Data, Datum } from "../types/data"
 import { AddRelative } from "../core/add-relative"
 
 interface NewDatum extends Datum {
   _new_rel_data?: {
-    rel_type: 'father' | 'mother' | 'spouse' | 'son' | 'daughter'
+    rel_type: 'father' | 'mother' | 'parent' | 'spouse' | 'son' | 'daughter'
     label: string
     rel_id: string,
     other_parent_id?: Datum['id']
@@ -16,7 +16,7 @@ export function updateGendersForNewRelatives(updated_datum: Datum, data: Data) {
   data.forEach(d => {
     const rd = d._new_rel_data
     if (!rd) return
-    if (rd.rel_type === 'spouse') d.data.gender = d.data.gender === 'M' ? 'F' : 'M'
+    if (rd.rel_type === 'spouse') d.data.gender = getSpouseGender(updated_datum.data.gender)
   })
 }
 
@@ -56,6 +56,13 @@ export function addDatumRelsPlaceholders(
     const parents = datum.rels.parents
     const father = parents.find(d_id => store_data.find(d => d.id === d_id)?.data.gender === "M")
     const mother = parents.find(d_id => store_data.find(d => d.id === d_id)?.data.gender === "F")
+    if (parents.length === 1 && !father && !mother) {
+      // single parent with other gender, placeholder for the other parent is genderless
+      const parent: NewDatum = createNewPerson({data: {gender: "U"}, rels: {children: [datum.id]}})
+      parent._new_rel_data = {rel_type: "parent", label: addRelLabels.parent, rel_id: datum.id}
+      datum.rels.parents.push(parent.id)
+      store_data.push(parent)
+    }
     if (parents.length < 2 && !father) {
       const father: NewDatum = createNewPerson({data: {gender: "M"}, rels: {children: [datum.id]}})
       father._new_rel_data = {rel_type: "father", label: addRelLabels.father, rel_id: datum.id}
@@ -90,7 +97,7 @@ export function addDatumRelsPlaceholders(
         const child = store_data.find(d => d.id === child_id)!
         if (child.rels.parents.length === 1) {
           const p1 = store_data.find(d => d.id === child.rels.parents[0])!
-          const new_spouse_gender = p1.data.gender === "M" ? "F" : "M"
+          const new_spouse_gender = getSpouseGender(p1.data.gender)
           if (!new_spouse) new_spouse = createNewPerson({data: {gender: new_spouse_gender}, rels: {spouses: [datum.id]}})
           new_spouse._new_rel_data = {rel_type: "spouse", label: addRelLabels.spouse, rel_id: datum.id}
           new_spouse.rels.children!.push(child.id)
@@ -105,7 +112,7 @@ export function addDatumRelsPlaceholders(
   
   function addSpouse() {
     if (!datum.rels.spouses) datum.rels.spouses = []
-    const spouse_gender = datum.data.gender === "M" ? "F" : "M"
+    const spouse_gender = getSpouseGender(datum.data.gender)
     const new_spouse: NewDatum = createNewPerson({data: {gender: spouse_gender}, rels: {spouses: [datum.id]}})
     new_spouse._new_rel_data = {rel_type: "spouse", label: addRelLabels.spouse, rel_id: datum.id}
     datum.rels.spouses.push(new_spouse.id)
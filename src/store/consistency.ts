@@ -0,0 +1,189 @@
+import { Data, Datum } from "../types/data"
+import { parseDate, getDatumDate, getDateRange, DateValue } from "./date"
+import { getUnion } from "./union"
+
+export interface ConsistencyIssue {
+  /** id of the rule that found the issue */
+  rule: string
+  datum_id: Datum['id']
+  /** other person of the issue, e.g. the parent for a child born before the parent */
+  rel_id?: Datum['id']
+  message: string
+}
+
+export interface ConsistencyOptions {
+  /** rules to run. default CONSISTENCY_RULES */
+  rules?: ConsistencyRule[]
+  /** datum.data key of birth date. default 'birthday' */
+  birth_field?: string
+  /** datum.data key of death date. default 'death' */
+  death_field?: string
+  /** rel_reference field id of marriage date, used when union of the spouses has no date. default 'marriage date' */
+  marriage_field?: string
+  /** min age of a parent at birth of a child. default 12 */
+  min_parent_age?: number
+  /** years added on both sides of approximate dates. default 2 */
+  about_margin?: number
+  /** name of the person used in messages. default is first name and last name */
+  getLabel?: (d: Datum) => string
+}
+
+/**
+ * Dates of the data as ranges of years, see getDateRange. Ranges include the start and not the end,
+ * so a range is before another one if its end is not after the start of the other. null if the date is missing or not recognised.
+ */
+export interface ConsistencyContext {
+  data: Data
+  options: Required<Omit<ConsistencyOptions, 'rules'>>
+  getDatum: (id: Datum['id']) => Datum | undefined
+  getBirth: (d: Datum) => [number, number] | null
+  getDeath: (d: Datum) => [number, number] | null
+  getMarriage: (d: Datum, spouse_id: Datum['id']) => [number, number] | null
+}
+
+export interface ConsistencyRule {
+  id: string
+  check: (datum: Datum, context: ConsistencyContext) => {message: string, rel_id?: Datum['id']}[]
+}
+
+// a father can die before the birth of his child
+const FATHER_DEATH_MARGIN = 1
+
+export const CONSISTENCY_RULES: ConsistencyRule[] = [
+  {
+    id: 'death_before_birth',
+    check: (d, {getBirth, getDeath}) => {
+      const birth = getBirth(d), death = getDeath(d)
+      if (birth && death && death[1] <= birth[0]) return [{message: 'Death is before birth'}]
+      return []
+    }
+  },
+  {
+    id: 'child_before_parent',
+    check: (d, {getBirth, getDatum, options}) => {
+      const birth = getBirth(d)
+      if (!birth) return []
+      return parentsOf(d, getDatum)
+        .filter(p => {
+          const p_birth = getBirth(p)
+          return p_birth && birth[1] <= p_birth[0]
+        })
+        .map(p => ({message: `Born before parent ${options.getLabel(p)}`, rel_id: p.id}))
+    }
+  },
+  {
+    id: 'parent_too_young',
+    check: (d, {getBirth, getDatum, options}) => {
+      const birth = getBirth(d)
+      if (!birth) return []
+      return parentsOf(d, getDatum)
+        .filter(p => {
+          const p_birth = getBirth(p)
+          if (!p_birth || birth[1] <= p_birth[0]) return false  // child_before_parent
+          return birth[1] - p_birth[0] < options.min_parent_age
+        })
+        .map(p => ({message: `Parent ${options.getLabel(p)} is younger than ${options.min_parent_age} at birth`, rel_id: p.id}))
+    }
+  },
+  {
+    id: 'birth_after_parent_death',
+    check: (d, {getBirth, getDeath, getDatum, options}) => {
+      const birth = getBirth(d)
+      if (!birth) return []
+      return parentsOf(d, getDatum)
+        .filter(p => {
+          const p_death = getDeath(p)
+          const margin = p.data.gender === 'F' ? 0 : FATHER_DEATH_MARGIN
+          return p_death && birth[0] >= p_death[1] + margin
+        })
+        .map(p => ({message: `Born after death of parent ${options.getLabel(p)}`, rel_id: p.id}))
+    }
+  },
+  {
+    id: 'marriage_before_birth',
+    check: (d, {getBirth, getMarriage, getDatum, options}) => {
+      const birth = getBirth(d)
+      if (!birth) return []
+      return (d.rels.spouses || [])
+        .filter(sp_id => {
+          const marriage = getMarriage(d, sp_id)
+          return marriage && marriage[1] <= birth[0]
+        })
+        .map(sp_id => ({message: `Marriage with ${spouseLabel(sp_id, getDatum, options)} is before birth`, rel_id: sp_id}))
+    }
+  },
+  {
+    id: 'marriage_after_death',
+    check: (d, {getDeath, getMarriage, getDatum, options}) => {
+      const death = getDeath(d)
+      if (!death) return []
+      return (d.rels.spouses || [])
+        .filter(sp_id => {
+          const marriage = getMarriage(d, sp_id)
+          return marriage && marriage[0] >= death[1]
+        })
+        .map(sp_id => ({message: `Marriage with ${spouseLabel(sp_id, getDatum, options)} is after death`, rel_id: sp_id}))
+    }
+  },
+]
+
+/**
+ * Check life events of every person for impossible dates, e.g. a child born before a parent or a marriage after death.
+ * Approximate dates only give an issue if no date within their range would be consistent.
+ * @param data - family chart data
+ * @param options - rules, date fields and limits
+ * @returns list of issues, each on the person whose data is likely wrong
+ */
+export function checkConsistency(data: Data, options: ConsistencyOptions = {}): ConsistencyIssue[] {
+  const {rules = CONSISTENCY_RULES, ...rest} = options
+  const context_options: ConsistencyContext['options'] = {
+    birth_field: 'birthday',
+    death_field: 'death',
+    marriage_field: 'marriage date',
+    min_parent_age: 12,
+    about_margin: 2,
+    getLabel: (d: Datum) => [d.data['first name'], d.data['last name']].filter(v => v).join(' ') || d.id,
+    ...rest
+  }
+  const ranges: Record<string, [number, number] | null> = {}
+  const context: ConsistencyContext = {
+    data,
+    options: context_options,
+    getDatum: id => data.find(d => d.id === id),
+    getBirth: d => getRange(d, context_options.birth_field),
+    getDeath: d => getRange(d, context_options.death_field),
+    getMarriage: (d, spouse_id) => {
+      const union_date = getUnion(d, spouse_id)?.date
+      if (union_date) return toRange(parseDate(union_date))
+      return getRange(d, `${context_options.marriage_field}__ref__${spouse_id}`)
+    },
+  }
+
+  const issues: ConsistencyIssue[] = []
+  data.forEach(d => {
+    if (d.to_add || d.unknown || d._new_rel_data) return
+    rules.forEach(rule => {
+      rule.check(d, context).forEach(issue => issues.push({rule: rule.id, datum_id: d.id, ...issue}))
+    })
+  })
+  return issues
+
+  function getRange(d: Datum, field_id: string) {
+    const key = `${d.id}__${field_id}`
+    if (!(key in ranges)) ranges[key] = toRange(getDatumDate(d, field_id))
+    return ranges[key]
+  }
+
+  function toRange(value: DateValue | null) {
+    return value ? getDateRange(value, context_options.about_margin) : null
+  }
+}
+
+function parentsOf(d: Datum, getDatum: ConsistencyContext['getDatum']) {
+  return d.rels.parents.map(getDatum).filter((p): p is Datum => !!p && !p.to_add && !p.unknown)
+}
+
+function spouseLabel(spouse_id: Datum['id'], getDatum: ConsistencyContext['getDatum'], options: ConsistencyContext['options']) {
+  const spouse = getDatum(spouse_id)
+  return spouse ? options.getLabel(spouse) : spouse_id
+}
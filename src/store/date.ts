@@ -0,0 +1,194 @@
+import { Datum } from "../types/data"
+
+export type DateQualifier = 'exact' | 'about' | 'before' | 'after' | 'between'
+
+export interface DatePart {
+  year: number
+  month?: number
+  day?: number
+}
+
+/**
+ * Parsed genealogical date. Stored next to the original text in datum.data under getDateKey(field_id).
+ * Checks, sorting and search read the text with getDatumDate, so a stored value that went stale is not used.
+ */
+export interface DateValue {
+  qualifier: DateQualifier
+  date: DatePart
+  /** end of the range for 'between' */
+  end_date?: DatePart
+}
+
+// full words first, so 'before' is not read as 'bef' followed by 'ore'
+const QUALIFIERS: [RegExp, DateQualifier][] = [
+  [/^(about|approximately|approx\.?|abt\.?|circa|calculated|cal\.?|ca\.?|c\.|~|estimated|est\.?)\s*/i, 'about'],
+  [/^(before|bef\.?|<)\s*/i, 'before'],
+  [/^(after|aft\.?|>)\s*/i, 'after'],
+]
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+
+// a day between two dates with the same sort value, so before/after qualifiers sort around the exact date
+const QUALIFIER_OFFSET = 1/365/2
+
+// parsed dates by datum and field id. text is kept to parse again when the field changes
+const datum_dates = new WeakMap<Datum, Map<string, {text: unknown, value: DateValue | null}>>()
+
+export function getDateKey(field_id: string) {
+  return `${field_id}__date`
+}
+
+/**
+ * Parsed date of a datum field. The text is parsed, not the stored getDateKey value, because data can be changed
+ * without the form, e.g. with updateData. Parsed values are cached per datum until the text changes.
+ * @param datum - person
+ * @param field_id - datum.data key of the date, e.g. 'birthday'
+ */
+export function getDatumDate(datum: Datum, field_id: string): DateValue | null {
+  const text = datum.data[field_id]
+  let dates = datum_dates.get(datum)
+  if (!dates) {
+    dates = new Map()
+    datum_dates.set(datum, dates)
+  }
+  const cached = dates.get(field_id)
+  if (cached && cached.text === text) return cached.value
+  const value = typeof text === 'string' ? parseDate(text) : null
+  dates.set(field_id, {text, value})
+  return value
+}
+
+/**
+ * Parse genealogical date text.
+ * Supports a year (1850), a month (May 1850, 1850-05), a full date (12 May 1850, May 12, 1850, 1850-05-12, 12.05.1850),
+ * qualifiers (abt, est, cal, bef, aft) and ranges (1850-1855, bet 1850 and 1855, from 1850 to 1855, 1850s).
+ * @returns parsed date or null if the text is not a recognised date
+ */
+export function parseDate(text: string | undefined | null): DateValue | null {
+  if (!text) return null
+  let str = String(text).trim().replace(/\s+/g, ' ')
+  if (!str) return null
+
+  const range = str.match(/^(?:bet\.?|between|from)\s+(.+?)\s+(?:and|to|-)\s+(.+)$/i) || str.match(/^(\d{4})\s*[-–]\s*(\d{4})$/)
+  if (range) {
+    const date = parseDatePart(range[1])
+    const end_date = parseDatePart(range[2])
+    if (!date || !end_date || toNumber(end_date) < toNumber(date)) return null
+    return {qualifier: 'between', date, end_date}
+  }
+
+  const decade = str.match(/^(\d{3})0'?s$/)
+  if (decade) return {qualifier: 'between', date: {year: +decade[1]*10}, end_date: {year: +decade[1]*10 + 9}}
+
+  let qualifier: DateQualifier = 'exact'
+  for (const [re, q] of QUALIFIERS) {
+    if (!re.test(str)) continue
+    qualifier = q
+    str = str.replace(re, '')
+    break
+  }
+  const date = parseDatePart(str)
+  if (!date) return null
+  return {qualifier, date}
+}
+
+function parseDatePart(str: string): DatePart | null {
+  str = str.trim().replace(/,/g, '')
+  let match: RegExpMatchArray | null
+
+  if ((match = str.match(/^(\d{4})$/))) return {year: +match[1]}
+  if ((match = str.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/))) return createPart(+match[1], +match[2], match[3] ? +match[3] : undefined)
+  if ((match = str.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/))) return createPart(+match[3], +match[2], +match[1])
+  if ((match = str.match(/^([a-z]+)\.? (\d{4})$/i))) return createPart(+match[2], monthIndex(match[1]))
+  if ((match = str.match(/^(\d{1,2}) ([a-z]+)\.? (\d{4})$/i))) return createPart(+match[3], monthIndex(match[2]), +match[1])
+  if ((match = str.match(/^([a-z]+)\.? (\d{1,2}) (\d{4})$/i))) return createPart(+match[3], monthIndex(match[1]), +match[2])
+  return null
+}
+
+function createPart(year: number, month: number | null, day?: number): DatePart | null {
+  if (month === null || month < 1 || month > 12) return null
+  if (day === undefined) return {year, month}
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return null
+  return {year, month, day}
+}
+
+// full name or abbreviation of at least 3 letters
+function monthIndex(name: string) {
+  if (name.length < 3) return null
+  const i = MONTHS.findIndex(m => m.startsWith(name.toLowerCase()))
+  return i === -1 ? null : i + 1
+}
+
+function toNumber(d: DatePart) {
+  return d.year + ((d.month || 1) - 1)/12 + ((d.day || 1) - 1)/365
+}
+
+/**
+ * Normalised text of a parsed date, e.g. 'abt 1850', 'bef 1900-05', 'bet 1850 and 1855'.
+ */
+export function formatDate(value: DateValue): string {
+  const date = formatDatePart(value.date)
+  if (value.qualifier === 'about') return `abt ${date}`
+  if (value.qualifier === 'before') return `bef ${date}`
+  if (value.qualifier === 'after') return `aft ${date}`
+  if (value.qualifier === 'between') return `bet ${date} and ${formatDatePart(value.end_date!)}`
+  return date
+}
+
+function formatDatePart(d: DatePart) {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return [String(d.year), d.month ? pad(d.month) : '', d.day ? pad(d.day) : ''].filter(v => v).join('-')
+}
+
+/**
+ * Number that orders dates on a time line, in years. Ranges are placed in the middle.
+ */
+export function getDateSortValue(value: DateValue): number {
+  const n = toNumber(value.date)
+  if (value.qualifier === 'before') return n - QUALIFIER_OFFSET
+  if (value.qualifier === 'after') return n + QUALIFIER_OFFSET
+  if (value.qualifier === 'between') return (n + toNumber(value.end_date!)) / 2
+  return n
+}
+
+/**
+ * Earliest and latest possible moment of the date, in years.
+ * A year or a month covers the whole period, approximate dates are widened by about_margin years, before and after are open ended.
+ * @param about_margin - years added on both sides of 'about' dates. default 2
+ */
+export function getDateRange(value: DateValue, about_margin: number = 2): [number, number] {
+  const [start, end] = getDatePartRange(value.date)
+  if (value.qualifier === 'about') return [start - about_margin, end + about_margin]
+  if (value.qualifier === 'before') return [-Infinity, start]
+  if (value.qualifier === 'after') return [end, Infinity]
+  if (value.qualifier === 'between') return [start, getDatePartRange(value.end_date!)[1]]
+  return [start, end]
+}
+
+function getDatePartRange(d: DatePart): [number, number] {
+  const start = toNumber(d)
+  if (d.day) return [start, start + 1/365]
+  if (d.month) return [start, start + 1/12]
+  return [start, start + 1]
+}
+
+/**
+ * Compare two dates. Accepts date text or parsed date. Missing and unrecognised dates are put at the end.
+ * @example compareDates(a.data.birthday, b.data.birthday)
+ */
+export function compareDates(a: string | DateValue | undefined | null, b: string | DateValue | undefined | null): number {
+  const a_value = typeof a === 'string' ? parseDate(a) : a
+  const b_value = typeof b === 'string' ? parseDate(b) : b
+  if (a_value && b_value) return getDateSortValue(a_value) - getDateSortValue(b_value)
+  if (a_value) return -1
+  if (b_value) return 1
+  return 0
+}
+
+/**
+ * Create sort function that orders people by a date field. Can be used as sortChildrenFunction.
+ * @param field_id - datum.data key of the date, e.g. 'birthday'
+ */
+export function sortByDate(field_id: string) {
+  return (a: Datum, b: Datum) => compareDates(getDatumDate(a, field_id), getDatumDate(b, field_id))
+}
@@ -1,12 +1,70 @@
 import {checkIfRelativesConnectedWithoutPerson} from "../handlers/check-person-connection"
 import { Data, Datum } from "../types/data"
 import {createNewPerson} from "./new-person"
+import { setUnion, getUnionFormKeys, onDeleteRemoveUnions } from "./union"
+import { onDeleteRemoveParentRelations } from "./parent-relation"
+import { parseDate, getDateKey } from "./date"
+import { Field, UnionField } from "../types/form"
+import { getFieldType, parseFieldValue, CustomField } from "../features/field-types"
+import { validateFieldValue } from "./validate-form"
 
-export function submitFormData(datum: Datum, data_stash: Data, form_data: FormData) {
-  form_data.forEach((v, k) => datum.data[k] = v)
+/**
+ * Apply form values to the datum. Values are validated first with the field validation (required, pattern, min, max, validate),
+ * the date parser and the field types. Nothing is changed if any of them is invalid.
+ * @returns success and error messages by field id
+ */
+export function submitFormData(datum: Datum, data_stash: Data, form_data: FormData, fields: (Field | UnionField)[] = []) {
+  const date_field_ids = fields.filter(field => field.type === 'date' && !getFieldType(field.type)).map(field => field.id)
+  const errors: Record<string, string> = {}
+  date_field_ids.forEach(id => {
+    const value = form_data.get(id)
+    if (value && !parseDate(value as string)) errors[id] = 'Date is not recognised, e.g. 1850, abt 1850, bef 1900, 1850-1855, 12 May 1850'
+  })
+  const custom_fields = fields.filter(field => getFieldType(field.type)) as CustomField[]
+  const custom_values: Record<string, any> = {}
+  custom_fields.forEach(field => {
+    const field_type = getFieldType(field.type)!
+    const value = parseFieldValue(field, form_data.getAll(field.id))
+    const error = field_type.validate ? field_type.validate(value, field) : null
+    if (error) errors[field.id] = error
+    custom_values[field.id] = value
+  })
+  fields.forEach(field => {
+    if (isUnionField(field) || errors[field.id] || field.type === 'rel_reference') return
+    const value = custom_values.hasOwnProperty(field.id) ? custom_values[field.id] : form_data.get(field.id)
+    const error = validateFieldValue(field, value, datum, data_stash)
+    if (error) errors[field.id] = error
+  })
+  if (Object.keys(errors).length > 0) return {success: false, errors}
+
+  const union_fields = fields.filter(isUnionField)
+  const union_keys: string[] = []
+  union_fields.forEach(field => union_keys.push(...Object.values(getUnionFormKeys(field.id))))
+  form_data.forEach((v, k) => {
+    if (union_keys.includes(k)) return
+    else if (date_field_ids.includes(k)) submitDateFormValue(datum, k, v as string)
+    else if (custom_values.hasOwnProperty(k)) return
+    else datum.data[k] = v
+  })
+  // unchecked checkboxes and empty multi selects are not in form data, so values are set by fields
+  custom_fields.forEach(field => {
+    const value = custom_values[field.id]
+    if (value === undefined) delete datum.data[field.id]
+    else datum.data[field.id] = value
+  })
+  union_fields.forEach(field => submitUnionFormValue(datum, data_stash, field, form_data))
   syncRelReference(datum, data_stash)
   if (datum.to_add) delete datum.to_add
   if (datum.unknown) delete datum.unknown
+  return {success: true, errors}
+}
+
+// original text is kept as entered, parsed date is stored next to it
+function submitDateFormValue(datum: Datum, field_id: string, value: string) {
+  datum.data[field_id] = value
+  const date = parseDate(value)
+  if (date) datum.data[getDateKey(field_id)] = date
+  else delete datum.data[getDateKey(field_id)]
 }
 
 export function syncRelReference(datum: Datum, data_stash: Data) {
@@ -21,6 +79,18 @@ export function syncRelReference(datum: Datum, data_stash: Data) {
   })
 }
 
+function isUnionField(field: Field | UnionField): field is UnionField {
+  return field.type === 'union'
+}
+
+function submitUnionFormValue(datum: Datum, data_stash: Data, field: UnionField, form_data: FormData) {
+  const spouse = data_stash.find(d => d.id === field.rel_id)
+  if (!spouse) return
+  const keys = getUnionFormKeys(field.id)
+  const type = form_data.get(keys.type) as NonNullable<UnionField['initial_value']['type']> | null
+  setUnion(datum, spouse, {type: type || undefined, date: (form_data.get(keys.date) || '') as string, end_date: (form_data.get(keys.end_date) || '') as string})
+}
+
 export function onDeleteSyncRelReference(datum: Datum, data_stash: Data) {
   Object.keys(datum.data).forEach(k => {
     if (k.includes('__ref__')) {
@@ -64,12 +134,15 @@ export function deletePerson(datum: Datum, data_stash: Data, clean_to_add: boole
       }
     })
     onDeleteSyncRelReference(datum, data_stash)
+    onDeleteRemoveUnions(datum, data_stash)
+    onDeleteRemoveParentRelations(datum, data_stash)
     data_stash.splice(data_stash.findIndex(d => d.id === datum.id), 1)
     if (data_stash.length === 0) data_stash.push(createNewPerson({data: {gender: 'M'}}))
   }
 
   function changeToUnknown() {
     onDeleteSyncRelReference(datum, data_stash)
+    onDeleteRemoveUnions(datum, data_stash)
     datum.data = {
       gender: datum.data.gender,
     }
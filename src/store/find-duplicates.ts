@@ -0,0 +1,157 @@
+import { Data, Datum } from "../types/data"
+import { parseDate, getDateRange } from "./date"
+import { normalizeText, jaroWinkler } from "./fuzzy"
+
+export interface DuplicateField {
+  id: string
+  /** importance of the field in the score. default 1 */
+  weight?: number
+}
+
+export interface FindDuplicatesOptions {
+  /** datum.data keys that are compared. values that are dates are compared as dates, others as names.
+   * default first name, last name (weight 2) and birthday, death */
+  fields?: (string | DuplicateField)[]
+  /** min score of a pair, 0-1. default 0.8 */
+  threshold?: number
+  /** datum.data keys used to pick the pairs that are compared. people are compared only if they share the first letters
+   * or the decade of a date in every one of these fields that both of them have. people without any of them are not compared.
+   * default last name and birthday */
+  block_fields?: string[]
+}
+
+export interface DuplicateCandidate {
+  a_id: Datum['id']
+  b_id: Datum['id']
+  /** 0-1, weighted similarity of the compared fields */
+  score: number
+  /** similarity by field id, fields that are empty on both people are left out */
+  fields: Record<string, number>
+}
+
+const DEFAULT_FIELDS: DuplicateField[] = [
+  {id: 'first name', weight: 2},
+  {id: 'last name', weight: 2},
+  {id: 'birthday', weight: 1},
+  {id: 'death', weight: 1},
+]
+
+// dates further apart than this are not similar at all
+const MAX_DATE_GAP = 5
+// similarity of a field that is set on only one of the people
+const ONE_SIDED_SIMILARITY = 0.5
+// names that share fewer first letters are not compared, jaroWinkler gives them a low score anyway
+const BLOCK_PREFIX_LENGTH = 2
+
+/**
+ * Find pairs of people that are likely the same person entered twice.
+ * Names are compared with fuzzy matching that ignores case, accents and small typos, dates by the overlap of their ranges (abt 1850 matches 1851).
+ * People with different gender and people who are already parent, child or spouse of each other are not compared.
+ * @param data - family chart data
+ * @param options - compared fields and min score
+ * @returns candidate pairs sorted by score, best first
+ */
+export function findLikelyDuplicates(data: Data, {fields = DEFAULT_FIELDS, threshold = 0.8, block_fields = ['last name', 'birthday']}: FindDuplicatesOptions = {}): DuplicateCandidate[] {
+  const duplicate_fields: Required<DuplicateField>[] = fields.map(field => typeof field === 'string' ? {id: field, weight: 1} : {weight: 1, ...field})
+  const persons = data.filter(d => !d.to_add && !d.unknown && !d._new_rel_data)
+  const values = persons.map(d => duplicate_fields.map(field => normalizeValue(d.data[field.id])))
+  const {block_keys, blocks} = createBlocks(persons, block_fields)
+  // compared people by the index of the first one of the pair
+  const pairs = persons.map(() => new Set<number>())
+  block_keys.forEach((keys, i) => keys.forEach(key => (blocks[key] || []).forEach(j => {
+    if (j !== i) pairs[Math.min(i, j)].add(Math.max(i, j))
+  })))
+
+  const candidates: DuplicateCandidate[] = []
+  for (let i = 0; i < persons.length; i++) {
+    [...pairs[i]].sort((a, b) => a - b).forEach(j => {
+      const a = persons[i], b = persons[j]
+      if (a.data.gender !== b.data.gender && a.data.gender !== 'U' && b.data.gender !== 'U') return
+      if (areRelated(a, b)) return
+      const candidate = comparePersons(a, b, values[i], values[j])
+      if (candidate && candidate.score >= threshold) candidates.push(candidate)
+    })
+  }
+  return candidates.sort((a, b) => b.score - a.score)
+
+  function comparePersons(a: Datum, b: Datum, a_values: NormalizedValue[], b_values: NormalizedValue[]): DuplicateCandidate | null {
+    let total = 0, weights = 0
+    const field_scores: Record<string, number> = {}
+    duplicate_fields.forEach((field, i) => {
+      const a_value = a_values[i], b_value = b_values[i]
+      if (!a_value && !b_value) return
+      const similarity = a_value && b_value ? valueSimilarity(a_value, b_value) : ONE_SIDED_SIMILARITY
+      field_scores[field.id] = similarity
+      total += similarity * field.weight
+      weights += field.weight
+    })
+    if (weights === 0) return null
+    return {a_id: a.id, b_id: b.id, score: total / weights, fields: field_scores}
+  }
+}
+
+type NormalizedValue = {text: string, range: [number, number] | null} | null
+
+function normalizeValue(value: any): NormalizedValue {
+  if (value === undefined || value === null) return null
+  const text = normalizeText(String(value))
+  if (!text) return null
+  const date = parseDate(String(value))
+  return {text, range: date ? getDateRange(date) : null}
+}
+
+// blocks of people that share the first letters of a name and the decade of a date in all block fields.
+// a key has one part per block field, '*' for a missing field, e.g. 'sm|1850s' or 'sm|*'.
+// people are put in the blocks of their keys, and look up the keys with their fields replaced by '*' too,
+// so a person without a birthday is compared with people of the same name in any decade
+function createBlocks(persons: Data, block_fields: string[]) {
+  const blocks: Record<string, number[]> = {}
+  const block_keys = persons.map((d, i) => {
+    const parts = block_fields.map(field_id => getBlockParts(d.data[field_id]))
+    if (block_fields.length > 0 && parts.every(part => part.length === 0)) return []
+    combineParts(parts.map(part => part.length > 0 ? part : ['*'])).forEach(key => {
+      if (!blocks.hasOwnProperty(key)) blocks[key] = []
+      blocks[key].push(i)
+    })
+    return combineParts(parts.map(part => part.length > 0 ? [...part, '*'] : ['*']))
+      .filter(key => block_fields.length === 0 || key.split('|').some(part => part !== '*'))
+  })
+  return {block_keys, blocks}
+}
+
+// first letters of a name, or decades of a date. dates within MAX_DATE_GAP of each other share a decade
+function getBlockParts(value: any): string[] {
+  const normalized = normalizeValue(value)
+  if (!normalized) return []
+  if (!normalized.range) return [normalized.text.slice(0, BLOCK_PREFIX_LENGTH)]
+  const [start, end] = normalized.range
+  if (!isFinite(start) || !isFinite(end)) return []
+  const parts = []
+  const first_decade = Math.floor((start - MAX_DATE_GAP) / 10)
+  const last_decade = Math.floor((end + MAX_DATE_GAP) / 10)
+  for (let decade = first_decade; decade <= last_decade; decade++) parts.push(`${decade}0s`)
+  return parts
+}
+
+// every combination of one part per field, e.g. [['sm'], ['1840s', '1850s']] to ['sm|1840s', 'sm|1850s']
+function combineParts(parts: string[][]): string[] {
+  let keys = ['']
+  parts.forEach((part, i) => {
+    const next_keys: string[] = []
+    keys.forEach(key => part.forEach(p => next_keys.push(i === 0 ? p : `${key}|${p}`)))
+    keys = next_keys
+  })
+  return keys
+}
+
+function valueSimilarity(a: NonNullable<NormalizedValue>, b: NonNullable<NormalizedValue>) {
+  if (a.range && b.range) {
+    const gap = Math.max(0, a.range[0] - b.range[1], b.range[0] - a.range[1])
+    return Math.max(0, 1 - gap / MAX_DATE_GAP)
+  }
+  return jaroWinkler(a.text, b.text)
+}
+
+function areRelated(a: Datum, b: Datum) {
+  return a.rels.parents.includes(b.id) || b.rels.parents.includes(a.id) || (a.rels.spouses || []).includes(b.id)
+}
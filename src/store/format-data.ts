@@ -8,6 +8,8 @@ export interface LegacyDatum extends Omit<Datum, 'rels'> {
     children?: string[];
 
     parents?: string[];
+    spouse_meta?: Datum['rels']['spouse_meta'];
+    parent_meta?: Datum['rels']['parent_meta'];
   };
 }
 
@@ -47,6 +49,12 @@ export function formatDataForExport(data: LegacyDatum[], legacy_format: boolean
           else father = parent.id   // for same sex parents, we set some parent to father and some to mother
         }
       })
+      d.rels.parents?.forEach(p => {
+        const parent = data.find(d => d.id === p)!
+        if (parent.data.gender === "M" || parent.data.gender === "F") return
+        if (!father) father = parent.id   // parents with other gender take the free slot
+        else if (!mother) mother = parent.id
+      })
       if (father) d.rels.father = father
       if (mother) d.rels.mother = mother
   
@@ -55,6 +63,8 @@ export function formatDataForExport(data: LegacyDatum[], legacy_format: boolean
     if (d.rels.parents && d.rels.parents.length === 0) delete d.rels.parents
     if (d.rels.spouses && d.rels.spouses.length === 0) delete d.rels.spouses
     if (d.rels.children && d.rels.children.length === 0) delete d.rels.children
+    if (d.rels.spouse_meta && Object.keys(d.rels.spouse_meta).length === 0) delete d.rels.spouse_meta
+    if (d.rels.parent_meta && Object.keys(d.rels.parent_meta).length === 0) delete d.rels.parent_meta
   })
   return data
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+/**
+ * Lower case text without accents and punctuation, e.g. "Müller-Lüdenscheidt" to "muller ludenscheidt".
+ */
+export function normalizeText(text: string) {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Jaro-Winkler similarity, 0-1. Common prefix counts more, so it suits names.
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+  const match_distance = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const a_matches: boolean[] = new Array(a.length).fill(false)
+  const b_matches: boolean[] = new Array(b.length).fill(false)
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - match_distance)
+    const end = Math.min(i + match_distance + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (b_matches[j] || a[i] !== b[j]) continue
+      a_matches[i] = b_matches[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!a_matches[i]) continue
+    while (!b_matches[j]) j++
+    if (a[i] !== b[j]) transpositions++
+    j++
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
@@ -0,0 +1,143 @@
+import { Data, Datum } from "../types/data"
+import { parseDate, getDateKey } from "./date"
+
+export interface MergeConflict {
+  /** datum.data key */
+  key: string
+  /** value of the kept person and value of the merged person */
+  values: [any, any]
+}
+
+export interface MergeResult {
+  datum: Datum
+  /** conflicts that were not resolved with values. the other value is kept in datum.merge_conflicts for review */
+  conflicts: MergeConflict[]
+}
+
+type RelType = 'parents' | 'spouses' | 'children'
+const REL_TYPES: RelType[] = ['parents', 'spouses', 'children']
+
+/**
+ * Data fields that are set on both people with different values. Derived date values and rel_reference fields are left out.
+ */
+export function getMergeConflicts(keep: Datum, remove: Datum): MergeConflict[] {
+  const conflicts: MergeConflict[] = []
+  Object.keys(remove.data).forEach(key => {
+    if (!isMergeField(key)) return
+    const keep_value = keep.data[key], remove_value = remove.data[key]
+    if (isEmpty(keep_value) || isEmpty(remove_value)) return
+    if (JSON.stringify(keep_value) === JSON.stringify(remove_value)) return
+    conflicts.push({key, values: [keep_value, remove_value]})
+  })
+  return conflicts
+}
+
+/**
+ * Merge two records of the same person. remove is deleted and every reference to it is moved to keep.
+ * Empty fields of keep are filled from remove. Relatives of both are combined, a third parent is unlinked.
+ * Data is changed in place.
+ * @param data - family chart data
+ * @param keep_id - id of the person that is kept
+ * @param remove_id - id of the person that is merged into keep
+ * @param values - chosen values of conflicting fields by datum.data key. undefined removes the field
+ * @returns merged datum and unresolved conflicts
+ */
+export function mergePersons(data: Data, keep_id: Datum['id'], remove_id: Datum['id'], values: Record<string, any> = {}): MergeResult {
+  if (keep_id === remove_id) throw new Error('Can not merge person with itself')
+  const keep = data.find(d => d.id === keep_id)
+  const remove = data.find(d => d.id === remove_id)
+  if (!keep) throw new Error('Datum not found')
+  if (!remove) throw new Error('Datum not found')
+
+  const conflicts = getMergeConflicts(keep, remove).filter(conflict => !values.hasOwnProperty(conflict.key))
+  mergeData()
+  mergeRels()
+  data.forEach(d => replaceReferences(d))
+  data.splice(data.indexOf(remove), 1)
+
+  return {datum: keep, conflicts}
+
+  function mergeData() {
+    if (keep!.data.gender === 'U') keep!.data.gender = remove!.data.gender
+    Object.keys(remove!.data).forEach(key => {
+      if (isEmpty(keep!.data[key]) && !isEmpty(remove!.data[key])) keep!.data[key] = remove!.data[key]
+    })
+    Object.keys(values).forEach(key => {
+      if (values[key] === undefined) delete keep!.data[key]
+      else keep!.data[key] = values[key]
+      const date_key = getDateKey(key)
+      if (!keep!.data.hasOwnProperty(date_key)) return
+      const date = parseDate(values[key])
+      if (date) keep!.data[date_key] = date
+      else delete keep!.data[date_key]
+    })
+    if (conflicts.length > 0) {
+      if (!keep!.merge_conflicts) keep!.merge_conflicts = {}
+      conflicts.forEach(({key, values}) => {
+        const kept: any[] = keep!.merge_conflicts[key] || []
+        if (!kept.some(v => JSON.stringify(v) === JSON.stringify(values[1]))) kept.push(values[1])
+        keep!.merge_conflicts[key] = kept
+      })
+    }
+  }
+
+  function mergeRels() {
+    const rels = keep!.rels
+    REL_TYPES.forEach(rel_type => {
+      const rel_ids = [...(rels[rel_type] || [])]
+      const remove_rel_ids = remove!.rels[rel_type] || []
+      remove_rel_ids.forEach(id => {
+        if (!rel_ids.includes(id)) rel_ids.push(id)
+      })
+      rels[rel_type] = rel_ids.filter(id => id !== keep_id && id !== remove_id)
+    })
+    if (rels.parents.length > 2) {
+      const unlinked = rels.parents.splice(2)
+      unlinked.forEach(parent_id => {
+        const parent = data.find(d => d.id === parent_id)
+        if (!parent) return
+        parent.rels.children = (parent.rels.children || []).filter(id => id !== keep_id && id !== remove_id)
+        if (remove!.rels.parent_meta) delete remove!.rels.parent_meta[parent_id]
+      })
+    }
+    if (remove!.rels.spouse_meta) rels.spouse_meta = {...remove!.rels.spouse_meta, ...rels.spouse_meta}
+    if (remove!.rels.parent_meta) rels.parent_meta = {...remove!.rels.parent_meta, ...rels.parent_meta}
+    if (rels.spouse_meta) {
+      delete rels.spouse_meta[keep_id]
+      delete rels.spouse_meta[remove_id]
+    }
+  }
+
+  function replaceReferences(d: Datum) {
+    if (d === remove) return
+    REL_TYPES.forEach(rel_type => {
+      if (!d.rels[rel_type]) return
+      const rel_ids: Datum['id'][] = []
+      d.rels[rel_type].forEach(id => {
+        const new_id = id === remove_id ? keep_id : id
+        if (new_id !== d.id && !rel_ids.includes(new_id)) rel_ids.push(new_id)
+      })
+      d.rels[rel_type] = rel_ids
+    })
+    const metas = [d.rels.spouse_meta, d.rels.parent_meta]
+    metas.forEach(meta => {
+      if (!meta || !meta.hasOwnProperty(remove_id)) return
+      if (!meta.hasOwnProperty(keep_id) && d !== keep) meta[keep_id] = meta[remove_id]
+      delete meta[remove_id]
+    })
+    Object.keys(d.data).forEach(key => {
+      if (!key.endsWith(`__ref__${remove_id}`)) return
+      const new_key = key.slice(0, -remove_id.length) + keep_id
+      if (d !== keep && !d.data.hasOwnProperty(new_key)) d.data[new_key] = d.data[key]
+      delete d.data[key]
+    })
+  }
+}
+
+function isMergeField(key: string) {
+  return key !== 'gender' && !key.endsWith('__date') && !key.includes('__ref__')
+}
+
+function isEmpty(value: any) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
@@ -17,11 +17,18 @@ export function createNewPersonWithGenderFromRel({data, rel_type, rel_datum}: {d
   data = Object.assign(data || {}, {gender})
   return createNewPerson({data})
 
-  function getGenderFromRelative(rel_datum: Datum, rel_type: RelType) {
-    return (["daughter", "mother"].includes(rel_type) || rel_type === "spouse" && rel_datum.data.gender === "M") ? "F" : "M"
+  function getGenderFromRelative(rel_datum: Datum, rel_type: RelType): Datum['data']['gender'] {
+    if (rel_type === "spouse") return getSpouseGender(rel_datum.data.gender)
+    return ["daughter", "mother"].includes(rel_type) ? "F" : "M"
   }
 }
 
+export function getSpouseGender(gender: Datum['data']['gender']): Datum['data']['gender'] {
+  if (gender === "M") return "F"
+  if (gender === "F") return "M"
+  return "U"
+}
+
 export function addNewPerson({data_stash, datum}: {data_stash: Data, datum: Datum}) {
   data_stash.push(datum)
 }
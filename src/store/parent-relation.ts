@@ -0,0 +1,41 @@
+import { Data, Datum, ParentRelation } from "../types/data"
+
+export type ParentRelationType = NonNullable<ParentRelation['type']>
+
+export const PARENT_RELATION_TYPES: {value: ParentRelationType, label: string}[] = [
+  {value: 'biological', label: 'Biological'},
+  {value: 'adoptive', label: 'Adoptive'},
+  {value: 'step', label: 'Step'},
+  {value: 'foster', label: 'Foster'},
+]
+
+export function getParentRelationType(child: Datum, parent_id: Datum['id']): ParentRelationType {
+  return child.rels.parent_meta?.[parent_id]?.type || 'biological'
+}
+
+export function isBiologicalParent(child: Datum, parent_id: Datum['id']) {
+  return getParentRelationType(child, parent_id) === 'biological'
+}
+
+/**
+ * Set relationship of child to parent. Biological is the default, so it removes the entry.
+ */
+export function setParentRelationType(child: Datum, parent_id: Datum['id'], type: ParentRelationType) {
+  if (!child.rels.parents.includes(parent_id)) return console.error(`${parent_id} is not a parent of ${child.id}`)
+  if (type === 'biological') return removeParentRelation(child, parent_id)
+  if (!child.rels.parent_meta) child.rels.parent_meta = {}
+  child.rels.parent_meta[parent_id] = {type}
+}
+
+export function removeParentRelation(child: Datum, parent_id: Datum['id']) {
+  if (!child.rels.parent_meta) return
+  delete child.rels.parent_meta[parent_id]
+  if (Object.keys(child.rels.parent_meta).length === 0) delete child.rels.parent_meta
+}
+
+export function onDeleteRemoveParentRelations(datum: Datum, data_stash: Data) {
+  (datum.rels.children || []).forEach(child_id => {
+    const child = data_stash.find(d => d.id === child_id)
+    if (child) removeParentRelation(child, datum.id)
+  })
+}
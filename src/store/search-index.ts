@@ -0,0 +1,236 @@
+import { Data, Datum } from "../types/data"
+import { parseDate, getDatumDate, getDateRange, DateValue } from "./date"
+import { normalizeText, jaroWinkler } from "./fuzzy"
+
+export interface SearchIndexOptions {
+  /** datum.data keys that are searched. default all keys except gender */
+  fields?: string[]
+  /** names of fields in queries, e.g. {born: 'birthday'} for born:1850. default born, died, surname, first, given and last */
+  field_aliases?: Record<string, string>
+  /** importance of fields in ranking. default first name and last name 2, others 1 */
+  field_weights?: Record<string, number>
+}
+
+export interface SearchResult {
+  id: Datum['id']
+  /** 0-1, 1 is an exact match of every term in the most important fields */
+  score: number
+  /** datum.data keys that matched the query */
+  fields: string[]
+}
+
+export const DEFAULT_FIELD_ALIASES: Record<string, string> = {
+  born: 'birthday',
+  birth: 'birthday',
+  died: 'death',
+  surname: 'last name',
+  last: 'last name',
+  first: 'first name',
+  given: 'first name',
+}
+
+const DEFAULT_FIELD_WEIGHTS: Record<string, number> = {
+  'first name': 2,
+  'last name': 2,
+}
+
+// min Jaro-Winkler similarity of a misspelled term
+const FUZZY_THRESHOLD = 0.85
+
+// dates include the start and not the end of their range, see getDateRange. numbers and bounds of query ranges are exact values
+interface ValueRange {
+  start: number
+  end: number
+  is_date: boolean
+}
+
+interface IndexedField {
+  key: string
+  tokens: string[]
+  text: string
+  range: ValueRange | null
+}
+
+interface IndexedPerson {
+  id: Datum['id']
+  fields: IndexedField[]
+}
+
+interface QueryTerm {
+  /** datum.data key, null for terms that match any field */
+  field: string | null
+  text: string
+  range: ValueRange | null
+}
+
+export default function createSearchIndex(data: Data, options: SearchIndexOptions = {}) { return new SearchIndex(data, options) }
+
+/**
+ * Index of all datum.data fields for full-text search.
+ * Matching ignores case and accents and allows small typos.
+ * Queries are terms separated by spaces and field filters, e.g. `john born:1850..1900 surname:Smith`.
+ * Ranges work on dates and numbers and can be open, e.g. `died:..1900`.
+ */
+export class SearchIndex {
+  data: Data
+  options: SearchIndexOptions
+  private persons: IndexedPerson[] | null
+
+  constructor(data: Data, options: SearchIndexOptions = {}) {
+    this.data = data
+    this.options = options
+    this.persons = null
+  }
+
+  /**
+   * Use new or changed data. The index is rebuilt on the next search.
+   */
+  update(data: Data) {
+    this.data = data
+    this.persons = null
+    return this
+  }
+
+  /**
+   * @param query - search query, e.g. `john born:1850..1900 surname:Smith`
+   * @param limit - max number of results
+   * @returns matching people sorted by score, best first. empty if the query is empty
+   */
+  search(query: string, limit: number = Infinity): SearchResult[] {
+    const terms = this.parseQuery(query)
+    if (terms.length === 0) return []
+    if (!this.persons) this.persons = this.build()
+
+    const results: SearchResult[] = []
+    this.persons.forEach(person => {
+      let total = 0
+      const matched_fields: string[] = []
+      for (const term of terms) {
+        const match = this.matchTerm(person, term)
+        if (!match) return
+        total += match.score
+        if (!matched_fields.includes(match.field)) matched_fields.push(match.field)
+      }
+      results.push({id: person.id, score: total / terms.length, fields: matched_fields})
+    })
+    return results.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  private build(): IndexedPerson[] {
+    const persons: IndexedPerson[] = []
+    this.data.forEach(d => {
+      if (d.to_add || d.unknown || d._new_rel_data) return
+      const keys = this.options.fields || Object.keys(d.data).filter(key => key !== 'gender' && !key.endsWith('__date') && !key.includes('__ref__'))
+      const fields: IndexedField[] = []
+      keys.forEach(key => {
+        const value = d.data[key]
+        if (value === undefined || value === null || typeof value === 'object' && !Array.isArray(value)) return
+        const text = normalizeText(Array.isArray(value) ? value.join(' ') : String(value))
+        if (!text) return
+        fields.push({key, text, tokens: text.split(' '), range: valueRange(value, getDatumDate(d, key))})
+      })
+      persons.push({id: d.id, fields})
+    })
+    return persons
+  }
+
+  private parseQuery(query: string): QueryTerm[] {
+    const aliases = {...DEFAULT_FIELD_ALIASES, ...(this.options.field_aliases || {})}
+    const terms: QueryTerm[] = []
+    const re = /(?:([^\s:"]+):)?(?:"([^"]*)"|(\S+))/g
+    let match: RegExpExecArray | null
+    while ((match = re.exec(query)) !== null) {
+      const field_name = match[1] ? match[1].toLowerCase() : null
+      const value = (match[2] !== undefined ? match[2] : match[3]).trim()
+      if (!value) continue
+      // quotes group words of field filters, e.g. place:"new york". words of other terms can match different fields
+      const values = field_name ? [value] : value.split(/\s+/)
+      const field = field_name ? aliases[field_name] || field_name.replace(/_/g, ' ') : null
+      values.forEach(value => {
+        const is_range = value.includes('..')
+        terms.push({field, text: is_range ? '' : normalizeText(value), range: parseRange(value)})
+      })
+    }
+    return terms.filter(term => term.text || term.range)
+  }
+
+  private matchTerm(person: IndexedPerson, term: QueryTerm): {score: number, field: string} | null {
+    const fields = term.field ? person.fields.filter(field => field.key === term.field) : person.fields
+    const weights = {...DEFAULT_FIELD_WEIGHTS, ...(this.options.field_weights || {})}
+    const max_weight = Math.max(1, ...Object.values(weights))
+    let best: {score: number, field: string} | null = null
+    fields.forEach(field => {
+      const score = matchField(field, term)
+      if (score === 0) return
+      // field filters ask for that field, so its weight does not lower the score
+      const weighted = term.field ? score : score * (weights[field.key] || 1) / max_weight
+      if (!best || weighted > best.score) best = {score: weighted, field: field.key}
+    })
+    return best
+  }
+}
+
+function matchField(field: IndexedField, term: QueryTerm) {
+  if (term.range && field.range) return rangesOverlap(field.range, term.range) ? 1 : 0
+  if (!term.text) return 0
+  const term_tokens = term.text.split(' ')
+  let total = 0
+  for (const term_token of term_tokens) {
+    const score = Math.max(...field.tokens.map(token => tokenScore(term_token, token)))
+    if (score === 0) return 0
+    total += score
+  }
+  return total / term_tokens.length
+}
+
+function tokenScore(term: string, token: string) {
+  if (term === token) return 1
+  if (token.startsWith(term)) return 0.9
+  if (term.length >= 3 && token.includes(term)) return 0.7
+  if (term.length < 3) return 0
+  const similarity = jaroWinkler(term, token)
+  return similarity >= FUZZY_THRESHOLD ? similarity * 0.8 : 0
+}
+
+function valueRange(value: any, date: DateValue | null): ValueRange | null {
+  if (typeof value === 'number') return numberRange(value, value)
+  if (date) return dateRange(date)
+  const number = Number(value)
+  return value !== '' && !isNaN(number) ? numberRange(number, number) : null
+}
+
+function rangesOverlap(a: ValueRange, b: ValueRange) {
+  if (!a.is_date && !b.is_date) return a.start <= b.end && b.start <= a.end
+  const [a_start, a_end] = toYearRange(a)
+  const [b_start, b_end] = toYearRange(b)
+  return a_start < b_end && b_start < a_end
+}
+
+// numbers compared with dates are years, so ..1900 ends at the end of 1900
+function toYearRange(range: ValueRange): [number, number] {
+  if (range.is_date) return [range.start, range.end]
+  return [range.start, isFinite(range.end) ? Math.floor(range.end) + 1 : range.end]
+}
+
+function numberRange(start: number, end: number): ValueRange {
+  return {start, end, is_date: false}
+}
+
+function dateRange(date: DateValue): ValueRange {
+  const [start, end] = getDateRange(date)
+  return {start, end, is_date: true}
+}
+
+// 1850..1900, ..1900, 1850.., or a single date, e.g. 1850 or "abt 1850"
+function parseRange(value: string): ValueRange | null {
+  const range_match = value.match(/^(-?\d+(?:\.\d+)?)?\.\.(-?\d+(?:\.\d+)?)?$/)
+  if (range_match) {
+    if (range_match[1] === undefined && range_match[2] === undefined) return null
+    const min = range_match[1] !== undefined ? Number(range_match[1]) : -Infinity
+    const max = range_match[2] !== undefined ? Number(range_match[2]) : Infinity
+    return numberRange(min, max)
+  }
+  const date = parseDate(value)
+  if (date) return dateRange(date)
+  return null
+}
@@ -5,14 +5,22 @@ import { TreeDatum } from "../types/treeData"
 import { Store, StoreState } from "../types/store"
 import { CalculateTreeOptions, Tree } from "../layout/calculate-tree"
 import { ViewProps } from "../renderers/view"
+import { createEvents } from "../features/events"
+import { checkConsistency, ConsistencyIssue } from "./consistency"
+import createSearchIndex, { SearchIndex, SearchResult } from "./search-index"
 
 export default function createStore(initial_state: StoreState): Store {
   let onUpdate: (props?: any) => void | undefined;
   const state = {
     transition_time: 1000,
+    search_options: {},
     ...initial_state,
   };
   state.main_id_history = []
+  let search_index: SearchIndex | null = null
+  // data is edited in place, so it is compared by JSON to know if checks and search index are out of date
+  let checked_data_json: string | null = null
+  let checked_consistency_check: StoreState['consistency_check']
   if (state.data) {
     checkIfFmFormat(state.data)
     formatData(state.data);
@@ -23,6 +31,7 @@ export default function createStore(initial_state: StoreState): Store {
     updateTree: (props?: ViewProps) => {
       if (!state.data || state.data.length === 0) return
       state.tree = calcTree();
+      updateDataChecks()
       if (!state.main_id && state.tree) updateMainId(state.tree.main_id)
       if (onUpdate) onUpdate(props)
     },
@@ -30,6 +39,7 @@ export default function createStore(initial_state: StoreState): Store {
       checkIfFmFormat(data)
       formatData(data);
       state.data = data as Data;
+      if (search_index) search_index.update(state.data)
       validateMainId();
     },
     updateMainId,
@@ -43,7 +53,10 @@ export default function createStore(initial_state: StoreState): Store {
     getTreeMainDatum,
     getTreeDatum,
     getLastAvailableMainDatum,
+    getConsistencyIssues,
+    search,
 
+    events: createEvents(),
     methods: {},
   }
 
@@ -54,6 +67,8 @@ export default function createStore(initial_state: StoreState): Store {
       main_id: state.main_id,
     };
     
+    if (state.layout_mode !== undefined) args.layout_mode = state.layout_mode;
+    if (state.graph_depth !== undefined) args.graph_depth = state.graph_depth;
     if (state.node_separation !== undefined) args.node_separation = state.node_separation;
     if (state.level_separation !== undefined) args.level_separation = state.level_separation;
     if (state.single_parent_empty_card !== undefined) args.single_parent_empty_card = state.single_parent_empty_card;
@@ -67,6 +82,7 @@ export default function createStore(initial_state: StoreState): Store {
     if (state.show_siblings_of_main !== undefined) args.show_siblings_of_main = state.show_siblings_of_main;
     if (state.private_cards_config !== undefined) args.private_cards_config = state.private_cards_config;
     if (state.duplicate_branch_toggle !== undefined) args.duplicate_branch_toggle = state.duplicate_branch_toggle;
+    if (state.filter !== undefined) args.filter = state.filter;
     
     return calculateTree(state.data, args);
   }
@@ -97,11 +113,35 @@ export default function createStore(initial_state: StoreState): Store {
     return found;
   }
 
+  // consistency issues and search index follow data changes, a tree update without them, e.g. a new main person, reuses them
+  function updateDataChecks() {
+    // layout flags, e.g. main, are set on datums on every tree update and are left out
+    const data_json = JSON.stringify(state.data.map(d => [d.id, d.data, d.rels, !!d.to_add, !!d.unknown, !!d._new_rel_data]))
+    const data_changed = data_json !== checked_data_json
+    if (data_changed && search_index) search_index.update(state.data)
+    if (data_changed || state.consistency_check !== checked_consistency_check) {
+      state.consistency_issues = state.consistency_check ? checkConsistency(state.data, state.consistency_check === true ? {} : state.consistency_check) : undefined
+    }
+    checked_data_json = data_json
+    checked_consistency_check = state.consistency_check
+  }
+
+  function getConsistencyIssues(id: Datum['id']): ConsistencyIssue[] {
+    return (state.consistency_issues || []).filter(issue => issue.datum_id === id)
+  }
+
+  function search(query: string, limit?: number): SearchResult[] {
+    if (!search_index || search_index.options !== state.search_options) search_index = createSearchIndex(state.data, state.search_options)
+    return search_index.search(query, limit)
+  }
+
   function updateMainId(id: Datum['id']) {
     if (id === state.main_id) return
+    const prev_main_id = state.main_id || null
     state.main_id_history = state.main_id_history!.filter(d => d !== id).slice(-10)
     state.main_id_history.push(id)
     state.main_id = id
+    store.events.emit('main:changed', {datum_id: id, before: prev_main_id})
   }
 
   function validateMainId() {
@@ -0,0 +1,70 @@
+import { Data, Datum, Union } from "../types/data"
+import { compareDates } from "./date"
+
+export const UNION_TYPES: {value: NonNullable<Union['type']>, label: string}[] = [
+  {value: 'married', label: 'Married'},
+  {value: 'divorced', label: 'Divorced'},
+  {value: 'partner', label: 'Partner'},
+]
+
+const UNION_PROPS: (keyof Union)[] = ['type', 'date', 'end_date']
+
+export function getUnion(datum: Datum, spouse_id: Datum['id']): Union | undefined {
+  return datum.rels.spouse_meta?.[spouse_id]
+}
+
+/**
+ * Set union on both spouses. Empty values are removed.
+ */
+export function setUnion(datum: Datum, spouse: Datum, union: Union) {
+  const cleaned: Union = {}
+  UNION_PROPS.forEach(k => {
+    if (union[k]) Object.assign(cleaned, {[k]: union[k]})
+  })
+  if (Object.keys(cleaned).length === 0) return removeUnion(datum, spouse)
+  if (!datum.rels.spouse_meta) datum.rels.spouse_meta = {}
+  if (!spouse.rels.spouse_meta) spouse.rels.spouse_meta = {}
+  datum.rels.spouse_meta[spouse.id] = cleaned
+  spouse.rels.spouse_meta[datum.id] = {...cleaned}
+}
+
+export function removeUnion(datum: Datum, spouse: Datum) {
+  if (datum.rels.spouse_meta) delete datum.rels.spouse_meta[spouse.id]
+  if (spouse.rels.spouse_meta) delete spouse.rels.spouse_meta[datum.id]
+  if (datum.rels.spouse_meta && Object.keys(datum.rels.spouse_meta).length === 0) delete datum.rels.spouse_meta
+  if (spouse.rels.spouse_meta && Object.keys(spouse.rels.spouse_meta).length === 0) delete spouse.rels.spouse_meta
+}
+
+export function onDeleteRemoveUnions(datum: Datum, data_stash: Data) {
+  Object.keys(datum.rels.spouse_meta || {}).forEach(spouse_id => {
+    const spouse = data_stash.find(d => d.id === spouse_id)
+    if (spouse) removeUnion(datum, spouse)
+  })
+  delete datum.rels.spouse_meta
+}
+
+// field id includes the spouse id, so union fields with different ids don't share inputs
+export function getUnionFormKey(field_id: string, prop: keyof Union) {
+  return `union__${field_id}__${prop}`
+}
+
+export function getUnionFormKeys(field_id: string): Record<keyof Union, string> {
+  return {type: getUnionFormKey(field_id, 'type'), date: getUnionFormKey(field_id, 'date'), end_date: getUnionFormKey(field_id, 'end_date')}
+}
+
+/**
+ * Sort spouses by union date. Spouses without union date keep their order and are put at the end.
+ * Can be used as sortSpousesFunction.
+ */
+export function sortSpousesByUnionDate(d: Datum, data: Data) {
+  if (!d.rels.spouses) return
+  const spouses = [...d.rels.spouses]
+  d.rels.spouses.sort((a, b) => {
+    const a_date = getUnion(d, a)?.date
+    const b_date = getUnion(d, b)?.date
+    if (a_date && b_date) return compareDates(a_date, b_date) || spouses.indexOf(a) - spouses.indexOf(b)
+    if (a_date) return -1
+    if (b_date) return 1
+    return spouses.indexOf(a) - spouses.indexOf(b)
+  })
+}
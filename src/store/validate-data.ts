@@ -0,0 +1,186 @@
+import { Data, Datum } from "../types/data"
+import { LegacyDatum } from "./format-data"
+
+type RelType = 'parents' | 'spouses' | 'children'
+
+export type DataIssueType =
+  'invalid_datum' |
+  'invalid_gender' |
+  'duplicate_id' |
+  'dangling_reference' |
+  'self_reference' |
+  'duplicate_reference' |
+  'one_sided_link' |
+  'too_many_parents' |
+  'ancestry_cycle'
+
+export interface DataIssue {
+  type: DataIssueType
+  severity: 'error' | 'warning'
+  datum_id: Datum['id']
+  rel_id?: Datum['id']
+  rel_type?: RelType
+  message: string
+}
+
+const REVERSE_REL_TYPE: Record<RelType, RelType> = {parents: 'children', children: 'parents', spouses: 'spouses'}
+
+/**
+ * Check data for problems that break tree calculation or display.
+ * Data can be in the legacy format with father and mother, so it can be checked before formatData.
+ * @param data - family chart data
+ * @returns list of issues. errors make calculateTree throw or loop, warnings make the tree incomplete.
+ */
+export function validateData(data: Data): DataIssue[] {
+  const issues: DataIssue[] = []
+  const ids: Record<Datum['id'], Datum> = {}
+
+  data.forEach(d => {
+    if (!d || typeof d.id !== 'string' || !d.data || !d.rels) {
+      issues.push({type: 'invalid_datum', severity: 'error', datum_id: d?.id, message: 'datum must have id, data and rels'})
+      return
+    }
+    if (ids[d.id]) issues.push({type: 'duplicate_id', severity: 'error', datum_id: d.id, message: `id ${d.id} is used by more than one datum`})
+    ids[d.id] = d
+    if (!['M', 'F', 'U'].includes(d.data.gender)) {
+      issues.push({type: 'invalid_gender', severity: 'warning', datum_id: d.id, message: `gender must be "M", "F" or "U", got "${d.data.gender}"`})
+    }
+  })
+
+  data.forEach(d => {
+    if (!d || !d.rels) return
+    const rel_types: RelType[] = ['parents', 'spouses', 'children']
+    rel_types.forEach(rel_type => {
+      const rel_ids = getRelIds(d, rel_type)
+      rel_ids.forEach((rel_id, i) => {
+        if (rel_id === d.id) {
+          issues.push({type: 'self_reference', severity: 'error', datum_id: d.id, rel_id, rel_type, message: `${d.id} references itself in ${rel_type}`})
+          return
+        }
+        if (rel_ids.indexOf(rel_id) !== i) {
+          issues.push({type: 'duplicate_reference', severity: 'warning', datum_id: d.id, rel_id, rel_type, message: `${rel_id} is listed more than once in ${rel_type} of ${d.id}`})
+          return
+        }
+        const rel = ids[rel_id]
+        if (!rel) {
+          issues.push({type: 'dangling_reference', severity: 'error', datum_id: d.id, rel_id, rel_type, message: `${rel_id} in ${rel_type} of ${d.id} does not exist`})
+          return
+        }
+        const reverse_rel_type = REVERSE_REL_TYPE[rel_type]
+        if (!getRelIds(rel, reverse_rel_type).includes(d.id)) {
+          issues.push({
+            type: 'one_sided_link', severity: 'warning', datum_id: d.id, rel_id, rel_type,
+            message: `${d.id} lists ${rel_id} in ${rel_type}, but ${rel_id} doesn't list ${d.id} in ${reverse_rel_type}`
+          })
+        }
+      })
+    })
+    const parents = getRelIds(d, 'parents')
+    if (parents.length > 2) {
+      issues.push({type: 'too_many_parents', severity: 'error', datum_id: d.id, rel_type: 'parents', message: `${d.id} has ${parents.length} parents, max is 2`})
+    }
+  })
+
+  findAncestryCycles(data, ids).forEach(cycle => {
+    issues.push({
+      type: 'ancestry_cycle', severity: 'error', datum_id: cycle[0], rel_id: cycle[1], rel_type: 'parents',
+      message: `ancestry cycle: ${cycle.join(' -> ')}`
+    })
+  })
+
+  return issues
+}
+
+/**
+ * Fix issues that can be fixed without guessing: one-sided links get the missing reverse link,
+ * dangling, duplicate and self references are removed.
+ * Data is changed in place.
+ * @param data - family chart data
+ * @returns list of issues that were fixed
+ */
+export function repairData(data: Data): DataIssue[] {
+  const fixed: DataIssue[] = []
+  const repairable: DataIssueType[] = ['dangling_reference', 'self_reference', 'duplicate_reference', 'one_sided_link']
+
+  validateData(data).forEach(issue => {
+    if (!repairable.includes(issue.type)) return
+    const d = data.find(d => d && d.id === issue.datum_id)
+    if (!d || !issue.rel_type || !issue.rel_id) return
+
+    if (issue.type === 'one_sided_link') {
+      const rel = data.find(d0 => d0 && d0.id === issue.rel_id)
+      if (!rel) return
+      const reverse_rel_type = REVERSE_REL_TYPE[issue.rel_type]
+      if (getRelIds(rel, reverse_rel_type).includes(d.id)) return  // already fixed by a previous issue
+      if (reverse_rel_type === 'parents' && getRelIds(rel, 'parents').length >= 2) return  // can't add third parent
+      if (!rel.rels[reverse_rel_type]) rel.rels[reverse_rel_type] = []
+      rel.rels[reverse_rel_type].push(d.id)
+    } else if (issue.type === 'duplicate_reference') {
+      const rel_ids = getRelIds(d, issue.rel_type)
+      if (rel_ids.indexOf(issue.rel_id) === rel_ids.lastIndexOf(issue.rel_id)) return
+      removeRelId(d, issue.rel_type, issue.rel_id, true)
+    } else {
+      if (!getRelIds(d, issue.rel_type).includes(issue.rel_id)) return
+      removeRelId(d, issue.rel_type, issue.rel_id, false)
+    }
+    fixed.push(issue)
+  })
+
+  return fixed
+}
+
+// iterative dfs, deep pedigrees would overflow the call stack
+function findAncestryCycles(data: Data, ids: Record<Datum['id'], Datum>) {
+  const cycles: Datum['id'][][] = []
+  const color: Record<Datum['id'], 'visiting' | 'visited'> = {}
+  data.forEach(d => {
+    if (d && d.rels && !color[d.id]) visit(d.id)
+  })
+  return cycles
+
+  function visit(start_id: Datum['id']) {
+    // path from start to the current person, with the index of the next parent to visit
+    const stack: {id: Datum['id'], parents: Datum['id'][], i: number}[] = []
+    const stack_index: Record<Datum['id'], number> = {}
+    push(start_id)
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1]
+      if (top.i === top.parents.length) {
+        color[top.id] = 'visited'
+        delete stack_index[top.id]
+        stack.pop()
+        continue
+      }
+      const p_id = top.parents[top.i++]
+      if (p_id === top.id || !ids[p_id] || color[p_id] === 'visited') continue
+      if (color[p_id] === 'visiting') cycles.push([...stack.slice(stack_index[p_id]).map(item => item.id), p_id])
+      else push(p_id)
+    }
+
+    function push(d_id: Datum['id']) {
+      color[d_id] = 'visiting'
+      stack_index[d_id] = stack.length
+      stack.push({id: d_id, parents: getRelIds(ids[d_id], 'parents'), i: 0})
+    }
+  }
+}
+
+// legacy data has father and mother instead of parents
+function getRelIds(d: Datum, rel_type: RelType): Datum['id'][] {
+  const rel_ids = d.rels[rel_type] || []
+  if (rel_type !== 'parents') return rel_ids
+  const {father, mother} = d.rels as LegacyDatum['rels']
+  if (!father && !mother) return rel_ids
+  return [...rel_ids, ...(father ? [father] : []), ...(mother ? [mother] : [])]
+}
+
+// removes the first or the last occurrence, in the same order as getRelIds
+function removeRelId(d: Datum, rel_type: RelType, rel_id: Datum['id'], last: boolean) {
+  const rels = d.rels as LegacyDatum['rels']
+  const rel_ids = d.rels[rel_type] || []
+  const i = last ? rel_ids.lastIndexOf(rel_id) : rel_ids.indexOf(rel_id)
+  const legacy_keys: ('father' | 'mother')[] = rel_type !== 'parents' ? [] : last ? ['mother', 'father'] : ['father', 'mother']
+  const legacy_key = legacy_keys.find(key => rels[key] === rel_id)
+  if (legacy_key && (last || i === -1)) delete rels[legacy_key]
+  else if (i !== -1) rel_ids.splice(i, 1)
+}
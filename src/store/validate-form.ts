@@ -0,0 +1,62 @@
+import { Data, Datum } from "../types/data"
+import { Field, FieldValidation } from "../types/form"
+import { parseDate, getDateSortValue } from "./date"
+
+const VALIDATION_PROPS: (keyof FieldValidation)[] = ['required', 'pattern', 'min', 'max', 'validate', 'error_message']
+
+/**
+ * Validation props of a field config, so they can be copied to the field of the form creator.
+ */
+export function getFieldValidation(field: FieldValidation): FieldValidation {
+  const validation: FieldValidation = {}
+  VALIDATION_PROPS.forEach(k => {
+    if (field[k] !== undefined) Object.assign(validation, {[k]: field[k]})
+  })
+  return validation
+}
+
+/**
+ * Check a form value against the validation of the field.
+ * min and max are compared with the value of number fields, the year of date fields and the length of text or selected options.
+ * @param value - form value, or parsed value for fields of registered types
+ * @returns error message or null if the value is valid
+ */
+export function validateFieldValue(field: Field, value: any, datum: Datum, data: Data): string | null {
+  const {required, pattern, min, max, validate, error_message} = field
+  const is_empty = value === undefined || value === null || value === false
+    || (typeof value === 'string' && value.trim() === '')
+    || (Array.isArray(value) && value.length === 0)
+
+  if (is_empty) {
+    if (required) return error_message || `${field.label} is required`
+  } else {
+    if (pattern !== undefined && typeof value === 'string') {
+      const re = typeof pattern === 'string' ? new RegExp(`^(?:${pattern})$`) : pattern
+      if (!re.test(value)) return error_message || `${field.label} has invalid format`
+    }
+    const size = getSize(field, value)
+    if (size !== null && min !== undefined && size < min) return error_message || limitMessage(field, value, 'min', min)
+    if (size !== null && max !== undefined && size > max) return error_message || limitMessage(field, value, 'max', max)
+  }
+
+  if (validate) return validate(value, datum, data) || null
+  return null
+}
+
+function getSize(field: Field, value: any): number | null {
+  if (field.type === 'number') return isNaN(Number(value)) ? null : Number(value)
+  if (field.type === 'date') {
+    const date = parseDate(value)
+    return date ? Math.floor(getDateSortValue(date)) : null
+  }
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  return null
+}
+
+function limitMessage(field: Field, value: any, limit_type: 'min' | 'max', limit: number) {
+  const limit_label = limit_type === 'min' ? 'at least' : 'at most'
+  if (field.type === 'number') return `${field.label} must be ${limit_label} ${limit}`
+  if (field.type === 'date') return `${field.label} must not be ${limit_type === 'min' ? 'before' : 'after'} ${limit}`
+  if (Array.isArray(value)) return `Select ${limit_label} ${limit} of ${field.label}`
+  return `${field.label} must have ${limit_label} ${limit} characters`
+}
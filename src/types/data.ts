@@ -1,15 +1,36 @@
 export interface Datum {
   id: string;
   data: {
-    gender: 'M' | 'F';
+    gender: 'M' | 'F' | 'U';
     [key: string]: any;
   };
   rels: {
     parents: string[];
     spouses: string[];
     children: string[];
+    spouse_meta?: {[spouse_id: string]: Union};
+    parent_meta?: {[parent_id: string]: ParentRelation};
   };
   [key: string]: any;
 }
 
-export type Data = Datum[];
\ No newline at end of file
+export type Data = Datum[];
+
+/**
+ * Union between two spouses. Stored on both spouses in rels.spouse_meta under the id of the other spouse.
+ */
+export interface Union {
+  type?: 'married' | 'divorced' | 'partner';
+  /** start of the union, e.g. marriage date */
+  date?: string;
+  /** end of the union, e.g. divorce date */
+  end_date?: string;
+}
+
+/**
+ * Relationship of a child to one of its parents. Stored on the child in rels.parent_meta under the id of the parent.
+ * Parents without parent_meta are biological.
+ */
+export interface ParentRelation {
+  type?: 'biological' | 'adoptive' | 'step' | 'foster';
+}
@@ -1,4 +1,4 @@
-import { Datum } from "./data"
+import { Data, Datum, Union } from "./data"
 import { Store } from "./store"
 
 import { AddRelative } from "../core/add-relative"
@@ -12,6 +12,10 @@ export interface FormCreatorSetupProps {
   fields: any[]  // todo: Field[]
   postSubmitHandler: (props: any) => void
   onCancel: () => void
+  /** called before the form changes data */
+  onChangeStart?: () => void
+  /** called when the form doesn't change data because validation failed */
+  onChangeCancel?: () => void
   editFirst: boolean
   no_edit: boolean
   link_existing_rel_config?: {linkRelLabel: (d: Datum) => string, title?: string, select_placeholder?: string}
@@ -19,7 +23,7 @@ export interface FormCreatorSetupProps {
   addRelative?: AddRelative
   removeRelative?: RemoveRelative
   deletePerson?: () => void
-  onSubmit?: (e: Event, datum: Datum, applyChanges: () => void, postSubmit: () => void) => void
+  onSubmit?: (e: Event, datum: Datum, applyChanges: () => boolean, postSubmit: () => void) => void
   onDelete?: (datum: Datum, deletePerson: () => void, postSubmit: (props: any) => void) => void
   canEdit?: (datum: Datum) => boolean
   canDelete?: (datum: Datum) => boolean
@@ -36,11 +40,13 @@ export interface BaseFormCreator {
     id: 'gender';
     type: 'switch';
     label: 'Gender';
-    initial_value: 'M' | 'F';
+    initial_value: Datum['data']['gender'];
     disabled: boolean;
-    options: {value: 'M' | 'F'; label: string}[];
+    options: {value: Datum['data']['gender']; label: string}[];
   };
   linkExistingRelative?: any;
+  /** messages of consistency issues of the datum */
+  warnings: string[];
 }
 
 export interface EditDatumFormCreator extends BaseFormCreator {
@@ -63,7 +69,23 @@ export interface NewRelFormCreator extends BaseFormCreator {
 
 export type FormCreator = EditDatumFormCreator | NewRelFormCreator;
 
-export interface Field {
+/**
+ * Validation of a form field. The form is not submitted while any field is invalid and errors are shown under the fields.
+ */
+export interface FieldValidation {
+  required?: boolean;
+  /** RegExp, or string that must match the whole value like the html pattern attribute */
+  pattern?: RegExp | string;
+  /** limits of the value of number fields, the year of date fields and the length of text or selected options */
+  min?: number;
+  max?: number;
+  /** custom validator. returns error message, or null if the value is valid */
+  validate?: (value: any, datum: Datum, data: Data) => string | null | undefined;
+  /** message shown instead of the default message of required, pattern, min and max */
+  error_message?: string;
+}
+
+export interface Field extends FieldValidation {
   id: string;
   type: string;
   label: string;
@@ -85,12 +107,32 @@ export interface RelReferenceFieldCreator {
   getRelLabel: (datum: Datum) => string;
 }
 
+export interface UnionField extends Omit<Field, 'initial_value'> {
+  type: 'union';
+  rel_id: string;
+  rel_label: string;
+  initial_value: Union;
+  type_options: {value: NonNullable<Union['type']>; label: string}[];
+}
+
+export interface UnionFieldCreator {
+  type: 'union';
+  id: string;
+  label: string;
+  getRelLabel: (datum: Datum) => string;
+  type_options?: {value: NonNullable<Union['type']>; label: string}[];
+}
+
+export interface DateField extends Field {
+  type: 'date';
+}
+
 export interface SelectField extends Field {
   type: 'select';
   options: {value: string; label: string}[];
 }
 
-export interface SelectFieldCreator {
+export interface SelectFieldCreator extends FieldValidation {
   id: string;
   type: 'select';
   label: string;
@@ -9,3 +9,16 @@ export { EditTree } from '../core/edit'
 export { AddRelative } from '../core/add-relative'
 export { CardSvg } from '../core/cards/card-svg'
 export { CardHtml } from '../core/cards/card-html'
+export type { ChartEventMap, ChartEventName, PersonEvent, RelationEvent, MainChangedEvent } from '../features/events'
+export type { PrintOptions, PrintTile, PrintLayout, PrintPreview } from '../features/print'
+export type { DateValue, DatePart, DateQualifier } from '../store/date'
+export type { ConsistencyIssue, ConsistencyOptions, ConsistencyRule, ConsistencyContext } from '../store/consistency'
+export type { FieldType, CustomField } from '../features/field-types'
+export type { DuplicateCandidate, DuplicateField, FindDuplicatesOptions } from '../store/find-duplicates'
+export type { MergeConflict, MergeResult } from '../store/merge'
+export type { PathStep, PathRelType } from '../features/kinships/find-path'
+export type { SearchResult, SearchIndexOptions } from '../store/search-index'
+export type { MinimapOptions } from '../features/minimap'
+export type { UrlStateOptions, ChartUrlState } from '../features/url-state'
+export type { Fan, FanOptions, FanSegment } from '../layout/calculate-fan'
+export type { Timeline, TimelineOptions, TimelineRow, TimelineEvent, TimelineRelative } from '../layout/calculate-timeline'
@@ -2,6 +2,11 @@ import { Datum, Data } from './data';
 import { TreeData, TreeDatum } from './treeData';
 import { CalculateTreeOptions, Tree } from '../layout/calculate-tree';
 import { ViewProps } from '../renderers/view';
+import { ChartEvents } from '../features/events';
+import { FanOptions } from '../layout/calculate-fan';
+import { TimelineOptions } from '../layout/calculate-timeline';
+import { ConsistencyIssue, ConsistencyOptions } from '../store/consistency';
+import { SearchIndexOptions, SearchResult } from '../store/search-index';
 
 export type TransitionTime = number;
 export type SingleParentEmptyCardLabel = string;
@@ -18,6 +23,13 @@ export type SortChildrenFunction = ((a: Datum, b: Datum) => number);
 export type SortSpousesFunction = ((d: Datum, data: Data) => void);
 export type AncestryDepth = number;
 export type ProgenyDepth = number;
+export type GraphDepth = number;
+export type ViewType = 'tree' | 'fan' | 'timeline';
+export type ConsistencyCheck = boolean | ConsistencyOptions;
+export type PathHighlight = [Datum['id'], Datum['id']] | null;
+export type Highlight = ((d: Datum) => boolean) | null;
+export type Filter = CalculateTreeOptions['filter'];
+export type LayoutMode = NonNullable<CalculateTreeOptions['layout_mode']>;
 
 export interface StoreState extends CalculateTreeOptions {
   data: Data;
@@ -30,7 +42,9 @@ export interface StoreState extends CalculateTreeOptions {
   single_parent_empty_card_label?: SingleParentEmptyCardLabel;
   unknown_card_label?: UnknownCardLabel;
   duplicate_branch_toggle?: DuplicateBranchToggle;
+  /** set with setCardYSpacing. undefined until set, then LAYOUT_MODE_DEFAULTS of the layout mode is used. the applied value is tree.level_separation */
   level_separation?: LevelSeparation;
+  /** set with setCardXSpacing. undefined until set, then LAYOUT_MODE_DEFAULTS of the layout mode is used. the applied value is tree.node_separation */
   node_separation?: NodeSeparation;
   private_cards_config?: PrivateCardsConfig;
   show_siblings_of_main?: ShowSiblingsOfMain;
@@ -38,6 +52,14 @@ export interface StoreState extends CalculateTreeOptions {
   sortSpousesFunction?: SortSpousesFunction;
   ancestry_depth?: AncestryDepth;
   progeny_depth?: ProgenyDepth;
+  view_type?: ViewType;
+  fan_options?: FanOptions;
+  timeline_options?: TimelineOptions;
+  consistency_check?: ConsistencyCheck;
+  consistency_issues?: ConsistencyIssue[];
+  path_highlight?: PathHighlight;
+  search_options?: SearchIndexOptions;
+  highlight?: Highlight;
 }
 
 export interface Store {
@@ -54,6 +76,9 @@ export interface Store {
   getTreeMainDatum: () => TreeDatum;
   getTreeDatum: (id: Datum['id']) => TreeDatum | undefined;
   getLastAvailableMainDatum: () => Datum;
+  getConsistencyIssues: (id: Datum['id']) => ConsistencyIssue[];
+  search: (query: string, limit?: number) => SearchResult[];
+  events: ChartEvents;
   methods: { [key: string]: (...args: any[]) => any };
 }
 